@@ -0,0 +1,315 @@
+/**
+ * Admin User Management
+ * =====================
+ *
+ * Backs the admin console at `/admin/users`. Users live in the Better Auth
+ * component's tables, which are read and written through
+ * `components.betterAuth.adapter`. Roles and bans are stored in this app's
+ * `userRoles` and `userBans` tables, since the component's user table has no
+ * fields for them.
+ *
+ * - `admin.listUsers` - Paginated user list with email search
+ * - `admin.setRole` - Assign a role (`admin`, `user` or a custom role from roles.ts)
+ * - `admin.banUser` / `admin.unbanUser` - Banned users are signed out and
+ *   can't sign in again (see the session hook in auth.ts)
+ * - `admin.revokeSessions` - Force a user to sign out everywhere
+ *
+ * These require the `users:manage` permission and are recorded in the audit
+ * log. Only admins can grant or remove the admin role, nobody can grant a role
+ * with permissions they don't have or act on a user who has permissions they
+ * don't, and emails in ADMIN_EMAILS are always admins.
+ */
+
+import { query, mutation, internalQuery } from './_generated/server'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import { v } from 'convex/values'
+import { paginationOptsValidator } from 'convex/server'
+import type { PaginationResult } from 'convex/server'
+import { components } from './_generated/api'
+import {
+  requirePermission,
+  canGrantPermissions,
+  canManageUser,
+  getRoleName,
+  getUserById,
+  isAdmin,
+  isBanned as checkIsBanned,
+} from './lib/authHelpers'
+import type { AuthUser } from './lib/authHelpers'
+import { ADMIN_EMAILS, DEFAULT_ROLE_PERMISSIONS, PERMISSIONS, ROLES } from './lib/config'
+import type { Role } from './lib/config'
+import { withAudit, type AuditOptions } from './lib/middleware/withAudit'
+
+/** A user as shown in the admin console */
+export interface AdminUserRow {
+  _id: string
+  name: string
+  email: string
+  image: string | null
+  createdAt: number
+  /** `admin`, `user` or a custom role name */
+  role: string
+  /** Admin through ADMIN_EMAILS (role can't be changed) */
+  isConfigAdmin: boolean
+  banned: boolean
+  banReason: string | null
+  activeSessions: number
+}
+
+// Documents from the component's user table (the adapter functions return `any`)
+type BetterAuthUser = AuthUser & { createdAt: number }
+
+// Get the target of an admin action, refusing to act on yourself or on
+// users with permissions the manager lacks
+async function getTargetUser(ctx: MutationCtx, manager: AuthUser, userId: string) {
+  if (userId === manager._id) {
+    throw new Error('You cannot change your own account here')
+  }
+  const user = await getUserById(ctx, userId)
+  if (!user) {
+    throw new Error('User not found')
+  }
+  if (!(await canManageUser(ctx, manager, user))) {
+    throw new Error('You cannot manage a user with permissions you do not have')
+  }
+  return user
+}
+
+// Number of the user's sessions that haven't expired
+async function countActiveSessions(ctx: QueryCtx, userId: string) {
+  const sessions: PaginationResult<{ expiresAt: number }> = await ctx.runQuery(
+    components.betterAuth.adapter.findMany,
+    {
+      model: 'session',
+      where: [{ field: 'userId', value: userId }],
+      paginationOpts: { numItems: 100, cursor: null },
+    }
+  )
+  const now = Date.now()
+  return sessions.page.filter((session) => session.expiresAt > now).length
+}
+
+// Audit options for the mutations below: the target is the user, and the
+// snapshot is their role, ban and session count (see lib/audit.ts)
+const auditUser: AuditOptions<{ userId: string }> = {
+  permission: PERMISSIONS.USERS_MANAGE,
+  target: (args) => ({ table: 'user', id: args.userId }),
+  snapshot: async (ctx, args) => {
+    const granted = await ctx.db
+      .query('userRoles')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .unique()
+    const ban = await ctx.db
+      .query('userBans')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .unique()
+    return {
+      role: granted?.role ?? ROLES.USER,
+      banned: ban !== null,
+      banReason: ban?.reason ?? null,
+      activeSessions: await countActiveSessions(ctx, args.userId),
+    }
+  },
+}
+
+// Delete all of a user's sessions. Their Convex auth token stops working
+// immediately, since getAuthUser checks that the session still exists.
+async function deleteSessions(ctx: MutationCtx, userId: string) {
+  let deleted = 0
+  let cursor: string | null = null
+  do {
+    const result: { count: number; isDone: boolean; continueCursor: string } =
+      await ctx.runMutation(components.betterAuth.adapter.deleteMany, {
+        input: { model: 'session', where: [{ field: 'userId', value: userId }] },
+        paginationOpts: { numItems: 100, cursor },
+      })
+    deleted += result.count
+    cursor = result.isDone ? null : result.continueCursor
+  } while (cursor !== null)
+  return deleted
+}
+
+// List users, newest first, optionally filtered by email
+export const listUsers = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    search: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<PaginationResult<AdminUserRow>> => {
+    await requirePermission(ctx, PERMISSIONS.USERS_MANAGE)
+
+    const search = args.search?.trim().toLowerCase()
+    const result: PaginationResult<BetterAuthUser> = await ctx.runQuery(
+      components.betterAuth.adapter.findMany,
+      {
+        model: 'user',
+        where: search ? [{ field: 'email', operator: 'contains', value: search }] : undefined,
+        sortBy: { field: 'createdAt', direction: 'desc' },
+        paginationOpts: args.paginationOpts,
+      }
+    )
+
+    const page = await Promise.all(
+      result.page.map(async (authUser): Promise<AdminUserRow> => {
+        const granted = await ctx.db
+          .query('userRoles')
+          .withIndex('by_user', (q) => q.eq('userId', authUser._id))
+          .unique()
+        const ban = await ctx.db
+          .query('userBans')
+          .withIndex('by_user', (q) => q.eq('userId', authUser._id))
+          .unique()
+
+        const user = granted ? { ...authUser, role: granted.role } : authUser
+        return {
+          _id: user._id,
+          name: user.name,
+          email: user.email,
+          image: user.image ?? null,
+          createdAt: user.createdAt,
+          role: getRoleName(user),
+          isConfigAdmin: ADMIN_EMAILS.includes(user.email),
+          banned: ban !== null,
+          banReason: ban?.reason ?? null,
+          activeSessions: await countActiveSessions(ctx, authUser._id),
+        }
+      })
+    )
+
+    return { ...result, page }
+  },
+})
+
+// Assign a role to a user
+export const setRole = mutation({
+  args: {
+    userId: v.string(),
+    role: v.string(),
+  },
+  handler: withAudit(
+    'admin.setRole',
+    async (ctx, args: { userId: string; role: string }, manager) => {
+      const user = await getTargetUser(ctx, manager, args.userId)
+      if (ADMIN_EMAILS.includes(user.email)) {
+        throw new Error('This admin is set in ADMIN_EMAILS (convex/lib/config.ts)')
+      }
+      if ((args.role === ROLES.ADMIN || isAdmin(user)) && !isAdmin(manager)) {
+        throw new Error('Only admins can grant or remove the admin role')
+      }
+      const isBuiltIn = (Object.values(ROLES) as string[]).includes(args.role)
+      const customRole = await ctx.db
+        .query('roles')
+        .withIndex('by_name', (q) => q.eq('name', args.role))
+        .unique()
+      if (!isBuiltIn && !customRole) {
+        throw new Error(`Role "${args.role}" does not exist`)
+      }
+
+      const rolePermissions =
+        args.role === ROLES.ADMIN
+          ? DEFAULT_ROLE_PERMISSIONS[ROLES.ADMIN]
+          : (customRole?.permissions ?? DEFAULT_ROLE_PERMISSIONS[args.role as Role] ?? [])
+      if (!(await canGrantPermissions(ctx, manager, rolePermissions))) {
+        throw new Error('You cannot grant a role with permissions you do not have')
+      }
+
+      const existing = await ctx.db
+        .query('userRoles')
+        .withIndex('by_user', (q) => q.eq('userId', args.userId))
+        .unique()
+
+      // Users without a row have the default role
+      if (args.role === ROLES.USER) {
+        if (existing) {
+          await ctx.db.delete(existing._id)
+        }
+      } else if (existing) {
+        await ctx.db.patch(existing._id, { role: args.role, setBy: manager._id })
+      } else {
+        await ctx.db.insert('userRoles', {
+          userId: args.userId,
+          role: args.role,
+          setBy: manager._id,
+        })
+      }
+    },
+    auditUser
+  ),
+})
+
+// Ban a user and sign them out everywhere
+export const banUser = mutation({
+  args: {
+    userId: v.string(),
+    reason: v.optional(v.string()),
+  },
+  handler: withAudit(
+    'admin.banUser',
+    async (ctx, args: { userId: string; reason?: string }, manager) => {
+      const user = await getTargetUser(ctx, manager, args.userId)
+      if (isAdmin(user)) {
+        throw new Error('Remove the admin role before banning this user')
+      }
+
+      const existing = await ctx.db
+        .query('userBans')
+        .withIndex('by_user', (q) => q.eq('userId', args.userId))
+        .unique()
+      const reason = args.reason?.trim() || undefined
+
+      if (existing) {
+        await ctx.db.patch(existing._id, { reason, bannedBy: manager._id })
+      } else {
+        await ctx.db.insert('userBans', { userId: args.userId, reason, bannedBy: manager._id })
+      }
+
+      await deleteSessions(ctx, args.userId)
+    },
+    auditUser
+  ),
+})
+
+// Lift a ban so the user can sign in again
+export const unbanUser = mutation({
+  args: {
+    userId: v.string(),
+  },
+  handler: withAudit(
+    'admin.unbanUser',
+    async (ctx, args: { userId: string }) => {
+      const existing = await ctx.db
+        .query('userBans')
+        .withIndex('by_user', (q) => q.eq('userId', args.userId))
+        .unique()
+      if (existing) {
+        await ctx.db.delete(existing._id)
+      }
+    },
+    auditUser
+  ),
+})
+
+// Sign a user out of every device. Returns the number of sessions ended.
+export const revokeSessions = mutation({
+  args: {
+    userId: v.string(),
+  },
+  handler: withAudit(
+    'admin.revokeSessions',
+    async (ctx, args: { userId: string }, manager) => {
+      await getTargetUser(ctx, manager, args.userId)
+      return await deleteSessions(ctx, args.userId)
+    },
+    auditUser
+  ),
+})
+
+// Used by the session hook in auth.ts to block sign-in
+export const isBanned = internalQuery({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await checkIsBanned(ctx, args.userId)
+  },
+})
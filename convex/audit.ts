@@ -0,0 +1,74 @@
+/**
+ * Audit Log Viewer
+ * ================
+ *
+ * Read access to the append-only `auditLog` table (see lib/audit.ts) for the
+ * viewer at `/admin/audit`. `list` requires the `audit:read` permission and
+ * takes these filters:
+ *
+ * - `action` - One of AUDIT_ACTIONS (lib/config.ts)
+ * - `actorEmail` - Who did it (case-insensitive, exact match)
+ * - `targetId` - The document that was changed
+ * - `from` / `to` - Time range (ms since epoch, inclusive)
+ *
+ * The CSV export pages through `list` too, so no single query reads more
+ * than one page of the log.
+ */
+
+import { query } from './_generated/server'
+import type { QueryCtx } from './_generated/server'
+import { v } from 'convex/values'
+import type { Infer } from 'convex/values'
+import { paginationOptsValidator } from 'convex/server'
+import type { PaginationResult } from 'convex/server'
+import type { Doc } from './_generated/dataModel'
+import { requirePermission } from './lib/authHelpers'
+import { PERMISSIONS } from './lib/config'
+
+const auditFilters = v.object({
+  action: v.optional(v.string()),
+  actorEmail: v.optional(v.string()),
+  targetId: v.optional(v.string()),
+  from: v.optional(v.number()),
+  to: v.optional(v.number()),
+})
+
+export type AuditFilters = Infer<typeof auditFilters>
+
+// Newest first, using the index for the most selective filter
+function filteredLog(ctx: QueryCtx, filters: AuditFilters) {
+  const actorEmail = filters.actorEmail?.trim().toLowerCase() || undefined
+  const targetId = filters.targetId?.trim() || undefined
+  const { action, from, to } = filters
+
+  const indexed = targetId
+    ? ctx.db.query('auditLog').withIndex('by_target', (q) => q.eq('targetId', targetId))
+    : actorEmail
+      ? ctx.db.query('auditLog').withIndex('by_actor_email', (q) => q.eq('actorEmail', actorEmail))
+      : action
+        ? ctx.db.query('auditLog').withIndex('by_action', (q) => q.eq('action', action))
+        : ctx.db.query('auditLog')
+
+  return indexed
+    .filter((q) =>
+      q.and(
+        action ? q.eq(q.field('action'), action) : true,
+        actorEmail ? q.eq(q.field('actorEmail'), actorEmail) : true,
+        from !== undefined ? q.gte(q.field('_creationTime'), from) : true,
+        to !== undefined ? q.lte(q.field('_creationTime'), to) : true
+      )
+    )
+    .order('desc')
+}
+
+// Audit entries matching the filters, newest first (cursor-paginated)
+export const list = query({
+  args: {
+    filters: auditFilters,
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args): Promise<PaginationResult<Doc<'auditLog'>>> => {
+    await requirePermission(ctx, PERMISSIONS.AUDIT_READ)
+    return await filteredLog(ctx, args.filters).paginate(args.paginationOpts)
+  },
+})
@@ -1,17 +1,35 @@
 import { betterAuth } from 'better-auth/minimal'
+import type { BetterAuthOptions } from 'better-auth/minimal'
 import { createClient } from '@convex-dev/better-auth'
 import { convex } from '@convex-dev/better-auth/plugins'
+import { requireRunMutationCtx } from '@convex-dev/better-auth/utils'
+import { magicLink, twoFactor } from 'better-auth/plugins'
+import { passkey } from '@better-auth/passkey'
+import { APIError } from 'better-auth/api'
 import authConfig from './auth.config'
-import { components } from './_generated/api'
+import { components, internal } from './_generated/api'
 import { query } from './_generated/server'
 import type { GenericCtx } from '@convex-dev/better-auth'
 import type { DataModel } from './_generated/dataModel'
+import { EmailService } from './lib/patterns/ServiceAdapter'
+import { getEnabledProviders, getSocialProviders } from './lib/oauthProviders'
+import type { OAuthProvider } from './lib/oauthProviders'
+import { getPasskeyOptions } from './lib/passkeys'
+import { requireTwoFactor } from './lib/twoFactor'
+import {
+  MAGIC_LINK_EXPIRES_MINUTES,
+  PASSWORD_MIN_LENGTH,
+  PASSWORD_RESET_EXPIRES_MINUTES,
+  TWO_FACTOR_BACKUP_CODES,
+  TWO_FACTOR_ISSUER,
+} from './lib/config'
 
 // =============================================================================
 // Environment Variable Helpers
 // =============================================================================
 
-const REQUIRED_ENV_VARS = ['SITE_URL', 'GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET'] as const
+// OAuth providers are optional, see lib/oauthProviders.ts
+const REQUIRED_ENV_VARS = ['SITE_URL'] as const
 
 /**
  * Check for missing env vars and log a helpful warning.
@@ -19,8 +37,6 @@ const REQUIRED_ENV_VARS = ['SITE_URL', 'GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET
  */
 function getEnvConfig() {
   const siteUrl = process.env.SITE_URL
-  const googleClientId = process.env.GOOGLE_CLIENT_ID
-  const googleClientSecret = process.env.GOOGLE_CLIENT_SECRET
 
   const missing = REQUIRED_ENV_VARS.filter((name) => !process.env[name])
 
@@ -32,8 +48,7 @@ function getEnvConfig() {
 
   return {
     siteUrl: siteUrl || 'https://placeholder.convex.site',
-    googleClientId: googleClientId || 'placeholder-client-id',
-    googleClientSecret: googleClientSecret || 'placeholder-client-secret',
+    socialProviders: getSocialProviders(),
     isConfigured: missing.length === 0,
   }
 }
@@ -44,22 +59,83 @@ const envConfig = getEnvConfig()
 // Component client for Convex + Better Auth integration
 export const authComponent = createClient<DataModel>(components.betterAuth)
 
-// Create Better Auth instance with Convex adapter
-export const createAuth = (ctx: GenericCtx<DataModel>) => {
-  return betterAuth({
+// Better Auth options for createAuth, apart from the database (tests run them
+// against an in-memory one, see lib/passkeys.test.ts)
+export const createAuthOptions = (ctx: GenericCtx<DataModel>) => {
+  // Auth emails are sent from Better Auth's HTTP actions
+  const emails = () => new EmailService(requireRunMutationCtx(ctx))
+
+  return {
     baseURL: envConfig.siteUrl,
-    database: authComponent.adapter(ctx),
-    // Google OAuth
-    socialProviders: {
-      google: {
-        clientId: envConfig.googleClientId,
-        clientSecret: envConfig.googleClientSecret,
+    // Email + password, with a verified email required before signing in
+    emailAndPassword: {
+      enabled: true,
+      requireEmailVerification: true,
+      minPasswordLength: PASSWORD_MIN_LENGTH,
+      resetPasswordTokenExpiresIn: PASSWORD_RESET_EXPIRES_MINUTES * 60,
+      revokeSessionsOnPasswordReset: true,
+      sendResetPassword: async ({ user, token }) => {
+        await emails().sendPasswordReset(user.email, token)
+      },
+    },
+    emailVerification: {
+      sendOnSignUp: true,
+      // Signing in with an unverified email sends a fresh link
+      sendOnSignIn: true,
+      autoSignInAfterVerification: true,
+      sendVerificationEmail: async ({ user, url }) => {
+        await emails().sendVerification(user.email, url)
+      },
+    },
+    // OAuth providers with credentials in env (Google, GitHub, ...)
+    socialProviders: envConfig.socialProviders,
+    // Sign-in with a provider whose verified email matches an existing
+    // account adds it to that account; users can also connect providers
+    // (with the same email) from /settings
+    account: {
+      accountLinking: { enabled: true },
+    },
+    // Apple posts its OAuth callback from its own origin
+    trustedOrigins: envConfig.socialProviders.apple ? ['https://appleid.apple.com'] : [],
+    // Banned users can't start new sessions (see admin.banUser)
+    databaseHooks: {
+      session: {
+        create: {
+          before: async (session) => {
+            if (await ctx.runQuery(internal.admin.isBanned, { userId: session.userId })) {
+              throw new APIError('FORBIDDEN', { message: 'This account has been suspended' })
+            }
+          },
+        },
       },
     },
-    plugins: [convex({ authConfig })],
-  })
+    plugins: [
+      // Runs first so the Convex JWT cookie isn't set for a pending two-factor sign-in
+      requireTwoFactor(),
+      convex({ authConfig }),
+      // Passwordless sign-in with a link sent by email
+      magicLink({
+        expiresIn: MAGIC_LINK_EXPIRES_MINUTES * 60,
+        sendMagicLink: async ({ email, url }) => {
+          await emails().sendMagicLink(email, url)
+        },
+      }),
+      // Authenticator app codes after email + password sign-in, set up from
+      // /settings (requireTwoFactor asks for them after magic links and OAuth too)
+      twoFactor({
+        issuer: TWO_FACTOR_ISSUER,
+        backupCodeOptions: { amount: TWO_FACTOR_BACKUP_CODES },
+      }),
+      // Passwordless sign-in with passkeys, registered and named from /settings
+      passkey(getPasskeyOptions(envConfig.siteUrl)),
+    ],
+  } satisfies BetterAuthOptions
 }
 
+// Create Better Auth instance with Convex adapter
+export const createAuth = (ctx: GenericCtx<DataModel>) =>
+  betterAuth({ ...createAuthOptions(ctx), database: authComponent.adapter(ctx) })
+
 // Query to get the current authenticated user
 export const getCurrentUser = query({
   args: {},
@@ -67,3 +143,11 @@ export const getCurrentUser = query({
     return await authComponent.getAuthUser(ctx)
   },
 })
+
+// OAuth providers that are configured, for sign-in buttons and account linking
+export const providers = query({
+  args: {},
+  handler: async (): Promise<OAuthProvider[]> => {
+    return getEnabledProviders()
+  },
+})
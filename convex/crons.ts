@@ -0,0 +1,39 @@
+/**
+ * Scheduled Jobs
+ * ==============
+ *
+ * Convex cron jobs for background maintenance.
+ * Each cron runs through `internal.jobs.run` so the run is recorded
+ * in the `jobRuns` table (see jobs.ts).
+ * See https://docs.convex.dev/scheduling/cron-jobs
+ */
+
+import { cronJobs } from 'convex/server'
+import { internal } from './_generated/api'
+
+const crons = cronJobs()
+
+// Permanently delete trashed messages and files older than TRASH_RETENTION_DAYS
+crons.daily('purge trashed messages', { hourUTC: 3, minuteUTC: 0 }, internal.jobs.run, {
+  job: 'purgeTrashedMessages',
+})
+crons.daily('purge trashed files', { hourUTC: 3, minuteUTC: 15 }, internal.jobs.run, {
+  job: 'purgeTrashedFiles',
+})
+
+// Delete storage blobs that were uploaded but never saved as files
+crons.daily('purge orphaned blobs', { hourUTC: 3, minuteUTC: 30 }, internal.jobs.run, {
+  job: 'purgeOrphanedBlobs',
+})
+
+// Clear rate limit buckets that have fully refilled
+crons.daily('compact rate limits', { hourUTC: 3, minuteUTC: 45 }, internal.jobs.run, {
+  job: 'compactRateLimits',
+})
+
+// Email admins a summary of the last day's activity
+crons.daily('daily digest', { hourUTC: 8, minuteUTC: 0 }, internal.jobs.run, {
+  job: 'sendDailyDigest',
+})
+
+export default crons
@@ -1,39 +1,525 @@
-import { query, mutation } from './_generated/server'
+import {
+  query,
+  mutation,
+  action,
+  internalQuery,
+  internalMutation,
+  internalAction,
+} from './_generated/server'
+import type { MutationCtx, QueryCtx } from './_generated/server'
 import { v } from 'convex/values'
-import { requireAuth, getAuthUserSafe } from './lib/authHelpers'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import { requireAuth, getAuthUserSafe, hasPermission } from './lib/authHelpers'
+import type { AuthUser } from './lib/authHelpers'
+import {
+  ALLOWED_FILE_TYPES,
+  MAX_FILE_SIZE_BYTES,
+  PENDING_UPLOAD_TIMEOUT_MINUTES,
+  PERMISSIONS,
+  RESIZABLE_IMAGE_TYPES,
+  TRASH_RETENTION_DAYS,
+  TRASH_PURGE_BATCH_SIZE,
+} from './lib/config'
+import {
+  getFileStorage,
+  getOwnFolder,
+  getQuotaOverride,
+  getStorageUsage,
+  isStorageReferenced,
+  validateName,
+} from './lib/storageHelpers'
+import {
+  getR2Config,
+  getStorageAdapter,
+  getStorageBackend,
+  R2StorageAdapter,
+} from './lib/services/storageService'
+import type { StorageBackend, StoredObjectMetadata } from './lib/services/storageService'
+import { withFileUploadLimit } from './lib/middleware/withRateLimit'
+import { withAudit } from './lib/middleware/withAudit'
+import { recordAudit } from './lib/audit'
+import { rateLimiter } from './lib/services/rateLimitService'
+import { calculateRateLimit } from '@convex-dev/rate-limiter'
+
+const MAX_TAGS_PER_FILE = 20
+const MAX_TAG_LENGTH = 32
+
+// Lowercase, trim and de-duplicate tags. Throws if there are too many or one is too long.
+function normalizeTags(tags: string[]): string[] {
+  const normalized = [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))]
+  if (normalized.length > MAX_TAGS_PER_FILE) {
+    throw new Error(`A file can have at most ${MAX_TAGS_PER_FILE} tags`)
+  }
+  if (normalized.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    throw new Error(`Tags must be at most ${MAX_TAG_LENGTH} characters`)
+  }
+  return normalized
+}
+
+// Add download URLs and image variants (see images.ts) to file documents
+async function withUrls(ctx: QueryCtx, files: Doc<'files'>[]) {
+  return await Promise.all(
+    files.map(async (file) => {
+      const variants = await ctx.db
+        .query('fileVariants')
+        .withIndex('by_file', (q) => q.eq('fileId', file._id))
+        .collect()
+
+      const { storage, key } = getFileStorage(ctx, file)
+      return {
+        ...file,
+        url: await storage.getUrl(key),
+        variants: await Promise.all(
+          variants.map(async (variant) => ({
+            name: variant.name,
+            width: variant.width,
+            height: variant.height,
+            url: await ctx.storage.getUrl(variant.storageId),
+          }))
+        ),
+      }
+    })
+  )
+}
+
+// Get a live file owned by the user or throw
+async function getOwnFile(ctx: QueryCtx, userId: string, id: Id<'files'>) {
+  const file = await ctx.db.get(id)
+  if (!file || file.deletedAt !== undefined) {
+    throw new Error('File not found')
+  }
+  if (file.uploadedBy !== userId) {
+    throw new Error('Not authorized to modify this file')
+  }
+  return file
+}
+
+// Delete a file's image variants and their blobs
+async function deleteVariants(ctx: MutationCtx, fileId: Id<'files'>) {
+  const variants = await ctx.db
+    .query('fileVariants')
+    .withIndex('by_file', (q) => q.eq('fileId', fileId))
+    .collect()
+  for (const variant of variants) {
+    await ctx.storage.delete(variant.storageId)
+    await ctx.db.delete(variant._id)
+  }
+}
+
+/**
+ * Record a pending upload and get an upload URL for it. The upload must be
+ * confirmed (`confirmPendingUpload`, or `saveObject` for R2) before it
+ * expires; unconfirmed uploads are deleted by expirePendingUpload. Also used
+ * for chunk uploads (uploads.ts), which always use Convex storage.
+ *
+ * `method` is how the client sends the file: POST for Convex storage (the
+ * response has the storage ID), PUT for R2.
+ */
+export async function createPendingUpload(
+  ctx: MutationCtx,
+  userId: string,
+  options: { backend?: StorageBackend; object?: Partial<StoredObjectMetadata> } = {}
+) {
+  const { uploadUrl, method, key } = await getStorageAdapter(ctx, options.backend).createUpload(
+    options.object
+  )
+
+  const expiresAt = Date.now() + PENDING_UPLOAD_TIMEOUT_MINUTES * 60 * 1000
+  const uploadId = await ctx.db.insert('pendingUploads', { userId, expiresAt, objectKey: key })
+  await ctx.scheduler.runAt(expiresAt, internal.files.expirePendingUpload, { uploadId })
+
+  return { uploadUrl, uploadId, method }
+}
+
+/**
+ * Confirm a pending upload: check it belongs to the user and that the blob
+ * was uploaded through it. Returns the blob's `_storage` system document.
+ */
+export async function confirmPendingUpload(
+  ctx: MutationCtx,
+  userId: string,
+  uploadId: Id<'pendingUploads'>,
+  storageId: Id<'_storage'>
+) {
+  const upload = await ctx.db.get(uploadId)
+  if (
+    !upload ||
+    upload.userId !== userId ||
+    upload.objectKey !== undefined ||
+    upload.expiresAt < Date.now()
+  ) {
+    throw new Error('Upload not found or expired')
+  }
+
+  // The blob must have been uploaded after this upload URL was issued
+  // and not already be in use
+  const blob = await ctx.db.system.get(storageId)
+  if (
+    !blob ||
+    blob._creationTime < upload._creationTime ||
+    (await isStorageReferenced(ctx, storageId))
+  ) {
+    throw new Error('Upload does not match this request')
+  }
+
+  await ctx.db.delete(uploadId)
+  return blob
+}
+
+/** Contents of a new file: a Convex blob, or an R2 object with metadata read from the bucket */
+export type StoredContents =
+  | { storageId: Id<'_storage'> }
+  | { objectKey: string; metadata: StoredObjectMetadata }
+
+/**
+ * Validate stored contents and create the file record (shared by saveFile,
+ * saveObject and chunked uploads). Limits are checked against the stored
+ * object, not the client's claims.
+ */
+export async function insertFile(
+  ctx: MutationCtx,
+  user: AuthUser,
+  args: {
+    contents: StoredContents
+    name: string
+    folderId?: Id<'folders'>
+  }
+): Promise<Id<'files'>> {
+  const { contents } = args
+  const blob =
+    'storageId' in contents
+      ? await ctx.db.system.get(contents.storageId)
+      : { ...contents.metadata, sha256: undefined }
+  if (!blob) {
+    throw new Error('Upload not found')
+  }
+  if (blob.size > MAX_FILE_SIZE_BYTES) {
+    throw new Error(`File too large. Maximum size is ${MAX_FILE_SIZE_BYTES / (1024 * 1024)}MB`)
+  }
+  if (!blob.contentType || !ALLOWED_FILE_TYPES.includes(blob.contentType)) {
+    throw new Error('File type not allowed')
+  }
+
+  const { remaining } = await getStorageUsage(ctx, user)
+  if (blob.size > remaining) {
+    throw new Error('Storage quota exceeded')
+  }
+
+  const name = validateName(args.name)
+  if (args.folderId) {
+    await getOwnFolder(ctx, user, args.folderId)
+  }
+
+  const fileId = await ctx.db.insert('files', {
+    ...('storageId' in contents
+      ? { storageId: contents.storageId }
+      : { objectKey: contents.objectKey }),
+    name,
+    type: blob.contentType,
+    size: blob.size,
+    sha256: blob.sha256,
+    uploadedBy: user._id,
+    folderId: args.folderId,
+  })
+
+  // Variants are generated for files in Convex storage only
+  if ('storageId' in contents && RESIZABLE_IMAGE_TYPES.includes(blob.contentType)) {
+    await ctx.scheduler.runAfter(0, internal.images.generateVariants, { fileId })
+  }
+
+  return fileId
+}
 
 // Generate an upload URL for file uploads
+// Returns an uploadId that must be passed to saveFile (see createPendingUpload)
 export const generateUploadUrl = mutation({
+  args: {
+    // Size of the file about to be uploaded, to reject it before the upload
+    size: v.optional(v.number()),
+    // Content type of the file (size and type are required with R2 storage)
+    type: v.optional(v.string()),
+  },
+  // Rate limited per file; see uploadLimits
+  handler: withFileUploadLimit(async (ctx, args: { size?: number; type?: string }, user) => {
+    const { remaining } = await getStorageUsage(ctx, user)
+    if (remaining <= 0 || (args.size !== undefined && args.size > remaining)) {
+      throw new Error('Storage quota exceeded')
+    }
+
+    return await createPendingUpload(ctx, user._id, {
+      object: { size: args.size, contentType: args.type },
+    })
+  }),
+})
+
+// How many uploads the user can start right now, for checking a batch before
+// uploading it. `uploads` is the number of `uploadFile` rate-limit tokens
+// available; another one is added every `msPerUpload`.
+export const uploadLimits = query({
   args: {},
   handler: async (ctx) => {
-    // Require authentication for uploads
-    await requireAuth(ctx)
-    return await ctx.storage.generateUploadUrl()
+    const user = await getAuthUserSafe(ctx)
+    if (!user) {
+      return null
+    }
+
+    const { value, ts, config } = await rateLimiter.getValue(ctx, 'uploadFile', {
+      key: user._id,
+    })
+    const current = calculateRateLimit({ value, ts }, config, Date.now(), 0)
+    const { remaining } = await getStorageUsage(ctx, user)
+
+    return {
+      uploads: Math.max(0, Math.floor(current.value)),
+      msPerUpload: config.period / config.rate,
+      storageRemaining: remaining,
+    }
   },
 })
 
-// Save file metadata after upload
+// Save file metadata after upload (confirms the pending upload)
 export const saveFile = mutation({
   args: {
+    uploadId: v.id('pendingUploads'),
     storageId: v.id('_storage'),
     name: v.string(),
     type: v.string(),
     size: v.number(),
+    folderId: v.optional(v.id('folders')),
   },
   handler: async (ctx, args) => {
     const user = await requireAuth(ctx)
+    const blob = await confirmPendingUpload(ctx, user._id, args.uploadId, args.storageId)
+
+    // A rejected blob stays unconfirmed and is deleted when the upload expires
+    if (blob.size !== args.size || blob.contentType !== args.type) {
+      throw new Error('File metadata does not match the uploaded file')
+    }
 
-    return await ctx.db.insert('files', {
-      storageId: args.storageId,
+    return await insertFile(ctx, user, {
+      contents: { storageId: args.storageId },
       name: args.name,
-      type: args.type,
-      size: args.size,
-      uploadedBy: user._id,
+      folderId: args.folderId,
     })
   },
 })
 
-// List user's files
+// Pending R2 upload of the current user, for saveObject
+export const getPendingObject = internalQuery({
+  args: {
+    uploadId: v.id('pendingUploads'),
+  },
+  handler: async (ctx, args): Promise<string> => {
+    const user = await requireAuth(ctx)
+    const upload = await ctx.db.get(args.uploadId)
+    if (!upload?.objectKey || upload.userId !== user._id || upload.expiresAt < Date.now()) {
+      throw new Error('Upload not found or expired')
+    }
+    return upload.objectKey
+  },
+})
+
+// Save file metadata after an upload to R2 (the R2 counterpart of saveFile).
+// An action, because reading the object's size and type needs a request to the bucket.
+export const saveObject = action({
+  args: {
+    uploadId: v.id('pendingUploads'),
+    name: v.string(),
+    type: v.string(),
+    size: v.number(),
+    folderId: v.optional(v.id('folders')),
+  },
+  handler: async (ctx, args): Promise<Id<'files'>> => {
+    const objectKey = await ctx.runQuery(internal.files.getPendingObject, {
+      uploadId: args.uploadId,
+    })
+
+    const metadata = await new R2StorageAdapter(getR2Config()).getMetadata(objectKey)
+    if (!metadata) {
+      throw new Error('Upload not found')
+    }
+
+    return await ctx.runMutation(internal.files.insertObject, { ...args, metadata })
+  },
+})
+
+// Confirm a pending R2 upload and create its file record
+export const insertObject = internalMutation({
+  args: {
+    uploadId: v.id('pendingUploads'),
+    name: v.string(),
+    type: v.string(),
+    size: v.number(),
+    folderId: v.optional(v.id('folders')),
+    metadata: v.object({ size: v.number(), contentType: v.union(v.string(), v.null()) }),
+  },
+  handler: async (ctx, args): Promise<Id<'files'>> => {
+    const user = await requireAuth(ctx)
+    const upload = await ctx.db.get(args.uploadId)
+    if (!upload?.objectKey || upload.userId !== user._id || upload.expiresAt < Date.now()) {
+      throw new Error('Upload not found or expired')
+    }
+
+    // A rejected object stays unconfirmed and is deleted when the upload expires
+    if (args.metadata.size !== args.size || args.metadata.contentType !== args.type) {
+      throw new Error('File metadata does not match the uploaded file')
+    }
+
+    await ctx.db.delete(args.uploadId)
+    return await insertFile(ctx, user, {
+      contents: { objectKey: upload.objectKey, metadata: args.metadata },
+      name: args.name,
+      folderId: args.folderId,
+    })
+  },
+})
+
+// Delete an object from R2 (scheduled by mutations, which can't make requests)
+export const deleteObject = internalAction({
+  args: {
+    objectKey: v.string(),
+  },
+  handler: async (_ctx, args) => {
+    await new R2StorageAdapter(getR2Config()).delete(args.objectKey)
+  },
+})
+
+// Storage backend for new uploads. Clients upload large files in one request
+// for R2 (presigned PUTs have no practical size limit) and in chunks otherwise.
+export const storageBackend = query({
+  args: {},
+  handler: async () => {
+    return getStorageBackend()
+  },
+})
+
+// Live file for images.generateVariants
+export const getForProcessing = internalQuery({
+  args: {
+    id: v.id('files'),
+  },
+  handler: async (ctx, args) => {
+    const file = await ctx.db.get(args.id)
+    if (!file || file.deletedAt !== undefined) {
+      return null
+    }
+    return file
+  },
+})
+
+// Longer than an action can run, so a reservation outlives its writer
+const BLOB_RESERVATION_MINUTES = 15
+
+// Call before storing blobs from an action. Pass the returned ID to the
+// mutation that links the blobs (or to releaseBlobWrites if it fails).
+export const reserveBlobWrites = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<Id<'blobReservations'>> => {
+    const expiresAt = Date.now() + BLOB_RESERVATION_MINUTES * 60 * 1000
+    const reservationId = await ctx.db.insert('blobReservations', { expiresAt })
+    await ctx.scheduler.runAt(expiresAt, internal.files.releaseBlobWrites, { reservationId })
+    return reservationId
+  },
+})
+
+export const releaseBlobWrites = internalMutation({
+  args: {
+    reservationId: v.id('blobReservations'),
+  },
+  handler: async (ctx, args) => {
+    if (await ctx.db.get(args.reservationId)) {
+      await ctx.db.delete(args.reservationId)
+    }
+  },
+})
+
+// Link generated image variants to a file, replacing any earlier ones
+// If the file is gone by now, the new blobs are deleted instead
+export const attachVariants = internalMutation({
+  args: {
+    reservationId: v.id('blobReservations'),
+    fileId: v.id('files'),
+    variants: v.array(
+      v.object({
+        name: v.string(),
+        storageId: v.id('_storage'),
+        width: v.number(),
+        height: v.number(),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.delete(args.reservationId)
+
+    const file = await ctx.db.get(args.fileId)
+    if (!file) {
+      for (const variant of args.variants) {
+        await ctx.storage.delete(variant.storageId)
+      }
+      return
+    }
+
+    await deleteVariants(ctx, args.fileId)
+    for (const variant of args.variants) {
+      await ctx.db.insert('fileVariants', { fileId: args.fileId, ...variant })
+    }
+  },
+})
+
+// Delete a pending upload that was never confirmed, along with its blob.
+// Storage IDs are only known to the client until saveFile is called, so this
+// deletes unreferenced blobs created while the upload was open. Blobs created
+// after the oldest still-open upload or blob reservation started are left
+// alone, as they may belong to it (server-side writers reserve before storing,
+// see reserveBlobWrites); purgeOrphanedBlobs (see maintenance.ts) catches
+// anything missed.
+export const expirePendingUpload = internalMutation({
+  args: {
+    uploadId: v.id('pendingUploads'),
+  },
+  handler: async (ctx, args): Promise<{ deleted: number }> => {
+    const upload = await ctx.db.get(args.uploadId)
+    if (!upload) {
+      // Already confirmed
+      return { deleted: 0 }
+    }
+    await ctx.db.delete(args.uploadId)
+
+    // R2 uploads know their object key (deleting a missing object is a no-op)
+    if (upload.objectKey) {
+      await ctx.scheduler.runAfter(0, internal.files.deleteObject, { objectKey: upload.objectKey })
+      return { deleted: 1 }
+    }
+
+    const oldestOpen = await ctx.db.query('pendingUploads').order('asc').first()
+    const oldestReservation = await ctx.db.query('blobReservations').order('asc').first()
+    const windowEnd = Math.min(
+      upload.expiresAt,
+      oldestOpen?._creationTime ?? Infinity,
+      oldestReservation?._creationTime ?? Infinity
+    )
+
+    const blobs = await ctx.db.system
+      .query('_storage')
+      .withIndex('by_creation_time', (q) =>
+        q.gte('_creationTime', upload._creationTime).lt('_creationTime', windowEnd)
+      )
+      .take(100)
+
+    let deleted = 0
+    for (const blob of blobs) {
+      if (!(await isStorageReferenced(ctx, blob._id))) {
+        await ctx.storage.delete(blob._id)
+        deleted++
+      }
+    }
+
+    return { deleted }
+  },
+})
+
+// List user's files (excluding the trash)
 export const listMyFiles = query({
   args: {},
   handler: async (ctx) => {
@@ -44,20 +530,192 @@ export const listMyFiles = query({
 
     const files = await ctx.db
       .query('files')
-      .withIndex('by_uploader', (q) => q.eq('uploadedBy', user._id))
+      .withIndex('by_uploader_deleted', (q) =>
+        q.eq('uploadedBy', user._id).eq('deletedAt', undefined)
+      )
       .collect()
 
     // Add download URLs
-    return await Promise.all(
-      files.map(async (file) => ({
-        ...file,
-        url: await ctx.storage.getUrl(file.storageId),
-      }))
+    return await withUrls(ctx, files)
+  },
+})
+
+// Subfolders and files in a folder (omit folderId for the root)
+export const listFolder = query({
+  args: {
+    folderId: v.optional(v.id('folders')),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserSafe(ctx)
+    if (!user) {
+      return { folders: [], files: [] }
+    }
+    if (args.folderId) {
+      await getOwnFolder(ctx, user, args.folderId)
+    }
+
+    const folders = await ctx.db
+      .query('folders')
+      .withIndex('by_owner_parent', (q) => q.eq('ownerId', user._id).eq('parentId', args.folderId))
+      .collect()
+    const files = await ctx.db
+      .query('files')
+      .withIndex('by_uploader_deleted_folder', (q) =>
+        q.eq('uploadedBy', user._id).eq('deletedAt', undefined).eq('folderId', args.folderId)
+      )
+      .collect()
+
+    return {
+      folders: folders.sort((a, b) => a.name.localeCompare(b.name)),
+      files: await withUrls(ctx, files),
+    }
+  },
+})
+
+// User's files with a tag, across all folders
+// Tags live in an array, which Convex can't index, so this filters the
+// user's files in memory
+export const listByTag = query({
+  args: {
+    tag: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserSafe(ctx)
+    if (!user) {
+      return []
+    }
+
+    const tag = args.tag.trim().toLowerCase()
+    const files = await ctx.db
+      .query('files')
+      .withIndex('by_uploader_deleted', (q) =>
+        q.eq('uploadedBy', user._id).eq('deletedAt', undefined)
+      )
+      .collect()
+
+    return await withUrls(
+      ctx,
+      files.filter((file) => file.tags?.includes(tag))
     )
   },
 })
 
-// Delete a file
+// All tags used on the user's files, sorted
+export const listTags = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getAuthUserSafe(ctx)
+    if (!user) {
+      return []
+    }
+
+    const files = await ctx.db
+      .query('files')
+      .withIndex('by_uploader_deleted', (q) =>
+        q.eq('uploadedBy', user._id).eq('deletedAt', undefined)
+      )
+      .collect()
+
+    return [...new Set(files.flatMap((file) => file.tags ?? []))].sort()
+  },
+})
+
+export const rename = mutation({
+  args: {
+    id: v.id('files'),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    await getOwnFile(ctx, user._id, args.id)
+
+    await ctx.db.patch(args.id, { name: validateName(args.name) })
+  },
+})
+
+// Move a file into a folder (omit folderId for the root)
+export const move = mutation({
+  args: {
+    id: v.id('files'),
+    folderId: v.optional(v.id('folders')),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    await getOwnFile(ctx, user._id, args.id)
+    if (args.folderId) {
+      await getOwnFolder(ctx, user, args.folderId)
+    }
+
+    await ctx.db.patch(args.id, { folderId: args.folderId })
+  },
+})
+
+// Replace a file's tags
+export const setTags = mutation({
+  args: {
+    id: v.id('files'),
+    tags: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    await getOwnFile(ctx, user._id, args.id)
+
+    await ctx.db.patch(args.id, { tags: normalizeTags(args.tags) })
+  },
+})
+
+// Storage used by the current user and their remaining quota
+export const myUsage = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getAuthUserSafe(ctx)
+    if (!user) {
+      return null
+    }
+    return await getStorageUsage(ctx, user)
+  },
+})
+
+// Override the storage quota for a user (storage:quotas:manage, audited)
+// Pass null to go back to the default quota for their role
+export const setStorageQuota = mutation({
+  args: {
+    userId: v.string(),
+    quotaBytes: v.union(v.number(), v.null()),
+  },
+  handler: withAudit(
+    'files.setStorageQuota',
+    async (ctx, args: { userId: string; quotaBytes: number | null }, admin) => {
+      if (args.quotaBytes !== null && (!Number.isInteger(args.quotaBytes) || args.quotaBytes < 0)) {
+        throw new Error('Quota must be a non-negative whole number of bytes')
+      }
+
+      const existing = await getQuotaOverride(ctx, args.userId)
+
+      if (args.quotaBytes === null) {
+        if (existing) {
+          await ctx.db.delete(existing._id)
+        }
+      } else if (existing) {
+        await ctx.db.patch(existing._id, { quotaBytes: args.quotaBytes, setBy: admin._id })
+      } else {
+        await ctx.db.insert('storageQuotas', {
+          userId: args.userId,
+          quotaBytes: args.quotaBytes,
+          setBy: admin._id,
+        })
+      }
+    },
+    {
+      permission: PERMISSIONS.STORAGE_QUOTAS_MANAGE,
+      target: (args) => ({ table: 'user', id: args.userId }),
+      snapshot: (ctx, args) => getQuotaOverride(ctx, args.userId),
+    }
+  ),
+})
+
+// Move a file to the trash
+// The storage blob is kept until the file is purged (see purgeDeleted)
 export const deleteFile = mutation({
   args: {
     id: v.id('files'),
@@ -66,7 +724,7 @@ export const deleteFile = mutation({
     const user = await requireAuth(ctx)
 
     const file = await ctx.db.get(args.id)
-    if (!file) {
+    if (!file || file.deletedAt !== undefined) {
       throw new Error('File not found')
     }
 
@@ -74,8 +732,108 @@ export const deleteFile = mutation({
       throw new Error('Not authorized to delete this file')
     }
 
-    // Delete from storage and database
-    await ctx.storage.delete(file.storageId)
-    await ctx.db.delete(args.id)
+    await ctx.db.patch(args.id, { deletedAt: Date.now(), deletedBy: user._id })
+  },
+})
+
+// List trashed files, most recently deleted first
+// Users with files:read:any see all trashed files, others see their own
+export const listTrash = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireAuth(ctx)
+
+    if (await hasPermission(ctx, user, PERMISSIONS.FILES_READ_ANY)) {
+      return await ctx.db
+        .query('files')
+        .withIndex('by_deleted', (q) => q.gt('deletedAt', 0))
+        .order('desc')
+        .take(100)
+    }
+
+    const trashed = await ctx.db
+      .query('files')
+      .withIndex('by_uploader_deleted', (q) => q.eq('uploadedBy', user._id).gt('deletedAt', 0))
+      .collect()
+
+    return trashed.sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0))
+  },
+})
+
+// Restore a trashed file (owner or files:restore:any)
+export const restore = mutation({
+  args: {
+    id: v.id('files'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+
+    const file = await ctx.db.get(args.id)
+    if (!file || file.deletedAt === undefined) {
+      throw new Error('File not found in trash')
+    }
+
+    const isOwner = file.uploadedBy === user._id
+    if (!isOwner && !(await hasPermission(ctx, user, PERMISSIONS.FILES_RESTORE_ANY))) {
+      throw new Error('Not authorized to restore this file')
+    }
+
+    // The folder may have been deleted while the file was in the trash
+    const folderExists = file.folderId ? (await ctx.db.get(file.folderId)) !== null : true
+
+    await ctx.db.patch(args.id, {
+      deletedAt: undefined,
+      deletedBy: undefined,
+      ...(folderExists ? {} : { folderId: undefined }),
+    })
+
+    if (!isOwner) {
+      await recordAudit(ctx, {
+        actor: user,
+        action: 'files.restore',
+        target: { table: 'files', id: file._id },
+        before: file,
+        after: await ctx.db.get(args.id),
+      })
+    }
+  },
+})
+
+// Permanently delete files (with their storage objects, variants and share links) that
+// have been in the trash longer than TRASH_RETENTION_DAYS. Runs from a daily
+// cron (see crons.ts) and reschedules itself until the backlog is cleared.
+export const purgeDeleted = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ purged: number }> => {
+    const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+    const expired = await ctx.db
+      .query('files')
+      .withIndex('by_deleted', (q) => q.gt('deletedAt', 0).lt('deletedAt', cutoff))
+      .take(TRASH_PURGE_BATCH_SIZE)
+
+    for (const file of expired) {
+      const shares = await ctx.db
+        .query('shares')
+        .withIndex('by_file', (q) => q.eq('fileId', file._id))
+        .collect()
+      for (const share of shares) {
+        await ctx.db.delete(share._id)
+      }
+      await deleteVariants(ctx, file._id)
+
+      if (file.objectKey) {
+        await ctx.scheduler.runAfter(0, internal.files.deleteObject, { objectKey: file.objectKey })
+      } else if (file.storageId) {
+        await ctx.storage.delete(file.storageId)
+      }
+      await ctx.db.delete(file._id)
+    }
+
+    if (expired.length === TRASH_PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.files.purgeDeleted, {})
+    }
+
+    return { purged: expired.length }
   },
 })
@@ -0,0 +1,154 @@
+/**
+ * Folders
+ * =======
+ *
+ * Nested folders for organizing files. Each folder points at its parent
+ * (undefined = root) and belongs to a single user. Files reference their
+ * folder via `files.folderId`; see files.ts for moving files between folders.
+ */
+
+import { query, mutation } from './_generated/server'
+import type { QueryCtx } from './_generated/server'
+import { v } from 'convex/values'
+import type { Doc } from './_generated/dataModel'
+import { requireAuth, getAuthUserSafe } from './lib/authHelpers'
+import { getOwnFolder, validateName } from './lib/storageHelpers'
+
+// Ancestors of a folder, root first, ending with the folder itself
+async function getFolderPath(ctx: QueryCtx, folder: Doc<'folders'>) {
+  const path = [folder]
+  let current = folder
+  while (current.parentId) {
+    const parent = await ctx.db.get(current.parentId)
+    if (!parent) break
+    path.unshift(parent)
+    current = parent
+  }
+  return path
+}
+
+// All of the current user's folders (for move targets)
+export const listAll = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getAuthUserSafe(ctx)
+    if (!user) {
+      return []
+    }
+
+    const folders = await ctx.db
+      .query('folders')
+      .withIndex('by_owner_parent', (q) => q.eq('ownerId', user._id))
+      .collect()
+
+    // Include the full path so folders with the same name can be told apart
+    const byId = new Map(folders.map((folder) => [folder._id, folder]))
+    const pathOf = (folder: Doc<'folders'>): string => {
+      const parent = folder.parentId ? byId.get(folder.parentId) : undefined
+      return parent ? `${pathOf(parent)} / ${folder.name}` : folder.name
+    }
+
+    return folders
+      .map((folder) => ({ _id: folder._id, name: folder.name, path: pathOf(folder) }))
+      .sort((a, b) => a.path.localeCompare(b.path))
+  },
+})
+
+// Breadcrumbs for a folder, root first
+export const path = query({
+  args: {
+    folderId: v.id('folders'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    const folder = await getOwnFolder(ctx, user, args.folderId)
+
+    const folders = await getFolderPath(ctx, folder)
+    return folders.map((f) => ({ _id: f._id, name: f.name }))
+  },
+})
+
+export const create = mutation({
+  args: {
+    name: v.string(),
+    parentId: v.optional(v.id('folders')),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    const name = validateName(args.name)
+
+    if (args.parentId) {
+      await getOwnFolder(ctx, user, args.parentId)
+    }
+
+    return await ctx.db.insert('folders', {
+      name,
+      ownerId: user._id,
+      parentId: args.parentId,
+    })
+  },
+})
+
+export const rename = mutation({
+  args: {
+    id: v.id('folders'),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    await getOwnFolder(ctx, user, args.id)
+
+    await ctx.db.patch(args.id, { name: validateName(args.name) })
+  },
+})
+
+// Move a folder under another folder (or to the root)
+export const move = mutation({
+  args: {
+    id: v.id('folders'),
+    parentId: v.optional(v.id('folders')),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    await getOwnFolder(ctx, user, args.id)
+
+    if (args.parentId) {
+      const parent = await getOwnFolder(ctx, user, args.parentId)
+      // A folder can't be moved into itself or one of its descendants
+      const ancestors = await getFolderPath(ctx, parent)
+      if (ancestors.some((folder) => folder._id === args.id)) {
+        throw new Error('Cannot move a folder into itself')
+      }
+    }
+
+    await ctx.db.patch(args.id, { parentId: args.parentId })
+  },
+})
+
+// Delete an empty folder
+// Trashed files that were in it go back to the root when restored
+export const remove = mutation({
+  args: {
+    id: v.id('folders'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    await getOwnFolder(ctx, user, args.id)
+
+    const subfolder = await ctx.db
+      .query('folders')
+      .withIndex('by_owner_parent', (q) => q.eq('ownerId', user._id).eq('parentId', args.id))
+      .first()
+    const file = await ctx.db
+      .query('files')
+      .withIndex('by_uploader_deleted_folder', (q) =>
+        q.eq('uploadedBy', user._id).eq('deletedAt', undefined).eq('folderId', args.id)
+      )
+      .first()
+    if (subfolder || file) {
+      throw new Error('Folder is not empty')
+    }
+
+    await ctx.db.delete(args.id)
+  },
+})
@@ -1,6 +1,12 @@
 import { httpRouter } from 'convex/server'
+import { isRateLimitError } from '@convex-dev/rate-limiter'
 import { httpAction } from './_generated/server'
+import type { ActionCtx } from './_generated/server'
+import { internal } from './_generated/api'
+import { redeemShare } from './shares'
+import type { RedeemResult } from './shares'
 import { authComponent, createAuth } from './auth'
+import { getR2Config, R2StorageAdapter } from './lib/services/storageService'
 
 const http = httpRouter()
 
@@ -23,6 +29,149 @@ http.route({
   }),
 })
 
+// Share links: /share/<token>
+// GET shows a download page (link previews and crawlers don't count as downloads).
+// POST, from its Download button, checks the password and delivers the file.
+const SHARE_ERRORS = {
+  not_found: { status: 404, message: 'This link does not exist or has been revoked.' },
+  expired: { status: 410, message: 'This link has expired.' },
+  limit_reached: { status: 410, message: 'This link has reached its download limit.' },
+} as const
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+// File names are user input
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char] ?? char)
+}
+
+function sharePage(status: number, body: string) {
+  return new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><meta name="robots" content="noindex">` +
+      `<title>Shared file</title></head>` +
+      `<body style="font-family:system-ui;max-width:24rem;margin:4rem auto">${body}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } }
+  )
+}
+
+function downloadForm(hasPassword: boolean) {
+  return (
+    `<form method="post">` +
+    (hasPassword ? `<input type="password" name="password" autofocus required> ` : '') +
+    `<button type="submit">Download</button></form>`
+  )
+}
+
+function shareToken(request: Request) {
+  return new URL(request.url).pathname.slice('/share/'.length)
+}
+
+// The visitor's IP address, for per-visitor rate limits. Proxies append to
+// X-Forwarded-For, so the last address is the one the platform saw.
+function clientAddress(request: Request) {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').at(-1)?.trim()
+  return forwarded || request.headers.get('x-real-ip') || 'unknown'
+}
+
+async function showShare(ctx: ActionCtx, request: Request) {
+  const result = await ctx.runQuery(internal.shares.inspect, { token: shareToken(request) })
+  if (!result.ok) {
+    const error = SHARE_ERRORS[result.reason]
+    return sharePage(error.status, `<p>${error.message}</p>`)
+  }
+
+  return sharePage(
+    200,
+    `<p><strong>${escapeHtml(result.name)}</strong> (${Math.ceil(result.size / 1024)} KB)</p>` +
+      (result.hasPassword ? '<p>This file is password protected.</p>' : '') +
+      downloadForm(result.hasPassword)
+  )
+}
+
+async function deliverShare(ctx: ActionCtx, request: Request, password?: string) {
+  let result: RedeemResult
+  try {
+    result = await redeemShare(ctx, {
+      token: shareToken(request),
+      password,
+      client: clientAddress(request),
+    })
+  } catch (error) {
+    if (isRateLimitError(error)) {
+      const minutes = Math.ceil(error.data.retryAfter / 60_000)
+      return sharePage(
+        429,
+        `<p>Too many wrong passwords. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.</p>`
+      )
+    }
+    throw error
+  }
+
+  if (!result.ok) {
+    if (result.reason === 'password_required') {
+      return sharePage(
+        401,
+        `<p>${password ? 'Wrong password. ' : ''}This file is password protected.</p>` +
+          downloadForm(true)
+      )
+    }
+    const error = SHARE_ERRORS[result.reason]
+    return sharePage(error.status, `<p>${error.message}</p>`)
+  }
+
+  // R2 files are downloaded straight from the bucket
+  if (result.objectKey) {
+    const url = await new R2StorageAdapter(getR2Config()).getUrl(result.objectKey, {
+      downloadName: result.name,
+    })
+    return new Response(null, {
+      status: 302,
+      headers: { Location: url, 'Cache-Control': 'no-store' },
+    })
+  }
+
+  const blob = result.storageId ? await ctx.storage.get(result.storageId) : null
+  if (!blob) {
+    return sharePage(404, `<p>${SHARE_ERRORS.not_found.message}</p>`)
+  }
+
+  return new Response(blob, {
+    status: 200,
+    headers: {
+      'Content-Type': result.type || 'application/octet-stream',
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(result.name)}`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+http.route({
+  pathPrefix: '/share/',
+  method: 'GET',
+  handler: httpAction(async (ctx, request) => showShare(ctx, request)),
+})
+
+http.route({
+  pathPrefix: '/share/',
+  method: 'POST',
+  handler: httpAction(async (ctx, request) => {
+    let form: FormData
+    try {
+      form = await request.formData()
+    } catch {
+      return sharePage(400, '<p>Use the Download button on the link page.</p>')
+    }
+    const password = form.get('password')
+    return deliverShare(ctx, request, typeof password === 'string' ? password : undefined)
+  }),
+})
+
 // Register Better Auth routes
 authComponent.registerRoutes(http, createAuth)
 
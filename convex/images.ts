@@ -0,0 +1,74 @@
+'use node'
+
+/**
+ * Image Processing
+ * ================
+ *
+ * Generates resized WebP variants (IMAGE_VARIANTS in lib/config.ts) for
+ * uploaded images with sharp. Scheduled by `files.saveFile`; the variants
+ * are stored in `_storage` and linked to the file in the `fileVariants` table.
+ *
+ * Runs in the Node.js runtime; sharp is listed under `node.externalPackages`
+ * in convex.json.
+ */
+
+import { internalAction } from './_generated/server'
+import { v } from 'convex/values'
+import sharp from 'sharp'
+import { internal } from './_generated/api'
+import type { Id } from './_generated/dataModel'
+import { IMAGE_VARIANTS } from './lib/config'
+
+export const generateVariants = internalAction({
+  args: {
+    fileId: v.id('files'),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const file = await ctx.runQuery(internal.files.getForProcessing, { id: args.fileId })
+    // Only files in Convex storage get variants
+    if (!file?.storageId) return
+
+    const blob = await ctx.storage.get(file.storageId)
+    if (!blob) return
+    const input = Buffer.from(await blob.arrayBuffer())
+
+    // Keeps files.expirePendingUpload off the variants until they are attached
+    const reservationId = await ctx.runMutation(internal.files.reserveBlobWrites, {})
+
+    const variants: Array<{
+      name: string
+      storageId: Id<'_storage'>
+      width: number
+      height: number
+    }> = []
+    try {
+      for (const { name, size } of IMAGE_VARIANTS) {
+        // rotate() applies the EXIF orientation before resizing
+        const { data, info } = await sharp(input)
+          .rotate()
+          .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+          .webp()
+          .toBuffer({ resolveWithObject: true })
+
+        const storageId = await ctx.storage.store(
+          new Blob([new Uint8Array(data)], { type: 'image/webp' })
+        )
+        variants.push({ name, storageId, width: info.width, height: info.height })
+      }
+    } catch (error) {
+      // Unreadable image: keep the file without previews
+      console.error(`Failed to generate variants for file ${args.fileId}:`, error)
+      for (const variant of variants) {
+        await ctx.storage.delete(variant.storageId)
+      }
+      await ctx.runMutation(internal.files.releaseBlobWrites, { reservationId })
+      return
+    }
+
+    await ctx.runMutation(internal.files.attachVariants, {
+      reservationId,
+      fileId: args.fileId,
+      variants,
+    })
+  },
+})
@@ -0,0 +1,146 @@
+/**
+ * User Impersonation
+ * ==================
+ *
+ * Admins (and roles with `users:impersonate`) can act as another user to
+ * reproduce problems they report. While impersonating, `getAuthUser` returns
+ * the impersonated user (with `impersonatedBy` set), so every query and
+ * mutation runs with their identity and permissions — including losing admin
+ * access until impersonation stops.
+ *
+ * - Every write made while impersonating is recorded in `impersonationAudit`
+ *   (see lib/impersonation.ts); starting and stopping are recorded in the
+ *   audit log
+ * - Impersonation ends after IMPERSONATION_TIMEOUT_MINUTES (see config.ts)
+ * - Nobody can impersonate themselves, an admin, or someone with permissions
+ *   they don't have themselves
+ * - Starting a new impersonation ends the admin's previous one
+ */
+
+import { query, mutation, internalMutation } from './_generated/server'
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import {
+  getAuthUserSafe,
+  getPermissions,
+  getUserById,
+  isAdmin,
+  requireAuth,
+  requirePermission,
+} from './lib/authHelpers'
+import { getActiveImpersonation } from './lib/impersonation'
+import { recordAudit } from './lib/audit'
+import { IMPERSONATION_TIMEOUT_MINUTES, PERMISSIONS } from './lib/config'
+
+// The user being impersonated, for the banner (null when not impersonating)
+export const current = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getAuthUserSafe(ctx)
+    if (!user?.impersonatedBy) return null
+
+    const impersonation = await getActiveImpersonation(ctx, user.impersonatedBy)
+    if (!impersonation) return null
+
+    return {
+      userId: user._id,
+      name: user.name,
+      email: user.email,
+      expiresAt: impersonation.expiresAt,
+    }
+  },
+})
+
+// Start acting as another user
+export const start = mutation({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requirePermission(ctx, PERMISSIONS.USERS_IMPERSONATE)
+    if (args.userId === admin._id) {
+      throw new Error('You cannot impersonate yourself')
+    }
+
+    const user = await getUserById(ctx, args.userId)
+    if (!user) {
+      throw new Error('User not found')
+    }
+    if (isAdmin(user)) {
+      throw new Error('Admins cannot be impersonated')
+    }
+
+    // Impersonating must not grant the admin anything they can't already do
+    const granted = await getPermissions(ctx, admin)
+    const needed = await getPermissions(ctx, user)
+    if (needed.some((permission) => !granted.includes(permission))) {
+      throw new Error('You cannot impersonate a user with permissions you do not have')
+    }
+
+    // Only one impersonation per admin is open at a time
+    const open = await ctx.db
+      .query('impersonations')
+      .withIndex('by_admin_ended', (q) => q.eq('adminId', admin._id).eq('endedAt', undefined))
+      .collect()
+    const now = Date.now()
+    for (const previous of open) {
+      await ctx.db.patch(previous._id, {
+        endedAt: now,
+        endReason: previous.expiresAt > now ? 'stopped' : 'expired',
+      })
+    }
+
+    const expiresAt = now + IMPERSONATION_TIMEOUT_MINUTES * 60 * 1000
+    const impersonationId = await ctx.db.insert('impersonations', {
+      adminId: admin._id,
+      userId: user._id,
+      expiresAt,
+    })
+    await ctx.scheduler.runAt(expiresAt, internal.impersonation.expire, { impersonationId })
+
+    await recordAudit(ctx, {
+      actor: admin,
+      action: 'impersonation.start',
+      target: { table: 'user', id: user._id },
+      after: await ctx.db.get(impersonationId),
+    })
+  },
+})
+
+// Stop impersonating and return to your own account
+export const stop = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireAuth(ctx)
+    if (!user.impersonatedBy) {
+      throw new Error('You are not impersonating anyone')
+    }
+
+    const impersonation = await getActiveImpersonation(ctx, user.impersonatedBy)
+    if (impersonation) {
+      await ctx.db.patch(impersonation._id, { endedAt: Date.now(), endReason: 'stopped' })
+
+      // Recorded as the impersonated user, with the admin in the metadata
+      await recordAudit(ctx, {
+        actor: user,
+        action: 'impersonation.stop',
+        target: { table: 'user', id: user._id },
+        before: impersonation,
+        after: await ctx.db.get(impersonation._id),
+      })
+    }
+  },
+})
+
+// End an impersonation when it times out (scheduled by start)
+export const expire = internalMutation({
+  args: {
+    impersonationId: v.id('impersonations'),
+  },
+  handler: async (ctx, args) => {
+    const impersonation = await ctx.db.get(args.impersonationId)
+    if (impersonation && impersonation.endedAt === undefined) {
+      await ctx.db.patch(args.impersonationId, { endedAt: Date.now(), endReason: 'expired' })
+    }
+  },
+})
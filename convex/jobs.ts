@@ -0,0 +1,127 @@
+/**
+ * Job Runner
+ * ==========
+ *
+ * Every cron in crons.ts calls `internal.jobs.run` with a job name instead of
+ * the job function itself, so each run is recorded in the `jobRuns` table.
+ *
+ * To add a job:
+ * 1. Write it as an internalMutation with no required args
+ * 2. Add its name to `jobName` and its reference to `JOBS`
+ * 3. Schedule it in crons.ts
+ */
+
+import { query, internalAction, internalMutation } from './_generated/server'
+import { v } from 'convex/values'
+import type { Infer } from 'convex/values'
+import type { FunctionReference } from 'convex/server'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import { requirePermission } from './lib/authHelpers'
+import { JOB_RUN_RETENTION_DAYS, PERMISSIONS } from './lib/config'
+
+const jobName = v.union(
+  v.literal('purgeTrashedMessages'),
+  v.literal('purgeTrashedFiles'),
+  v.literal('purgeOrphanedBlobs'),
+  v.literal('compactRateLimits'),
+  v.literal('sendDailyDigest')
+)
+export type JobName = Infer<typeof jobName>
+
+type JobFunction = FunctionReference<'mutation', 'internal', Record<string, unknown>, unknown>
+
+const JOBS: Record<JobName, JobFunction> = {
+  purgeTrashedMessages: internal.messages.purgeDeleted,
+  purgeTrashedFiles: internal.files.purgeDeleted,
+  purgeOrphanedBlobs: internal.maintenance.purgeOrphanedBlobs,
+  compactRateLimits: internal.maintenance.compactRateLimits,
+  sendDailyDigest: internal.maintenance.sendDailyDigest,
+}
+
+const JOB_NAMES = Object.keys(JOBS) as JobName[]
+
+// Run a registered job and record the outcome
+export const run = internalAction({
+  args: {
+    job: jobName,
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const runId: Id<'jobRuns'> = await ctx.runMutation(internal.jobs.startRun, { job: args.job })
+
+    try {
+      const result = await ctx.runMutation(JOBS[args.job], {})
+      await ctx.runMutation(internal.jobs.finishRun, {
+        runId,
+        status: 'success',
+        summary: result === undefined ? undefined : JSON.stringify(result),
+      })
+    } catch (error) {
+      await ctx.runMutation(internal.jobs.finishRun, {
+        runId,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      })
+      throw error
+    }
+  },
+})
+
+// Record the start of a run and prune this job's expired history
+export const startRun = internalMutation({
+  args: {
+    job: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<'jobRuns'>> => {
+    const cutoff = Date.now() - JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    const expired = await ctx.db
+      .query('jobRuns')
+      .withIndex('by_job', (q) => q.eq('job', args.job).lt('_creationTime', cutoff))
+      .take(100)
+    for (const run of expired) {
+      await ctx.db.delete(run._id)
+    }
+
+    return await ctx.db.insert('jobRuns', {
+      job: args.job,
+      status: 'running',
+      startedAt: Date.now(),
+    })
+  },
+})
+
+export const finishRun = internalMutation({
+  args: {
+    runId: v.id('jobRuns'),
+    status: v.union(v.literal('success'), v.literal('failed')),
+    summary: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.runId, {
+      status: args.status,
+      finishedAt: Date.now(),
+      summary: args.summary,
+      error: args.error,
+    })
+  },
+})
+
+// Last run of every registered job (jobs:read)
+export const latestRuns = query({
+  args: {},
+  handler: async (ctx): Promise<Array<{ job: JobName; lastRun: Doc<'jobRuns'> | null }>> => {
+    await requirePermission(ctx, PERMISSIONS.JOBS_READ)
+
+    return await Promise.all(
+      JOB_NAMES.map(async (job) => ({
+        job,
+        lastRun: await ctx.db
+          .query('jobRuns')
+          .withIndex('by_job', (q) => q.eq('job', job))
+          .order('desc')
+          .first(),
+      }))
+    )
+  },
+})
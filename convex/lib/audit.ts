@@ -0,0 +1,105 @@
+/**
+ * Audit Log
+ * =========
+ *
+ * Privileged actions (deleting other people's messages, changing roles,
+ * banning users, ...) are recorded in the append-only `auditLog` table with
+ * the actor, the action, the target, before/after snapshots of the target and
+ * request metadata. Nothing updates or deletes audit rows.
+ *
+ * Most mutations should use `withAudit` (lib/middleware/withAudit.ts) or
+ * `MutationFactory.audited` (lib/patterns/Factory.ts), which take the
+ * snapshots for you. Call `recordAudit` directly when a mutation needs to
+ * describe the change itself.
+ *
+ * Request metadata comes from the caller's Better Auth session (Convex
+ * functions don't see HTTP headers): the session ID, and the IP address and
+ * user agent the session was created from.
+ */
+
+import schema from '../schema'
+import { components } from '../_generated/api'
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+import type { Doc, TableNames } from '../_generated/dataModel'
+import type { AuthUser } from './authHelpers'
+import type { AuditAction } from './config'
+
+const TABLE_NAMES = Object.keys(schema.tables) as TableNames[]
+
+/** What an audited action changed: an app table row or a Better Auth `user` */
+export interface AuditTarget {
+  table: string
+  id: string
+}
+
+export type AuditMetadata = Doc<'auditLog'>['metadata']
+
+/**
+ * Request metadata for the current caller, from their Better Auth session.
+ *
+ * @param ctx - Convex mutation context
+ * @param actor - The authenticated user (the impersonated user while impersonating)
+ */
+export async function getRequestMetadata(
+  ctx: MutationCtx,
+  actor: AuthUser
+): Promise<AuditMetadata> {
+  const identity = await ctx.auth.getUserIdentity()
+  const sessionId = typeof identity?.sessionId === 'string' ? identity.sessionId : undefined
+  const session: { ipAddress?: string | null; userAgent?: string | null } | null = sessionId
+    ? await ctx.runQuery(components.betterAuth.adapter.findOne, {
+        model: 'session',
+        where: [{ field: '_id', value: sessionId }],
+      })
+    : null
+
+  return {
+    sessionId,
+    ipAddress: session?.ipAddress ?? undefined,
+    userAgent: session?.userAgent ?? undefined,
+    impersonatedBy: actor.impersonatedBy,
+  }
+}
+
+/**
+ * Snapshot of an app table row for the audit log (null if it doesn't exist).
+ * Targets outside the app's tables (e.g. Better Auth users) return null; pass
+ * a `snapshot` to `withAudit` for those.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param target - The audited document
+ */
+export async function snapshotDocument(ctx: QueryCtx | MutationCtx, target: AuditTarget) {
+  const table = TABLE_NAMES.find((name) => name === target.table)
+  const id = table ? ctx.db.normalizeId(table, target.id) : null
+  return id ? await ctx.db.get(id) : null
+}
+
+/**
+ * Append an entry to the audit log.
+ *
+ * @param ctx - Convex mutation context
+ * @param entry - Who did what to which target, with optional snapshots
+ */
+export async function recordAudit(
+  ctx: MutationCtx,
+  entry: {
+    actor: AuthUser
+    action: AuditAction
+    target?: AuditTarget
+    before?: unknown
+    after?: unknown
+  }
+) {
+  await ctx.db.insert('auditLog', {
+    actorId: entry.actor._id,
+    actorName: entry.actor.name,
+    actorEmail: entry.actor.email.toLowerCase(),
+    action: entry.action,
+    targetTable: entry.target?.table,
+    targetId: entry.target?.id,
+    before: entry.before ?? null,
+    after: entry.after ?? null,
+    metadata: await getRequestMetadata(ctx, entry.actor),
+  })
+}
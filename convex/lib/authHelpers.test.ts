@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { canGrantPermissions, canManageUser } from './authHelpers'
+import type { AuthUser } from './authHelpers'
+import { PERMISSIONS, ROLES } from './config'
+import type { QueryCtx } from '../_generated/server'
+
+// Minimal stand-in for ctx.db that answers roles lookups by name
+function fakeCtx(roles: Record<string, string[]>) {
+  return {
+    db: {
+      query: () => ({
+        withIndex: (_index: string, range: (q: unknown) => unknown) => {
+          let name = ''
+          range({ eq: (_field: string, value: string) => (name = value) })
+          return {
+            unique: async () => (roles[name] ? { name, permissions: roles[name] } : null),
+          }
+        },
+      }),
+    },
+  } as unknown as QueryCtx
+}
+
+const user = (role?: string) =>
+  ({ _id: role ?? 'user', name: 'Ada', email: 'ada@example.com', role }) as AuthUser
+
+describe('canGrantPermissions', () => {
+  const ctx = fakeCtx({
+    'role-manager': [PERMISSIONS.ROLES_MANAGE, PERMISSIONS.MESSAGES_MODERATE],
+  })
+
+  it('allows permissions the user has', async () => {
+    expect(
+      await canGrantPermissions(ctx, user('role-manager'), [PERMISSIONS.MESSAGES_MODERATE])
+    ).toBe(true)
+  })
+
+  it('refuses permissions the user lacks', async () => {
+    expect(
+      await canGrantPermissions(ctx, user('role-manager'), [
+        PERMISSIONS.MESSAGES_MODERATE,
+        PERMISSIONS.USERS_MANAGE,
+      ])
+    ).toBe(false)
+    expect(await canGrantPermissions(ctx, user(), [PERMISSIONS.ROLES_MANAGE])).toBe(false)
+  })
+
+  it('lets admins grant every permission', async () => {
+    expect(await canGrantPermissions(ctx, user(ROLES.ADMIN), Object.values(PERMISSIONS))).toBe(true)
+  })
+
+  it('ignores permissions that no longer exist', async () => {
+    expect(await canGrantPermissions(ctx, user(), ['files:teleport'])).toBe(true)
+  })
+})
+
+describe('canManageUser', () => {
+  const ctx = fakeCtx({
+    support: [PERMISSIONS.USERS_MANAGE],
+    moderator: [PERMISSIONS.MESSAGES_MODERATE],
+  })
+
+  it('lets managers act on users with fewer permissions', async () => {
+    expect(await canManageUser(ctx, user('support'), user())).toBe(true)
+  })
+
+  it('refuses users with permissions the manager lacks', async () => {
+    expect(await canManageUser(ctx, user('support'), user('moderator'))).toBe(false)
+    expect(await canManageUser(ctx, user('support'), user(ROLES.ADMIN))).toBe(false)
+  })
+
+  it('lets admins act on anyone', async () => {
+    expect(await canManageUser(ctx, user(ROLES.ADMIN), user('moderator'))).toBe(true)
+  })
+})
@@ -30,7 +30,31 @@
  *
  * A user is considered an admin if:
  * 1. Their email is in the ADMIN_EMAILS whitelist (see config.ts), OR
- * 2. Their user record has `role: 'admin'` in the database
+ * 2. They have `role: 'admin'` in the `userRoles` table (granted from the
+ *    admin console, see admin.ts), OR
+ * 3. Their user record has `role: 'admin'` in the database
+ *
+ * ## Permissions
+ *
+ * For anything beyond admin/user, check a named permission instead of a role
+ * (see PERMISSIONS in config.ts). Roles map to permission sets stored in the
+ * `roles` table:
+ *
+ * ```ts
+ * const user = await requirePermission(ctx, PERMISSIONS.MESSAGES_DELETE_ANY)
+ * ```
+ *
+ * ## Two-Factor Enrollment
+ *
+ * With ADMIN_TWO_FACTOR_REQUIRED (config.ts), admins who haven't set up
+ * two-factor authentication get only the `user` role's permissions and fail
+ * `requireAdmin` until they enroll from /settings.
+ *
+ * ## Impersonation
+ *
+ * While an admin impersonates a user (see ../impersonation.ts), `getAuthUser`
+ * and `requireAuth` return the impersonated user with `impersonatedBy` set to
+ * the admin's ID, and permission checks use the impersonated user's role.
  *
  * ## Setup
  *
@@ -41,12 +65,23 @@
  */
 
 import { authComponent } from '../auth'
-import { ADMIN_EMAILS } from './config'
+import {
+  ADMIN_EMAILS,
+  ADMIN_TWO_FACTOR_REQUIRED,
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  ROLES,
+} from './config'
+import type { Permission, Role } from './config'
+import { auditWrites, getActiveImpersonation } from './impersonation'
 import type { QueryCtx, MutationCtx } from '../_generated/server'
 
 /** Context type for queries and mutations */
 type AuthContext = QueryCtx | MutationCtx
 
+const TWO_FACTOR_REQUIRED_MESSAGE =
+  'Set up two-factor authentication in Settings to use admin access'
+
 /**
  * User type returned by Better Auth Convex adapter.
  * Extended with optional role field for RBAC.
@@ -58,6 +93,10 @@ export interface AuthUser {
   email: string
   image?: string | null
   role?: string | null
+  /** Set by Better Auth once the user has set up two-factor authentication */
+  twoFactorEnabled?: boolean | null
+  /** Set while an admin is impersonating this user (the admin's user ID) */
+  impersonatedBy?: string
 }
 
 /**
@@ -67,8 +106,58 @@ export interface AuthUser {
  * @returns The authenticated user or null
  */
 export async function getAuthUser(ctx: AuthContext): Promise<AuthUser | null> {
-  const user = await authComponent.getAuthUser(ctx)
-  return user as AuthUser | null
+  const authUser = await authComponent.getAuthUser(ctx)
+  if (!authUser) return null
+  const user = await withRole(ctx, authUser as AuthUser)
+
+  // Users impersonating someone act as that user (see lib/impersonation.ts)
+  const impersonation = await getActiveImpersonation(ctx, user._id)
+  if (!impersonation || !(await hasPermission(ctx, user, PERMISSIONS.USERS_IMPERSONATE))) {
+    return user
+  }
+
+  const target = await getUserById(ctx, impersonation.userId)
+  if (!target) return user
+  if ('insert' in ctx.db) {
+    auditWrites(ctx as MutationCtx, impersonation)
+  }
+  return { ...target, impersonatedBy: user._id }
+}
+
+/**
+ * Look up any user by ID (e.g. in internal functions without an auth session).
+ *
+ * @param ctx - Convex query or mutation context
+ * @param userId - Better Auth user ID
+ * @returns The user or null if not found
+ */
+export async function getUserById(ctx: AuthContext, userId: string): Promise<AuthUser | null> {
+  const user = await authComponent.getAnyUserById(ctx, userId)
+  return user ? await withRole(ctx, user as AuthUser) : null
+}
+
+// Apply the role granted by an admin, if any (the Better Auth user table has no role field)
+async function withRole(ctx: AuthContext, user: AuthUser): Promise<AuthUser> {
+  const granted = await ctx.db
+    .query('userRoles')
+    .withIndex('by_user', (q) => q.eq('userId', user._id))
+    .unique()
+  return granted ? { ...user, role: granted.role } : user
+}
+
+/**
+ * Check if a user has been banned by an admin.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param userId - Better Auth user ID
+ * @returns true if the user is banned
+ */
+export async function isBanned(ctx: AuthContext, userId: string): Promise<boolean> {
+  const ban = await ctx.db
+    .query('userBans')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .unique()
+  return ban !== null
 }
 
 /**
@@ -106,7 +195,7 @@ export async function requireAuth(ctx: AuthContext): Promise<AuthUser> {
  *
  * Admin status is determined by:
  * 1. Email whitelist (ADMIN_EMAILS in config.ts)
- * 2. Role field on user record (role === 'admin')
+ * 2. Role granted in the admin console or set on the user record (role === 'admin')
  *
  * @param user - The user to check
  * @returns true if user is an admin
@@ -121,7 +210,19 @@ export function isAdmin(user: AuthUser): boolean {
 }
 
 /**
- * Require admin role. Throws if not an admin.
+ * Check if an admin still has to set up two-factor authentication before
+ * using admin access (only when ADMIN_TWO_FACTOR_REQUIRED is on).
+ *
+ * @param user - The user to check
+ * @returns true if the user is an admin without two-factor authentication
+ */
+export function needsTwoFactorEnrollment(user: AuthUser): boolean {
+  return ADMIN_TWO_FACTOR_REQUIRED && isAdmin(user) && !user.twoFactorEnabled
+}
+
+/**
+ * Require admin role. Throws if not an admin, or if the admin still has to
+ * set up two-factor authentication.
  *
  * @param ctx - Convex query or mutation context
  * @returns The authenticated admin user
@@ -132,5 +233,127 @@ export async function requireAdmin(ctx: AuthContext): Promise<AuthUser> {
   if (!isAdmin(user)) {
     throw new Error('Admin access required')
   }
+  if (needsTwoFactorEnrollment(user)) {
+    throw new Error(TWO_FACTOR_REQUIRED_MESSAGE)
+  }
+  return user
+}
+
+/**
+ * Get a user's role name: `admin` for admins, otherwise the role granted in
+ * the admin console (default `user`).
+ *
+ * @param user - The user to check
+ * @returns The role name
+ */
+export function getRoleName(user: AuthUser): string {
+  return isAdmin(user) ? ROLES.ADMIN : (user.role ?? ROLES.USER)
+}
+
+/**
+ * Get the permissions a user has through their role.
+ * Admins have every permission (once enrolled in two-factor authentication,
+ * if required); other roles are looked up in the `roles` table, falling back
+ * to DEFAULT_ROLE_PERMISSIONS for built-in roles.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param user - The user to check
+ * @returns The user's permissions
+ */
+export async function getPermissions(ctx: AuthContext, user: AuthUser): Promise<Permission[]> {
+  const roleName = needsTwoFactorEnrollment(user) ? ROLES.USER : getRoleName(user)
+  if (roleName === ROLES.ADMIN) {
+    return DEFAULT_ROLE_PERMISSIONS[ROLES.ADMIN]
+  }
+
+  const role = await ctx.db
+    .query('roles')
+    .withIndex('by_name', (q) => q.eq('name', roleName))
+    .unique()
+  const granted = role?.permissions ?? DEFAULT_ROLE_PERMISSIONS[roleName as Role] ?? []
+
+  // Ignore permissions that no longer exist in config.ts
+  const known: string[] = Object.values(PERMISSIONS)
+  return granted.filter((permission): permission is Permission => known.includes(permission))
+}
+
+/**
+ * Check if a user has a permission.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param user - The user to check
+ * @param permission - Permission name, e.g. `messages:delete:any`
+ * @returns true if the user has the permission
+ */
+export async function hasPermission(
+  ctx: AuthContext,
+  user: AuthUser,
+  permission: Permission
+): Promise<boolean> {
+  return (await getPermissions(ctx, user)).includes(permission)
+}
+
+/**
+ * Check if a user has every one of the given permissions, e.g. before they
+ * put them in a role. Permissions that no longer exist in config.ts are
+ * ignored, as in getPermissions.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param user - The user handing out the permissions
+ * @param permissions - Permission names
+ * @returns true if the user has all of them
+ */
+export async function canGrantPermissions(
+  ctx: AuthContext,
+  user: AuthUser,
+  permissions: readonly string[]
+): Promise<boolean> {
+  const known: string[] = Object.values(PERMISSIONS)
+  const granted: string[] = await getPermissions(ctx, user)
+  return permissions.every(
+    (permission) => !known.includes(permission) || granted.includes(permission)
+  )
+}
+
+/**
+ * Check if a manager may change another user's role, ban them or sign them
+ * out: admins can manage anyone, others only users whose permissions they
+ * all have themselves.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param manager - The user making the change
+ * @param user - The user being changed
+ * @returns true if the manager may act on the user
+ */
+export async function canManageUser(
+  ctx: AuthContext,
+  manager: AuthUser,
+  user: AuthUser
+): Promise<boolean> {
+  return (
+    isAdmin(manager) || (await canGrantPermissions(ctx, manager, await getPermissions(ctx, user)))
+  )
+}
+
+/**
+ * Require a permission. Throws if the user doesn't have it.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param permission - Permission name, e.g. `messages:delete:any`
+ * @returns The authenticated user
+ * @throws Error if user is not authenticated or lacks the permission
+ */
+export async function requirePermission(
+  ctx: AuthContext,
+  permission: Permission
+): Promise<AuthUser> {
+  const user = await requireAuth(ctx)
+  if (!(await hasPermission(ctx, user, permission))) {
+    throw new Error(
+      needsTwoFactorEnrollment(user)
+        ? TWO_FACTOR_REQUIRED_MESSAGE
+        : `Permission required: ${permission}`
+    )
+  }
   return user
 }
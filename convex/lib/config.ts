@@ -18,8 +18,9 @@
  * 2. Deploy with `npx convex deploy` or let `npx convex dev` sync
  * 3. Sign in with that email - you're now an admin!
  *
- * This is the recommended approach — it's simple, safe, and doesn't
- * expose a public mutation for role changes.
+ * This is the recommended way to set up the first admin. Further admins can
+ * be granted the role from the admin console (/admin/users), but admins
+ * listed here can't be demoted or banned there.
  *
  * @example
  * ```ts
@@ -38,12 +39,301 @@ export const ADMIN_EMAILS: string[] = [
  * Role Definitions
  * ----------------
  *
- * Define your application roles here.
- * Extend this as needed for more complex RBAC.
+ * Built-in roles. Add more roles from the admin console (/admin/roles)
+ * instead of here, see Permissions below.
  */
 export const ROLES = {
   ADMIN: 'admin',
+  MODERATOR: 'moderator',
   USER: 'user',
 } as const
 
 export type Role = (typeof ROLES)[keyof typeof ROLES]
+
+/**
+ * Permissions
+ * -----------
+ *
+ * Named permissions checked with `requirePermission` (see lib/authHelpers.ts)
+ * and `usePermission` on the client. Roles map to sets of permissions and are
+ * stored in the `roles` table, so new roles (e.g. a moderator) can be created
+ * from the admin console without code changes.
+ *
+ * Admins always have every permission. Add a permission here when you add a
+ * check for it.
+ */
+export const PERMISSIONS = {
+  MESSAGES_DELETE_ANY: 'messages:delete:any',
+  MESSAGES_HISTORY_READ: 'messages:history:read',
+  MESSAGES_MODERATE: 'messages:moderate',
+  FILES_READ_ANY: 'files:read:any',
+  FILES_RESTORE_ANY: 'files:restore:any',
+  USERS_MANAGE: 'users:manage',
+  USERS_IMPERSONATE: 'users:impersonate',
+  ROLES_MANAGE: 'roles:manage',
+  STORAGE_QUOTAS_MANAGE: 'storage:quotas:manage',
+  JOBS_READ: 'jobs:read',
+  AUDIT_READ: 'audit:read',
+} as const
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS]
+
+/** Shown next to each permission in the admin console */
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  [PERMISSIONS.MESSAGES_DELETE_ANY]: 'Delete and restore any message, and see all trashed messages',
+  [PERMISSIONS.MESSAGES_HISTORY_READ]: 'View the edit history of messages',
+  [PERMISSIONS.MESSAGES_MODERATE]:
+    'Review reported messages, hide or delete them, and mute users (see /moderation)',
+  [PERMISSIONS.FILES_READ_ANY]: "See everyone's trashed files",
+  [PERMISSIONS.FILES_RESTORE_ANY]: 'Restore any trashed file',
+  [PERMISSIONS.USERS_MANAGE]: 'List users, change their roles, ban them and sign them out',
+  [PERMISSIONS.USERS_IMPERSONATE]: 'Act as another user (audited)',
+  [PERMISSIONS.ROLES_MANAGE]: 'Create and edit roles (only with permissions they have)',
+  [PERMISSIONS.STORAGE_QUOTAS_MANAGE]: "Override users' storage quotas",
+  [PERMISSIONS.JOBS_READ]: 'View scheduled job status',
+  [PERMISSIONS.AUDIT_READ]: 'View and export the audit log of privileged actions',
+}
+
+/** Permissions of the built-in roles, until they are edited in the admin console */
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [ROLES.ADMIN]: Object.values(PERMISSIONS),
+  [ROLES.MODERATOR]: [
+    PERMISSIONS.MESSAGES_MODERATE,
+    PERMISSIONS.MESSAGES_DELETE_ANY,
+    PERMISSIONS.MESSAGES_HISTORY_READ,
+  ],
+  [ROLES.USER]: [],
+}
+
+/**
+ * Storage Quotas
+ * --------------
+ *
+ * Total bytes of file storage each role may use (trashed files count until
+ * they are purged). Admins can override the quota for individual users with
+ * `files.setStorageQuota`.
+ */
+export const STORAGE_QUOTAS: Record<Role, number> = {
+  [ROLES.ADMIN]: 1024 * 1024 * 1024, // 1GB
+  [ROLES.MODERATOR]: 100 * 1024 * 1024, // 100MB
+  [ROLES.USER]: 100 * 1024 * 1024, // 100MB (also used for custom roles)
+}
+
+/**
+ * Email Sign-In
+ * -------------
+ *
+ * Email + password and magic-link sign-in (see convex/auth.ts). Verification,
+ * password reset and magic-link emails are sent with the IEmailService in
+ * lib/patterns/ServiceAdapter.ts.
+ */
+export const PASSWORD_MIN_LENGTH = 8
+
+/** How long a password reset link stays valid */
+export const PASSWORD_RESET_EXPIRES_MINUTES = 60
+
+/** How long a magic sign-in link stays valid */
+export const MAGIC_LINK_EXPIRES_MINUTES = 15
+
+/**
+ * Two-Factor Authentication
+ * -------------------------
+ *
+ * Users can add an authenticator app (TOTP) as a second factor from
+ * /settings, with one-time backup codes in case they lose it (see the
+ * twoFactor plugin in convex/auth.ts). It applies to email + password
+ * sign-in.
+ */
+
+/** Name shown for this app in authenticator apps */
+export const TWO_FACTOR_ISSUER = 'Hello Convex'
+
+/** Number of one-time backup codes generated at a time */
+export const TWO_FACTOR_BACKUP_CODES = 10
+
+/**
+ * When true, admins must set up two-factor authentication before
+ * `requireAdmin` and their admin-only permissions let them through.
+ */
+export const ADMIN_TWO_FACTOR_REQUIRED = false
+
+/**
+ * Passkeys
+ * --------
+ *
+ * Passwordless sign-in with passkeys (WebAuthn). Users can register several,
+ * name and remove them from /settings (see convex/lib/passkeys.ts).
+ */
+
+/** Name shown for this app when a passkey is created */
+export const PASSKEY_RP_NAME = 'Hello Convex'
+
+/**
+ * Impersonation
+ * -------------
+ *
+ * Admins can act as another user from the admin console (see
+ * convex/impersonation.ts). Impersonation ends automatically after this long.
+ */
+export const IMPERSONATION_TIMEOUT_MINUTES = 30
+
+/**
+ * Audit Log
+ * ---------
+ *
+ * Privileged actions recorded in the `auditLog` table (see lib/audit.ts),
+ * named after the Convex function that performs them. Add a name here when
+ * you audit a new mutation.
+ */
+export const AUDIT_ACTIONS = [
+  'admin.banUser',
+  'admin.revokeSessions',
+  'admin.setRole',
+  'admin.unbanUser',
+  'files.restore',
+  'files.setStorageQuota',
+  'impersonation.start',
+  'impersonation.stop',
+  'messages.deleteAny',
+  'messages.restore',
+  'moderation.mute',
+  'moderation.resolve',
+  'moderation.unmute',
+  'roles.remove',
+  'roles.save',
+] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+/** Max rows in one CSV export from the audit viewer (narrow the filters for more) */
+export const AUDIT_EXPORT_MAX_ROWS = 5000
+
+/**
+ * Moderation
+ * ----------
+ *
+ * Signed-in users can report messages; reports wait in the moderation queue
+ * (/moderation, see convex/moderation.ts) for a user with `messages:moderate`.
+ */
+
+/** Max length of the reason given when reporting a message */
+export const REPORT_REASON_MAX_LENGTH = 500
+
+/** Reports shown with each message in the moderation queue (the rest are counted) */
+export const QUEUE_REPORTS_SHOWN = 3
+
+/** Mute lengths offered on the moderation screen */
+export const MUTE_DURATIONS_HOURS = [1, 24, 7 * 24] as const
+
+/** Longest mute a moderator can give */
+export const MAX_MUTE_HOURS = 30 * 24
+
+/**
+ * Message Reactions
+ * -----------------
+ *
+ * Emoji users can react to messages with.
+ * Reactions outside this list are rejected by `reactions.toggle`.
+ */
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '🎉', '😮', '😢'] as const
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number]
+
+/**
+ * Trash Retention
+ * ---------------
+ *
+ * Deleted messages and files are moved to the trash first (soft delete)
+ * and can be restored by their owner or an admin. The daily purge cron jobs
+ * (convex/crons.ts) permanently delete items older than this, including
+ * their storage objects.
+ */
+export const TRASH_RETENTION_DAYS = 30
+
+/** Max documents purged per mutation run (the purge reschedules itself until done) */
+export const TRASH_PURGE_BATCH_SIZE = 100
+
+/**
+ * File Uploads
+ * ------------
+ *
+ * Enforced by `files.saveFile` against the stored blob, so they cannot be
+ * bypassed from the client. The upload page uses the same values for early
+ * feedback.
+ */
+
+/** Maximum size of a single uploaded file */
+export const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024 // 100MB
+
+/**
+ * Files larger than this are uploaded in chunks of this size (see convex/uploads.ts),
+ * so a dropped connection only loses the current chunk.
+ */
+export const UPLOAD_CHUNK_SIZE_BYTES = 5 * 1024 * 1024 // 5MB
+
+/** Unfinished chunked uploads (and their chunks) are deleted after this */
+export const UPLOAD_SESSION_TIMEOUT_HOURS = 24
+
+/** How many files the upload queue on the Files page uploads at once */
+export const UPLOAD_CONCURRENCY = 3
+
+/** MIME types that may be uploaded */
+export const ALLOWED_FILE_TYPES: readonly string[] = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/json',
+  'application/zip',
+]
+
+/**
+ * Image Variants
+ * --------------
+ *
+ * Resized WebP copies generated for uploaded images (see convex/images.ts).
+ * Each variant fits inside a `size` x `size` box; smaller images are not enlarged.
+ * `thumb` is used for previews on the Files page.
+ */
+export const IMAGE_VARIANTS = [
+  { name: 'thumb', size: 200 },
+  { name: 'small', size: 640 },
+  { name: 'medium', size: 1280 },
+] as const
+
+export type ImageVariantName = (typeof IMAGE_VARIANTS)[number]['name']
+
+/** Image types variants are generated for */
+export const RESIZABLE_IMAGE_TYPES: readonly string[] = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+]
+
+/**
+ * Upload Confirmation
+ * -------------------
+ *
+ * An upload must be confirmed with `files.saveFile` within this window,
+ * otherwise its blob is deleted. Convex upload URLs are valid for one hour,
+ * so no blob can arrive for an upload after it expires.
+ */
+export const PENDING_UPLOAD_TIMEOUT_MINUTES = 60
+
+/**
+ * Maintenance Jobs
+ * ----------------
+ *
+ * Settings for the scheduled jobs in convex/crons.ts (see convex/jobs.ts).
+ */
+
+/** Storage blobs younger than this are never treated as orphaned (uploads still in flight) */
+export const ORPHANED_BLOB_GRACE_HOURS = 24
+
+/** Job run history older than this is pruned */
+export const JOB_RUN_RETENTION_DAYS = 30
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { constantTimeEqual, hashPassword, hashSecret, randomToken, verifyPassword } from './crypto'
+
+describe('randomToken', () => {
+  it('returns distinct URL-safe tokens', () => {
+    const a = randomToken()
+    const b = randomToken()
+    expect(a).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(a).toHaveLength(32)
+    expect(a).not.toBe(b)
+  })
+})
+
+describe('hashSecret', () => {
+  it('is deterministic for the same salt and differs across salts', async () => {
+    expect(await hashSecret('hunter2', 'salt')).toBe(await hashSecret('hunter2', 'salt'))
+    expect(await hashSecret('hunter2', 'salt')).not.toBe(await hashSecret('hunter2', 'other'))
+  })
+})
+
+describe('hashPassword', () => {
+  it('records the scheme and iteration count', async () => {
+    expect(await hashPassword('hunter2', 'salt', 1000)).toMatch(
+      /^pbkdf2-sha256\$1000\$[0-9a-f]{64}$/
+    )
+  })
+
+  it('verifies the right password only', async () => {
+    const hash = await hashPassword('hunter2', 'salt', 1000)
+    expect(await verifyPassword('hunter2', 'salt', hash)).toBe(true)
+    expect(await verifyPassword('hunter3', 'salt', hash)).toBe(false)
+    expect(await verifyPassword('hunter2', 'other', hash)).toBe(false)
+  })
+
+  it('still verifies older SHA-256 hashes', async () => {
+    const legacy = await hashSecret('hunter2', 'salt')
+    expect(await verifyPassword('hunter2', 'salt', legacy)).toBe(true)
+    expect(await verifyPassword('hunter3', 'salt', legacy)).toBe(false)
+  })
+})
+
+describe('constantTimeEqual', () => {
+  it('compares strings', () => {
+    expect(constantTimeEqual('abc', 'abc')).toBe(true)
+    expect(constantTimeEqual('abc', 'abd')).toBe(false)
+    expect(constantTimeEqual('abc', 'ab')).toBe(false)
+  })
+})
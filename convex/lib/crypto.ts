@@ -0,0 +1,96 @@
+/**
+ * Crypto Helpers
+ * ==============
+ *
+ * Random tokens and salted secret hashing using the Web Crypto API
+ * (available in the Convex runtime).
+ *
+ * Use `hashPassword` / `verifyPassword` for anything a person types (it is
+ * deliberately slow); `hashSecret` is only fit for long random tokens.
+ *
+ * At PASSWORD_HASH_ITERATIONS one hash takes about 0.3 s of CPU (measured
+ * with Node's Web Crypto on a single core; slower hosts take longer), while
+ * queries and mutations get one second in total. Call `hashPassword` and
+ * `verifyPassword` from actions (see shares.ts), which may run for minutes.
+ */
+
+/** PBKDF2-SHA256 rounds for new password hashes (OWASP 2023 recommendation) */
+export const PASSWORD_HASH_ITERATIONS = 600_000
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+
+/**
+ * Random URL-safe token.
+ *
+ * @param byteLength - Number of random bytes (the token is ~4/3 as long)
+ */
+export function randomToken(byteLength = 24): string {
+  const bytes = new Uint8Array(byteLength)
+  crypto.getRandomValues(bytes)
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * Hex-encoded SHA-256 of a salted secret.
+ * Store the salt next to the hash and compare with `constantTimeEqual`.
+ */
+export async function hashSecret(secret: string, salt: string): Promise<string> {
+  const data = new TextEncoder().encode(`${salt}:${secret}`)
+  return toHex(await crypto.subtle.digest('SHA-256', data))
+}
+
+/**
+ * Slow salted password hash (PBKDF2-SHA256), stored as
+ * `pbkdf2-sha256$<iterations>$<hex>` so the iteration count can be raised later.
+ */
+export async function hashPassword(
+  password: string,
+  salt: string,
+  iterations = PASSWORD_HASH_ITERATIONS
+): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, [
+    'deriveBits',
+  ])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations },
+    key,
+    256
+  )
+  return `pbkdf2-sha256$${iterations}$${toHex(bits)}`
+}
+
+/**
+ * Check a password against a hash from `hashPassword`. Hashes without the
+ * `pbkdf2-sha256$` prefix are older `hashSecret` values and still verify.
+ */
+export async function verifyPassword(
+  password: string,
+  salt: string,
+  storedHash: string
+): Promise<boolean> {
+  const [scheme, iterations] = storedHash.split('$')
+  const hash =
+    scheme === 'pbkdf2-sha256'
+      ? await hashPassword(password, salt, Number(iterations))
+      : await hashSecret(password, salt)
+  return constantTimeEqual(hash, storedHash)
+}
+
+/**
+ * Compare two strings without leaking where they differ through timing.
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { auditWrites } from './impersonation'
+import type { MutationCtx } from '../_generated/server'
+import type { Doc, Id } from '../_generated/dataModel'
+
+// Minimal in-memory stand-in for ctx.db: IDs are "<table>:<n>"
+function fakeDb() {
+  const rows: Array<{ table: string; value: Record<string, unknown> }> = []
+  return {
+    rows,
+    insert: async (table: string, value: Record<string, unknown>) => {
+      rows.push({ table, value })
+      return `${table}:${rows.length}`
+    },
+    patch: async () => {},
+    replace: async () => {},
+    delete: async () => {},
+    normalizeId: (table: string, id: string) => (id.startsWith(`${table}:`) ? id : null),
+  }
+}
+
+const impersonation = {
+  _id: 'impersonations:1' as Id<'impersonations'>,
+  adminId: 'admin',
+  userId: 'user',
+} as Doc<'impersonations'>
+
+describe('auditWrites', () => {
+  it('records each write made through ctx.db', async () => {
+    const db = fakeDb()
+    const ctx = { db } as unknown as MutationCtx
+    auditWrites(ctx, impersonation)
+    // Calling it again must not record writes twice
+    auditWrites(ctx, impersonation)
+
+    const id = await ctx.db.insert('messages', { content: 'hi' })
+    await ctx.db.patch(id, { content: 'edited' })
+    await ctx.db.delete('messages', id)
+
+    const audit = db.rows.filter((row) => row.table === 'impersonationAudit')
+    expect(
+      audit.map((row) => [row.value.operation, row.value.table, row.value.documentId])
+    ).toEqual([
+      ['insert', 'messages', 'messages:1'],
+      ['patch', 'messages', 'messages:1'],
+      ['delete', 'messages', 'messages:1'],
+    ])
+    expect(audit[0]?.value).toMatchObject({
+      impersonationId: impersonation._id,
+      adminId: 'admin',
+      userId: 'user',
+    })
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Impersonation Helpers
+ * =====================
+ *
+ * While an admin (or a user with `users:impersonate`) impersonates someone
+ * (see ../impersonation.ts), `getAuthUser` returns the impersonated user, so
+ * every Convex function runs as them.
+ *
+ * Mutations run as the impersonated user have their `ctx.db` wrapped so that
+ * each insert, patch, replace and delete is recorded in `impersonationAudit`
+ * along with the admin who made it.
+ */
+
+import schema from '../schema'
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+import type { Doc, TableNames } from '../_generated/dataModel'
+
+type WriteOperation = Doc<'impersonationAudit'>['operation']
+
+const TABLE_NAMES = Object.keys(schema.tables) as TableNames[]
+
+// Contexts whose writes are already being recorded
+const auditedContexts = new WeakSet<MutationCtx>()
+
+/**
+ * Get the admin's active impersonation, if any.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param adminId - Better Auth user ID of the admin
+ * @returns The impersonation or null if none is active
+ */
+export async function getActiveImpersonation(
+  ctx: QueryCtx | MutationCtx,
+  adminId: string
+): Promise<Doc<'impersonations'> | null> {
+  // Expired sessions are closed by impersonation.expire, but may not have run yet
+  const now = Date.now()
+  return await ctx.db
+    .query('impersonations')
+    .withIndex('by_admin_ended', (q) => q.eq('adminId', adminId).eq('endedAt', undefined))
+    .filter((q) => q.gt(q.field('expiresAt'), now))
+    .first()
+}
+
+/**
+ * Record every write made through `ctx.db` for the rest of this mutation.
+ * Safe to call more than once per mutation.
+ *
+ * @param ctx - Convex mutation context
+ * @param impersonation - The active impersonation
+ */
+export function auditWrites(ctx: MutationCtx, impersonation: Doc<'impersonations'>) {
+  if (auditedContexts.has(ctx)) return
+  auditedContexts.add(ctx)
+
+  const db = ctx.db
+  const record = async (operation: WriteOperation, table: string, documentId: string) => {
+    await db.insert('impersonationAudit', {
+      impersonationId: impersonation._id,
+      adminId: impersonation.adminId,
+      userId: impersonation.userId,
+      operation,
+      table,
+      documentId,
+    })
+  }
+
+  // patch/replace/delete accept (id, ...) or (table, id, ...)
+  const getTarget = (args: unknown[]) => {
+    if (TABLE_NAMES.includes(args[0] as TableNames)) {
+      return { table: args[0] as string, id: args[1] as string }
+    }
+    const id = args[0] as string
+    const table = TABLE_NAMES.find((name) => db.normalizeId(name, id) !== null) ?? 'unknown'
+    return { table, id }
+  }
+
+  const wrapUpdate = (operation: Exclude<WriteOperation, 'insert'>) => {
+    const write = db[operation] as (...args: unknown[]) => Promise<void>
+    return async (...args: unknown[]) => {
+      const { table, id } = getTarget(args)
+      await write.apply(db, args)
+      await record(operation, table, id)
+    }
+  }
+
+  const writes: Record<WriteOperation, unknown> = {
+    insert: async (table: string, value: unknown) => {
+      const insert = db.insert as (table: string, value: unknown) => Promise<string>
+      const id = await insert.call(db, table, value)
+      await record('insert', table, id)
+      return id
+    },
+    patch: wrapUpdate('patch'),
+    replace: wrapUpdate('replace'),
+    delete: wrapUpdate('delete'),
+  }
+
+  ctx.db = new Proxy(db, {
+    get(target, property) {
+      if (property in writes) {
+        return writes[property as WriteOperation]
+      }
+      const value = Reflect.get(target, property, target)
+      return typeof value === 'function' ? value.bind(target) : value
+    },
+  })
+}
@@ -0,0 +1,71 @@
+/**
+ * Audit Middleware
+ * ================
+ *
+ * Wraps a mutation handler so each successful call is recorded in the
+ * `auditLog` table (see lib/audit.ts), with snapshots of the target before
+ * and after the handler runs.
+ *
+ * Usage:
+ * ```typescript
+ * import { withAudit } from './lib/middleware/withAudit'
+ *
+ * export const deleteAny = mutation({
+ *   args: { id: v.id('messages') },
+ *   handler: withAudit(
+ *     'messages.deleteAny',
+ *     async (ctx, args, user) => {
+ *       await trashWithReplies(ctx, await getLiveMessage(ctx, args.id), user._id)
+ *     },
+ *     {
+ *       permission: PERMISSIONS.MESSAGES_DELETE_ANY,
+ *       target: (args) => ({ table: 'messages', id: args.id }),
+ *     }
+ *   ),
+ * })
+ * ```
+ */
+
+import type { MutationCtx } from '../../_generated/server'
+import { requireAuth, requirePermission, type AuthUser } from '../authHelpers'
+import { recordAudit, snapshotDocument, type AuditTarget } from '../audit'
+import type { AuditAction, Permission } from '../config'
+
+export interface AuditOptions<Args> {
+  /** Permission the caller needs (default: any signed-in user) */
+  permission?: Permission
+  /** The document the mutation changes */
+  target?: (args: Args) => AuditTarget
+  /** Custom before/after snapshot (default: the target document) */
+  snapshot?: (ctx: MutationCtx, args: Args) => Promise<unknown>
+}
+
+/**
+ * Audit decorator
+ * Checks auth (and the permission), runs the handler and records the action.
+ * Nothing is recorded if the handler throws, since the mutation rolls back.
+ */
+export function withAudit<Args, Output>(
+  action: AuditAction,
+  handler: (ctx: MutationCtx, args: Args, user: AuthUser) => Promise<Output>,
+  options: AuditOptions<Args> = {}
+) {
+  return async (ctx: MutationCtx, args: Args): Promise<Output> => {
+    const user = options.permission
+      ? await requirePermission(ctx, options.permission)
+      : await requireAuth(ctx)
+
+    const target = options.target?.(args)
+    const snapshot = async () => {
+      if (options.snapshot) return await options.snapshot(ctx, args)
+      return target ? await snapshotDocument(ctx, target) : null
+    }
+
+    const before = await snapshot()
+    const result = await handler(ctx, args, user)
+    const after = await snapshot()
+
+    await recordAudit(ctx, { actor: user, action, target, before, after })
+    return result
+  }
+}
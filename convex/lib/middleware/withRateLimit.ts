@@ -44,8 +44,8 @@ export function withRateLimit<Args, Output>(
     // Determine rate limit key
     const key = options?.getKey?.(ctx, args, user) ?? user._id
 
-    // Check rate limit using the component
-    await rateLimiter.limit(ctx, operation, { key })
+    // Check rate limit using the component (throws a RateLimited ConvexError)
+    await rateLimiter.limit(ctx, operation, { key, throws: true })
 
     // Execute original handler
     return await handler(ctx, args, user)
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { redactHidden } from './moderation'
+import type { AuthUser } from './authHelpers'
+import type { Doc, Id } from '../_generated/dataModel'
+
+const message = {
+  _id: 'messages:1' as Id<'messages'>,
+  _creationTime: 0,
+  content: 'spam',
+  authorId: 'author',
+  hiddenAt: 1,
+} as Doc<'messages'>
+
+const user = (id: string) => ({ _id: id, name: id, email: `${id}@example.com` }) as AuthUser
+
+describe('redactHidden', () => {
+  it('blanks hidden messages for other users and signed-out visitors', () => {
+    expect(redactHidden(message, user('someone'), false).content).toBe('')
+    expect(redactHidden(message, null, false).content).toBe('')
+  })
+
+  it('shows hidden messages to their author and moderators', () => {
+    expect(redactHidden(message, user('author'), false).content).toBe('spam')
+    expect(redactHidden(message, user('moderator'), true).content).toBe('spam')
+  })
+
+  it('leaves visible messages alone', () => {
+    const visible = { ...message, hiddenAt: undefined }
+    expect(redactHidden(visible, null, false)).toBe(visible)
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Moderation Helpers
+ * ==================
+ *
+ * Checks shared by messages.ts and moderation.ts: whether a user is muted,
+ * and whether someone may read a message hidden by a moderator.
+ */
+
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+import type { Doc } from '../_generated/dataModel'
+import { hasPermission } from './authHelpers'
+import type { AuthUser } from './authHelpers'
+import { PERMISSIONS } from './config'
+
+/**
+ * Get a user's active mute, if any.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param userId - Better Auth user ID
+ * @returns The mute or null if the user isn't muted
+ */
+export async function getActiveMute(
+  ctx: QueryCtx | MutationCtx,
+  userId: string
+): Promise<Doc<'userMutes'> | null> {
+  const mute = await ctx.db
+    .query('userMutes')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .unique()
+  return mute && mute.expiresAt > Date.now() ? mute : null
+}
+
+/**
+ * Throw if the user has been muted by a moderator.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param userId - Better Auth user ID
+ * @throws Error with the time the mute ends
+ */
+export async function requireNotMuted(ctx: QueryCtx | MutationCtx, userId: string) {
+  const mute = await getActiveMute(ctx, userId)
+  if (mute) {
+    throw new Error(`You are muted until ${new Date(mute.expiresAt).toUTCString()}`)
+  }
+}
+
+/**
+ * Blank out the content of a hidden message unless the viewer is its author
+ * or can moderate messages.
+ *
+ * @param message - The message to return to the client
+ * @param viewer - The signed-in user, if any
+ * @param canModerate - Whether the viewer has `messages:moderate`
+ */
+export function redactHidden<T extends Doc<'messages'>>(
+  message: T,
+  viewer: AuthUser | null,
+  canModerate: boolean
+): T {
+  if (message.hiddenAt === undefined || canModerate || message.authorId === viewer?._id) {
+    return message
+  }
+  return { ...message, content: '' }
+}
+
+/**
+ * Whether the viewer can read hidden messages in full.
+ *
+ * @param ctx - Convex query or mutation context
+ * @param viewer - The signed-in user, if any
+ */
+export async function canModerate(ctx: QueryCtx | MutationCtx, viewer: AuthUser | null) {
+  return !!viewer && (await hasPermission(ctx, viewer, PERMISSIONS.MESSAGES_MODERATE))
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { getEnabledProviders, getSocialProviders, OAUTH_PROVIDERS } from './oauthProviders'
+
+// Start from a clean slate whatever is set in the test environment
+function clearProviderEnv() {
+  for (const { envPrefix } of OAUTH_PROVIDERS) {
+    vi.stubEnv(`${envPrefix}_CLIENT_ID`, '')
+    vi.stubEnv(`${envPrefix}_CLIENT_SECRET`, '')
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('oauth provider registry', () => {
+  it('enables only providers with both a client ID and secret', () => {
+    clearProviderEnv()
+    vi.stubEnv('GITHUB_CLIENT_ID', 'gh-id')
+    vi.stubEnv('GITHUB_CLIENT_SECRET', 'gh-secret')
+    vi.stubEnv('DISCORD_CLIENT_ID', 'discord-id')
+
+    expect(getEnabledProviders()).toEqual([{ id: 'github', name: 'GitHub' }])
+    expect(getSocialProviders()).toEqual({
+      github: { clientId: 'gh-id', clientSecret: 'gh-secret' },
+    })
+  })
+
+  it('adds provider-specific options', () => {
+    clearProviderEnv()
+    vi.stubEnv('MICROSOFT_CLIENT_ID', 'ms-id')
+    vi.stubEnv('MICROSOFT_CLIENT_SECRET', 'ms-secret')
+
+    expect(getSocialProviders().microsoft).toEqual({
+      clientId: 'ms-id',
+      clientSecret: 'ms-secret',
+      tenantId: 'common',
+    })
+  })
+})
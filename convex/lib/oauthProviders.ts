@@ -0,0 +1,81 @@
+/**
+ * OAuth Providers
+ * ===============
+ *
+ * Registry of the social sign-in providers this app supports. A provider is
+ * turned on automatically when both of its env vars are set in Convex:
+ *
+ * ```bash
+ * npx convex env set GITHUB_CLIENT_ID "..."
+ * npx convex env set GITHUB_CLIENT_SECRET "..."
+ * ```
+ *
+ * The sign-in page and the settings page list the enabled providers with
+ * `auth.providers`. To add another Better Auth provider, add an entry below.
+ */
+
+import type { BetterAuthOptions } from 'better-auth'
+
+interface ProviderDefinition {
+  /** Better Auth provider ID */
+  id: 'google' | 'github' | 'microsoft' | 'discord' | 'apple'
+  /** Shown on sign-in buttons */
+  name: string
+  /** Reads `<PREFIX>_CLIENT_ID` and `<PREFIX>_CLIENT_SECRET` */
+  envPrefix: string
+  /** Extra provider options from optional env vars */
+  options?: () => Record<string, string | undefined>
+}
+
+export const OAUTH_PROVIDERS: readonly ProviderDefinition[] = [
+  { id: 'google', name: 'Google', envPrefix: 'GOOGLE' },
+  { id: 'github', name: 'GitHub', envPrefix: 'GITHUB' },
+  {
+    id: 'microsoft',
+    name: 'Microsoft',
+    envPrefix: 'MICROSOFT',
+    // `common` accepts personal and work/school accounts
+    options: () => ({ tenantId: process.env.MICROSOFT_TENANT_ID || 'common' }),
+  },
+  { id: 'discord', name: 'Discord', envPrefix: 'DISCORD' },
+  {
+    id: 'apple',
+    name: 'Apple',
+    envPrefix: 'APPLE',
+    // APPLE_CLIENT_SECRET is the signed JWT generated from your Apple key
+    options: () => ({ appBundleIdentifier: process.env.APPLE_APP_BUNDLE_IDENTIFIER }),
+  },
+]
+
+export type OAuthProviderId = ProviderDefinition['id']
+
+/** An enabled provider, as listed to clients */
+export interface OAuthProvider {
+  id: OAuthProviderId
+  name: string
+}
+
+function getCredentials(provider: ProviderDefinition) {
+  const clientId = process.env[`${provider.envPrefix}_CLIENT_ID`]
+  const clientSecret = process.env[`${provider.envPrefix}_CLIENT_SECRET`]
+  return clientId && clientSecret ? { clientId, clientSecret } : null
+}
+
+/** Providers whose client ID and secret are both set */
+export function getEnabledProviders(): OAuthProvider[] {
+  return OAUTH_PROVIDERS.filter((provider) => getCredentials(provider) !== null).map(
+    ({ id, name }) => ({ id, name })
+  )
+}
+
+/** Better Auth `socialProviders` config for the enabled providers */
+export function getSocialProviders(): NonNullable<BetterAuthOptions['socialProviders']> {
+  const config: NonNullable<BetterAuthOptions['socialProviders']> = {}
+  for (const provider of OAUTH_PROVIDERS) {
+    const credentials = getCredentials(provider)
+    if (credentials) {
+      Object.assign(config, { [provider.id]: { ...credentials, ...provider.options?.() } })
+    }
+  }
+  return config
+}
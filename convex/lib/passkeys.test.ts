@@ -0,0 +1,333 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto'
+import { betterAuth } from 'better-auth/minimal'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import type { GenericCtx } from '@convex-dev/better-auth'
+import type { DataModel } from '../_generated/dataModel'
+import { createAuthOptions } from '../auth'
+import { EmailService } from './patterns/ServiceAdapter'
+import { getPasskeyOptions } from './passkeys'
+
+// auth.ts reads SITE_URL when it's imported
+const SITE_URL = vi.hoisted(() => (process.env.SITE_URL = 'https://app.example.com'))
+
+describe('getPasskeyOptions', () => {
+  it('uses the site hostname and origin as the relying party', () => {
+    expect(getPasskeyOptions('https://app.example.com/some/path')).toMatchObject({
+      rpID: 'app.example.com',
+      origin: 'https://app.example.com',
+    })
+    expect(getPasskeyOptions('http://localhost:3000')).toMatchObject({
+      rpID: 'localhost',
+      origin: 'http://localhost:3000',
+    })
+  })
+})
+
+// =============================================================================
+// Fake authenticator
+// =============================================================================
+
+const base64url = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64url')
+const sha256 = (data: Uint8Array) => createHash('sha256').update(data).digest()
+
+/** Just enough CBOR for attestation objects and COSE keys */
+function cbor(value: unknown): Buffer {
+  const head = (major: number, length: number) =>
+    length < 24
+      ? Buffer.from([(major << 5) | length])
+      : length < 256
+        ? Buffer.from([(major << 5) | 24, length])
+        : Buffer.from([(major << 5) | 25, length >> 8, length & 0xff])
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value)
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value)
+    return Buffer.concat([head(3, bytes.length), bytes])
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([head(2, value.length), value])
+  }
+  const entries = value instanceof Map ? [...value] : Object.entries(value as object)
+  return Buffer.concat([
+    head(5, entries.length),
+    ...entries.flatMap(([key, entry]) => [cbor(key), cbor(entry)]),
+  ])
+}
+
+/**
+ * A software passkey (ES256, no attestation) that answers WebAuthn challenges
+ * the way a browser and platform authenticator would.
+ */
+class FakeAuthenticator {
+  readonly credentialId = randomBytes(16)
+  private readonly keys = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+  private signCount = 0
+
+  constructor(private readonly origin = SITE_URL) {}
+
+  private clientData(type: string, challenge: string) {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false }))
+  }
+
+  private authenticatorData(rpID: string, flags: number, extra = Buffer.alloc(0)) {
+    const signCount = Buffer.alloc(4)
+    signCount.writeUInt32BE(this.signCount)
+    return Buffer.concat([sha256(Buffer.from(rpID)), Buffer.from([flags]), signCount, extra])
+  }
+
+  /** navigator.credentials.create() */
+  register(options: { challenge: string; rp: { id: string } }) {
+    const jwk = this.keys.publicKey.export({ format: 'jwk' })
+    const coseKey = new Map<number, number | Buffer>([
+      [1, 2], // kty: EC2
+      [3, -7], // alg: ES256
+      [-1, 1], // crv: P-256
+      [-2, Buffer.from(jwk.x!, 'base64url')],
+      [-3, Buffer.from(jwk.y!, 'base64url')],
+    ])
+    const credentialIdLength = Buffer.alloc(2)
+    credentialIdLength.writeUInt16BE(this.credentialId.length)
+    const attestedCredential = Buffer.concat([
+      Buffer.alloc(16), // AAGUID
+      credentialIdLength,
+      this.credentialId,
+      cbor(coseKey),
+    ])
+    // User present + user verified + attested credential data
+    const authData = this.authenticatorData(options.rp.id, 0x45, attestedCredential)
+
+    return {
+      id: base64url(this.credentialId),
+      rawId: base64url(this.credentialId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: base64url(this.clientData('webauthn.create', options.challenge)),
+        attestationObject: base64url(cbor({ fmt: 'none', attStmt: {}, authData })),
+        transports: ['internal'],
+      },
+      clientExtensionResults: {},
+      authenticatorAttachment: 'platform',
+    }
+  }
+
+  /** navigator.credentials.get() */
+  authenticate(options: { challenge: string; rpId: string }) {
+    this.signCount++
+    // User present + user verified
+    const authData = this.authenticatorData(options.rpId, 0x05)
+    const clientData = this.clientData('webauthn.get', options.challenge)
+    const signature = sign('sha256', Buffer.concat([authData, sha256(clientData)]), {
+      key: this.keys.privateKey,
+      dsaEncoding: 'der',
+    })
+
+    return {
+      id: base64url(this.credentialId),
+      rawId: base64url(this.credentialId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: base64url(clientData),
+        authenticatorData: base64url(authData),
+        signature: base64url(signature),
+      },
+      clientExtensionResults: {},
+      authenticatorAttachment: 'platform',
+    }
+  }
+}
+
+// =============================================================================
+// Auth server
+// =============================================================================
+
+// Nobody is banned, and emails go nowhere
+const ctx = {
+  runQuery: async () => false,
+  runMutation: async () => null,
+} as unknown as GenericCtx<DataModel>
+
+/**
+ * The app's Better Auth (createAuthOptions from convex/auth.ts) on an
+ * in-memory database instead of the Convex component. convex/http.ts
+ * forwards /api/auth/* requests to `auth.handler` the same way.
+ */
+function createTestAuth() {
+  const auth = betterAuth({
+    ...createAuthOptions(ctx),
+    secret: 'passkey-test-secret-that-is-long-enough',
+    database: memoryAdapter({
+      user: [],
+      session: [],
+      account: [],
+      verification: [],
+      twoFactor: [],
+      passkey: [],
+      jwks: [],
+    }),
+    logger: { disabled: true },
+  })
+
+  /** A browser tab: sends the site origin and keeps cookies between requests */
+  function browser() {
+    const cookies = new Map<string, string>()
+
+    return async function request(path: string, body?: unknown) {
+      const response = await auth.handler(
+        new Request(path.startsWith('/') ? `${SITE_URL}/api/auth${path}` : path, {
+          method: body === undefined ? 'GET' : 'POST',
+          headers: {
+            origin: SITE_URL,
+            cookie: [...cookies].map(([name, value]) => `${name}=${value}`).join('; '),
+            ...(body !== undefined && { 'content-type': 'application/json' }),
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        })
+      )
+      for (const header of response.headers.getSetCookie()) {
+        const [, name, value = ''] = /^([^=]+)=([^;]*)/.exec(header) ?? []
+        if (name) cookies.set(name, value)
+      }
+      const text = await response.text()
+      return { status: response.status, data: text ? JSON.parse(text) : null }
+    }
+  }
+
+  return { browser }
+}
+
+type Browser = ReturnType<ReturnType<typeof createTestAuth>['browser']>
+
+/** Sign up and follow the verification link, which signs the browser in */
+async function signUp(request: Browser, email = 'ada@example.com') {
+  const sendVerification = vi.spyOn(EmailService.prototype, 'sendVerification')
+  const { status } = await request('/sign-up/email', {
+    email,
+    password: 'correct horse battery',
+    name: 'Ada',
+  })
+  expect(status).toBe(200)
+
+  const [, url] = sendVerification.mock.lastCall ?? []
+  sendVerification.mockRestore()
+  expect(url).toBeDefined()
+  await request(url!)
+  expect((await request('/get-session')).data?.user.emailVerified).toBe(true)
+}
+
+async function registerPasskey(request: Browser, authenticator: FakeAuthenticator, name: string) {
+  const { data: options } = await request('/passkey/generate-register-options')
+  return request('/passkey/verify-registration', {
+    response: authenticator.register(options),
+    name,
+  })
+}
+
+async function signInWithPasskey(request: Browser, authenticator: FakeAuthenticator) {
+  const { data: options } = await request('/passkey/generate-authenticate-options')
+  return request('/passkey/verify-authentication', {
+    response: authenticator.authenticate(options),
+  })
+}
+
+describe('passkey sign-in', () => {
+  it('registers a named passkey and signs in with it', async () => {
+    const { browser } = createTestAuth()
+    const authenticator = new FakeAuthenticator()
+    const account = browser()
+    await signUp(account)
+
+    const registered = await registerPasskey(account, authenticator, 'MacBook')
+    expect(registered.status).toBe(200)
+    expect(registered.data).toMatchObject({
+      name: 'MacBook',
+      credentialID: base64url(authenticator.credentialId),
+    })
+
+    // A fresh browser with no session
+    const signIn = browser()
+    const result = await signInWithPasskey(signIn, authenticator)
+    expect(result.status).toBe(200)
+
+    const { data: session } = await signIn('/get-session')
+    expect(session.user.email).toBe('ada@example.com')
+  })
+
+  it('supports several passkeys per account that can be renamed and revoked', async () => {
+    const { browser } = createTestAuth()
+    const laptop = new FakeAuthenticator()
+    const phone = new FakeAuthenticator()
+    const account = browser()
+    await signUp(account)
+
+    await registerPasskey(account, laptop, 'Laptop')
+    const { data: phonePasskey } = await registerPasskey(account, phone, 'Phone')
+
+    const renamed = await account('/passkey/update-passkey', {
+      id: phonePasskey.id,
+      name: 'Work phone',
+    })
+    expect(renamed.data.passkey.name).toBe('Work phone')
+
+    const { data: listed } = await account('/passkey/list-user-passkeys')
+    expect(listed.map((passkey: { name: string }) => passkey.name).sort()).toEqual([
+      'Laptop',
+      'Work phone',
+    ])
+
+    expect((await account('/passkey/delete-passkey', { id: phonePasskey.id })).status).toBe(200)
+    expect((await signInWithPasskey(browser(), phone)).status).toBe(401)
+    expect((await signInWithPasskey(browser(), laptop)).status).toBe(200)
+  })
+
+  it("can't rename or revoke another user's passkey", async () => {
+    const { browser } = createTestAuth()
+    const owner = browser()
+    await signUp(owner)
+    const { data: ownerPasskey } = await registerPasskey(owner, new FakeAuthenticator(), 'Laptop')
+
+    const other = browser()
+    await signUp(other, 'grace@example.com')
+
+    expect(
+      (await other('/passkey/update-passkey', { id: ownerPasskey.id, name: 'Mine' })).status
+    ).toBe(401)
+    expect((await other('/passkey/delete-passkey', { id: ownerPasskey.id })).status).toBe(401)
+  })
+
+  it('rejects responses signed for another origin', async () => {
+    const { browser } = createTestAuth()
+    const account = browser()
+    await signUp(account)
+
+    const phishing = new FakeAuthenticator('https://app.example.com.evil.test')
+    const { data } = await registerPasskey(account, phishing, 'Phished')
+    expect(data.message).toBe('Failed to verify registration')
+    expect((await account('/passkey/list-user-passkeys')).data).toEqual([])
+  })
+
+  it('only accepts each challenge once', async () => {
+    const { browser } = createTestAuth()
+    const authenticator = new FakeAuthenticator()
+    const account = browser()
+    await signUp(account)
+    await registerPasskey(account, authenticator, 'Laptop')
+
+    const request = browser()
+    const { data: options } = await request('/passkey/generate-authenticate-options')
+    const response = authenticator.authenticate(options)
+    expect((await request('/passkey/verify-authentication', { response })).status).toBe(200)
+    const replayed = await request('/passkey/verify-authentication', { response })
+    expect(replayed.status).toBe(400)
+    expect(replayed.data.message).toBe('Challenge not found')
+  })
+
+  it('requires a signed-in user to register a passkey', async () => {
+    const { browser } = createTestAuth()
+    const { status } = await browser()('/passkey/generate-register-options')
+    expect(status).toBe(401)
+  })
+})
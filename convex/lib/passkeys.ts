@@ -0,0 +1,34 @@
+/**
+ * Passkeys
+ * ========
+ *
+ * WebAuthn relying party settings for the Better Auth passkey plugin. Passkeys
+ * are bound to the site the user sees, so the relying party is derived from
+ * SITE_URL rather than the Convex URL that serves the auth routes:
+ *
+ * - `rpID` is the site's hostname (`localhost` in development)
+ * - `origin` is checked against the browser's origin in every signed response
+ *
+ * The challenge/response flow runs through the Better Auth HTTP routes
+ * registered in convex/http.ts:
+ *
+ * 1. `GET /passkey/generate-register-options` (signed in) and
+ *    `POST /passkey/verify-registration` add a passkey
+ * 2. `GET /passkey/generate-authenticate-options` and
+ *    `POST /passkey/verify-authentication` sign in with one
+ *
+ * The challenge is kept server side and tied to the browser with a signed
+ * cookie, so each one can only be answered once.
+ */
+
+import type { PasskeyOptions } from '@better-auth/passkey'
+import { PASSKEY_RP_NAME } from './config'
+
+export function getPasskeyOptions(siteUrl: string): PasskeyOptions {
+  const url = new URL(siteUrl)
+  return {
+    rpID: url.hostname,
+    rpName: PASSKEY_RP_NAME,
+    origin: url.origin,
+  }
+}
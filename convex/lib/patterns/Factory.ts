@@ -229,6 +229,8 @@ export class ResponseFactory {
  */
 import { mutation } from '../../_generated/server'
 import { requireAuth, requireAdmin, type AuthUser } from '../authHelpers'
+import { withAudit, type AuditOptions } from '../middleware/withAudit'
+import type { AuditAction } from '../config'
 
 export class MutationFactory {
   /**
@@ -264,6 +266,22 @@ export class MutationFactory {
       },
     })
   }
+
+  /**
+   * Create a mutation recorded in the audit log (see lib/audit.ts)
+   * Checks `options.permission` if given, otherwise requires sign-in
+   */
+  static audited<Args extends PropertyValidators, Output>(
+    action: AuditAction,
+    args: Args,
+    handler: (ctx: MutationCtx, args: ObjectType<Args>, user: AuthUser) => Promise<Output>,
+    options?: AuditOptions<ObjectType<Args>>
+  ) {
+    return mutation({
+      args,
+      handler: withAudit(action, handler, options),
+    })
+  }
 }
 
 /**
@@ -104,6 +104,28 @@ export class MessageRepository extends Repository<'messages'> {
       .take(limit)
   }
 
+  /**
+   * Full-text search over message content (uses the `search_content` index).
+   * Results are ordered by relevance, trashed and hidden messages excluded.
+   * Optionally filter by exact author name.
+   */
+  async search(
+    text: string,
+    options: { authorName?: string; limit?: number } = {}
+  ): Promise<Doc<'messages'>[]> {
+    return await this.ctx.db
+      .query('messages')
+      .withSearchIndex('search_content', (q) => {
+        // Never return messages that are in the trash or hidden by a moderator
+        const search = q
+          .search('content', text)
+          .eq('deletedAt', undefined)
+          .eq('hiddenAt', undefined)
+        return options.authorName ? search.eq('authorName', options.authorName) : search
+      })
+      .take(options.limit ?? 20)
+  }
+
   /**
    * Get recent messages
    */
@@ -144,7 +166,7 @@ export class FileRepository extends Repository<'files'> {
     return await Promise.all(
       files.map(async (file) => ({
         ...file,
-        url: await this.ctx.storage.getUrl(file.storageId),
+        url: file.storageId ? await this.ctx.storage.getUrl(file.storageId) : null,
       }))
     )
   }
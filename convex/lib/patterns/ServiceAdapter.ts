@@ -23,7 +23,8 @@
  * ```
  */
 
-import type { MutationCtx } from '../../_generated/server'
+import type { ActionCtx, MutationCtx } from '../../_generated/server'
+import { MAGIC_LINK_EXPIRES_MINUTES } from '../config'
 
 /**
  * Email Service Interface
@@ -32,6 +33,8 @@ import type { MutationCtx } from '../../_generated/server'
 export interface IEmailService {
   sendWelcome(to: string, name: string): Promise<void>
   sendPasswordReset(to: string, token: string): Promise<void>
+  sendVerification(to: string, url: string): Promise<void>
+  sendMagicLink(to: string, url: string): Promise<void>
   sendNotification(to: string, subject: string, message: string): Promise<void>
 }
 
@@ -44,7 +47,8 @@ export interface IEmailService {
  * 3. Pass resend component to constructor
  */
 export class EmailService implements IEmailService {
-  constructor(private ctx: MutationCtx) {
+  // Better Auth sends its emails from HTTP actions, so accept both contexts
+  constructor(private ctx: MutationCtx | ActionCtx) {
     void this.ctx
   }
 
@@ -66,7 +70,7 @@ export class EmailService implements IEmailService {
   async sendPasswordReset(to: string, token: string) {
     const resetUrl = `${process.env.SITE_URL}/reset-password?token=${token}`
     void this.renderResetTemplate(resetUrl)
-    console.log(`[EMAIL] Password reset to ${to} (${resetUrl})`)
+    this.logLink('Password reset', to, resetUrl)
 
     // await this.send({
     //   to,
@@ -75,6 +79,28 @@ export class EmailService implements IEmailService {
     // })
   }
 
+  async sendVerification(to: string, url: string) {
+    void this.renderVerificationTemplate(url)
+    this.logLink('Email verification', to, url)
+
+    // await this.send({
+    //   to,
+    //   subject: 'Verify your email address',
+    //   html: this.renderVerificationTemplate(url),
+    // })
+  }
+
+  async sendMagicLink(to: string, url: string) {
+    void this.renderMagicLinkTemplate(url)
+    this.logLink('Magic link', to, url)
+
+    // await this.send({
+    //   to,
+    //   subject: 'Your sign-in link',
+    //   html: this.renderMagicLinkTemplate(url),
+    // })
+  }
+
   async sendNotification(to: string, subject: string, message: string) {
     console.log(`[EMAIL] Notification to ${to}: ${subject} - ${message}`)
 
@@ -85,6 +111,16 @@ export class EmailService implements IEmailService {
     // })
   }
 
+  /**
+   * Log an email that carries a sign-in link. The link works like a password,
+   * so it's only logged on deployments with LOG_EMAIL_LINKS=true (development,
+   * until an email provider is set up).
+   */
+  private logLink(purpose: string, to: string, url: string) {
+    const link = process.env.LOG_EMAIL_LINKS === 'true' ? ` (${url})` : ''
+    console.log(`[EMAIL] ${purpose} to ${to}${link}`)
+  }
+
   private renderWelcomeTemplate(name: string): string {
     return `
       <h1>Welcome, ${name}!</h1>
@@ -101,6 +137,23 @@ export class EmailService implements IEmailService {
       <p>This link expires in 1 hour.</p>
     `
   }
+
+  private renderVerificationTemplate(url: string): string {
+    return `
+      <h1>Verify your email address</h1>
+      <p>Click the link below to finish creating your account:</p>
+      <a href="${url}">Verify Email</a>
+    `
+  }
+
+  private renderMagicLinkTemplate(url: string): string {
+    return `
+      <h1>Sign in</h1>
+      <p>Click the link below to sign in. If you didn't ask for this, ignore this email.</p>
+      <a href="${url}">Sign In</a>
+      <p>This link expires in ${MAGIC_LINK_EXPIRES_MINUTES} minutes.</p>
+    `
+  }
 }
 
 /**
@@ -110,7 +163,7 @@ export class EmailService implements IEmailService {
 export class MockEmailService implements IEmailService {
   public sentEmails: Array<{
     to: string
-    type: 'welcome' | 'password_reset' | 'notification'
+    type: 'welcome' | 'password_reset' | 'verification' | 'magic_link' | 'notification'
     data: any
   }> = []
 
@@ -130,6 +183,22 @@ export class MockEmailService implements IEmailService {
     })
   }
 
+  async sendVerification(to: string, url: string) {
+    this.sentEmails.push({
+      to,
+      type: 'verification',
+      data: { url },
+    })
+  }
+
+  async sendMagicLink(to: string, url: string) {
+    this.sentEmails.push({
+      to,
+      type: 'magic_link',
+      data: { url },
+    })
+  }
+
   async sendNotification(to: string, subject: string, message: string) {
     this.sentEmails.push({
       to,
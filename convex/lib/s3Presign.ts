@@ -0,0 +1,134 @@
+/**
+ * S3 Presigned URLs
+ * =================
+ *
+ * AWS Signature Version 4 query-string signing using the Web Crypto API, so
+ * it runs in queries and mutations as well as actions. Works with any
+ * S3-compatible API (Cloudflare R2, MinIO, AWS S3) using path-style URLs.
+ *
+ * The payload is UNSIGNED-PAYLOAD, so a presigned URL can be used directly by
+ * a browser or by `fetch`. Besides `host`, headers passed in `headers` are
+ * signed and must be sent with exactly those values (e.g. `content-length`
+ * and `content-type` to pin an upload's size and type).
+ */
+
+export interface S3Credentials {
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+export interface PresignOptions {
+  method: 'GET' | 'PUT' | 'HEAD' | 'DELETE'
+  /** Full object URL, e.g. `https://<account>.r2.cloudflarestorage.com/<bucket>/<key>` */
+  url: string
+  credentials: S3Credentials
+  /** `auto` for R2 */
+  region: string
+  /** Seconds the URL stays valid (max 7 days) */
+  expiresIn: number
+  /** Extra query parameters to sign, e.g. `response-content-disposition` */
+  query?: Record<string, string>
+  /** Headers the request must be sent with */
+  headers?: Record<string, string>
+  /** Signing time (defaults to now) */
+  now?: Date
+}
+
+const encoder = new TextEncoder()
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(data)))
+}
+
+async function hmac(key: BufferSource, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data))
+}
+
+// RFC 3986 encoding: everything except unreserved characters
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+// yyyymmddThhmmssZ
+function amzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+/**
+ * Create a presigned URL for an S3 request.
+ */
+export async function presignS3Url(options: PresignOptions): Promise<string> {
+  const url = new URL(options.url)
+  const timestamp = amzDate(options.now ?? new Date())
+  const date = timestamp.slice(0, 8)
+  const scope = `${date}/${options.region}/s3/aws4_request`
+
+  const headers: Record<string, string> = { host: url.host }
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    headers[name.toLowerCase()] = value.trim()
+  }
+  const sortedHeaders = Object.entries(headers).sort(([a], [b]) => (a < b ? -1 : 1))
+  const signedHeaders = sortedHeaders.map(([name]) => name).join(';')
+
+  const params: Record<string, string> = {
+    ...options.query,
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${options.credentials.accessKeyId}/${scope}`,
+    'X-Amz-Date': timestamp,
+    'X-Amz-Expires': String(options.expiresIn),
+    'X-Amz-SignedHeaders': signedHeaders,
+  }
+  const canonicalQuery = Object.entries(params)
+    .sort(([a], [b]) => (a < b ? -1 : 1))
+    .map(([key, value]) => `${uriEncode(key)}=${uriEncode(value)}`)
+    .join('&')
+
+  // The path is already percent-encoded by URL; decode and re-encode each segment
+  const canonicalPath = url.pathname
+    .split('/')
+    .map((segment) => uriEncode(decodeURIComponent(segment)))
+    .join('/')
+
+  const canonicalRequest = [
+    options.method,
+    canonicalPath,
+    canonicalQuery,
+    sortedHeaders.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    'UNSIGNED-PAYLOAD',
+  ].join('\n')
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    timestamp,
+    scope,
+    await sha256Hex(canonicalRequest),
+  ].join('\n')
+
+  const dateKey = await hmac(encoder.encode(`AWS4${options.credentials.secretAccessKey}`), date)
+  const regionKey = await hmac(dateKey, options.region)
+  const serviceKey = await hmac(regionKey, 's3')
+  const signingKey = await hmac(serviceKey, 'aws4_request')
+  const signature = toHex(await hmac(signingKey, stringToSign))
+
+  return `${url.origin}${canonicalPath}?${canonicalQuery}&X-Amz-Signature=${signature}`
+}
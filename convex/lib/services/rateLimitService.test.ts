@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { isBucketRefilled, rateLimiter, RATE_LIMIT_DEFS } from './rateLimitService'
+import type { RunMutationCtx } from '@convex-dev/rate-limiter'
+
+const NOW = 1_000_000_000
+
+// Stand-in for the component: getValue answers from `buckets`, rateLimit
+// returns `status`, and every other mutation (key tracking) is recorded
+function fakeCtx(
+  buckets: Record<string, { value: number; ts: number }>,
+  status = { ok: true, retryAfter: undefined as number | undefined }
+) {
+  const tracked: unknown[] = []
+  const ctx = {
+    runQuery: async (_query: unknown, args: { key: string; config: unknown }) => ({
+      config: args.config,
+      shard: 0,
+      ...(buckets[args.key] ?? { value: 0, ts: 0 }),
+    }),
+    runMutation: async (_mutation: unknown, args: { config?: unknown }) => {
+      if (args.config) return status
+      tracked.push(args)
+      return null
+    },
+  } as unknown as RunMutationCtx
+  return { ctx, tracked }
+}
+
+describe('isBucketRefilled', () => {
+  // sendMessage refills 10 tokens a minute up to 15
+  const { capacity } = RATE_LIMIT_DEFS.sendMessage
+
+  it('keeps buckets that are still refilling', async () => {
+    const { ctx } = fakeCtx({
+      empty: { value: 0, ts: NOW - 30_000 },
+      recent: { value: capacity - 1, ts: NOW - 1_000 },
+    })
+    expect(await isBucketRefilled(ctx, 'sendMessage', 'empty', NOW)).toBe(false)
+    expect(await isBucketRefilled(ctx, 'sendMessage', 'recent', NOW)).toBe(false)
+  })
+
+  it('clears buckets that have refilled to capacity', async () => {
+    const { ctx } = fakeCtx({
+      idle: { value: 0, ts: NOW - 2 * 60_000 },
+      full: { value: capacity, ts: NOW },
+    })
+    expect(await isBucketRefilled(ctx, 'sendMessage', 'idle', NOW)).toBe(true)
+    expect(await isBucketRefilled(ctx, 'sendMessage', 'full', NOW)).toBe(true)
+  })
+})
+
+describe('rateLimiter.limit', () => {
+  it('records keys that took a token', async () => {
+    const { ctx, tracked } = fakeCtx({})
+    await rateLimiter.limit(ctx, 'sendMessage', { key: 'user-1' })
+    expect(tracked).toEqual([{ name: 'sendMessage', key: 'user-1' }])
+  })
+
+  it('records nothing when the limit is exceeded', async () => {
+    const { ctx, tracked } = fakeCtx({}, { ok: false, retryAfter: 1_000 })
+    await rateLimiter.limit(ctx, 'sendMessage', { key: 'user-1' })
+    expect(tracked).toEqual([])
+  })
+})
@@ -9,6 +9,10 @@
  * persist across function invocations. This component stores rate limit
  * state in the Convex database.
  *
+ * Every key that takes a token is recorded in `rateLimitKeys`, so the daily
+ * `compactRateLimits` job (see maintenance.ts) can clear buckets once they
+ * have fully refilled. A refilled bucket behaves exactly like a missing one.
+ *
  * Usage:
  * ```typescript
  * import { rateLimiter } from './lib/services/rateLimitService'
@@ -16,15 +20,23 @@
  * export const sendMessage = mutation({
  *   handler: async (ctx, args) => {
  *     const user = await requireAuth(ctx)
- *     await rateLimiter.limit(ctx, 'sendMessage', { key: user._id })
+ *     await rateLimiter.limit(ctx, 'sendMessage', { key: user._id, throws: true })
  *     // Continue with mutation logic
  *   }
  * })
  * ```
  */
 
-import { RateLimiter } from '@convex-dev/rate-limiter'
-import { components } from '../../_generated/api'
+import { calculateRateLimit, RateLimiter } from '@convex-dev/rate-limiter'
+import type {
+  RateLimitArgs,
+  RateLimitConfig,
+  RateLimitReturns,
+  RunMutationCtx,
+  RunQueryCtx,
+} from '@convex-dev/rate-limiter'
+import type { Expand } from 'convex/server'
+import { components, internal } from '../../_generated/api'
 
 /**
  * Rate limiter instance with predefined limits per operation.
@@ -50,6 +62,15 @@ export const RATE_LIMIT_DEFS = {
   // File deletion: 20 per minute
   deleteFile: { kind: 'token bucket' as const, rate: 20, period: 60_000, capacity: 25 },
 
+  // Reactions: 30 toggles per minute, burst up to 40
+  toggleReaction: { kind: 'token bucket' as const, rate: 30, period: 60_000, capacity: 40 },
+
+  // Message reports: 10 per hour
+  reportMessage: { kind: 'token bucket' as const, rate: 10, period: 3_600_000, capacity: 10 },
+
+  // Share links: 5 wrong passwords per link and visitor IP per 15 minutes
+  sharePassword: { kind: 'token bucket' as const, rate: 5, period: 15 * 60_000, capacity: 5 },
+
   // General API: 60 per minute
   apiCall: { kind: 'token bucket' as const, rate: 60, period: 60_000, capacity: 80 },
 
@@ -65,4 +86,48 @@ export const RATE_LIMIT_DEFS = {
 
 export type RateLimitName = keyof typeof RATE_LIMIT_DEFS
 
-export const rateLimiter = new RateLimiter(components.rateLimiter, RATE_LIMIT_DEFS)
+type Limits = typeof RATE_LIMIT_DEFS
+
+// Same as the options RateLimiter.limit takes
+type LimitOptions<Name extends string> = Expand<
+  Omit<RateLimitArgs, 'name' | 'config'> &
+    (Name extends keyof Limits ? object : { config: RateLimitConfig })
+>
+
+class TrackedRateLimiter extends RateLimiter<Limits> {
+  // Record the key once its bucket has been written
+  override async limit<Name extends string = keyof Limits & string>(
+    ctx: RunMutationCtx,
+    name: Name,
+    ...options: Name extends keyof Limits & string ? [LimitOptions<Name>?] : [LimitOptions<Name>]
+  ): Promise<RateLimitReturns> {
+    const status = await super.limit(ctx, name, ...options)
+    const key = options[0]?.key
+    if (status.ok && key !== undefined) {
+      await ctx.runMutation(internal.maintenance.trackRateLimitKey, { name, key })
+    }
+    return status
+  }
+}
+
+export const rateLimiter = new TrackedRateLimiter(components.rateLimiter, RATE_LIMIT_DEFS)
+
+/**
+ * Check if a key's bucket has fully refilled, using the component's own state.
+ *
+ * @param ctx - Convex context that can run queries
+ * @param name - Rate limit name
+ * @param key - Rate limit key
+ * @param now - Current time (ms since epoch)
+ * @returns true if clearing the bucket would change nothing
+ */
+export async function isBucketRefilled(
+  ctx: RunQueryCtx,
+  name: RateLimitName,
+  key: string,
+  now = Date.now()
+): Promise<boolean> {
+  const { config, value, ts } = await rateLimiter.getValue(ctx, name, { key })
+  const capacity = config.capacity ?? config.rate
+  return calculateRateLimit({ value, ts }, config, now).value >= capacity
+}
@@ -0,0 +1,221 @@
+/**
+ * Storage Service
+ * ===============
+ *
+ * Adapters for where uploaded file contents are stored, following the
+ * ServiceAdapter pattern (see ../patterns/ServiceAdapter.ts):
+ *
+ * - `ConvexStorageAdapter` - Convex `_storage` (default)
+ * - `R2StorageAdapter` - Cloudflare R2, or any S3-compatible API such as a
+ *   local MinIO, through presigned URLs
+ *
+ * The backend for new uploads is picked per deployment with the
+ * `STORAGE_BACKEND` env var (`convex` or `r2`). Each file records where it is
+ * stored (`files.objectKey` is set for R2), so files keep working after the
+ * backend is switched.
+ *
+ * R2 needs these env vars (`npx convex env set <VAR> "value"`):
+ * - `R2_ENDPOINT` - `https://<account-id>.r2.cloudflarestorage.com`, or `http://localhost:9000`
+ * - `R2_BUCKET` - Bucket name (`<worker_name>-storage` from infrastructure/main.tf)
+ * - `R2_ACCESS_KEY_ID`, `R2_SECRET_ACCESS_KEY` - R2 API token credentials
+ * - `R2_REGION` - Optional, defaults to `auto`
+ *
+ * Usage:
+ * ```typescript
+ * const storage = getStorageAdapter(ctx)
+ * const { uploadUrl, method, key } = await storage.createUpload({ size, contentType })
+ * ```
+ *
+ * `getMetadata` and `delete` on R2 make HTTP requests, so they can only be
+ * called from actions; mutations schedule `files.deleteObject` instead.
+ */
+
+import type { MutationCtx, QueryCtx } from '../../_generated/server'
+import type { Id } from '../../_generated/dataModel'
+import { presignS3Url } from '../s3Presign'
+import type { S3Credentials } from '../s3Presign'
+import { randomToken } from '../crypto'
+
+export type StorageBackend = 'convex' | 'r2'
+
+/** Presigned R2 URLs are valid for this long */
+const R2_URL_EXPIRY_SECONDS = 60 * 60
+
+/** Size and content type of a stored object */
+export interface StoredObjectMetadata {
+  size: number
+  contentType: string | null
+}
+
+/**
+ * Storage Adapter Interface
+ * Keys are `_storage` IDs for Convex and object keys for R2.
+ */
+export interface IStorageAdapter {
+  readonly backend: StorageBackend
+  /**
+   * URL (and HTTP method) the client uploads a new object to. R2 returns the
+   * object key and requires the size and type, which the upload must match.
+   */
+  createUpload(
+    object?: Partial<StoredObjectMetadata>
+  ): Promise<{ uploadUrl: string; method: 'POST' | 'PUT'; key?: string }>
+  /** Download URL, optionally served as an attachment with this file name */
+  getUrl(key: string, options?: { downloadName?: string }): Promise<string | null>
+  getMetadata(key: string): Promise<StoredObjectMetadata | null>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Convex Storage Adapter
+ * Uploads go through `ctx.storage.generateUploadUrl()`; the client gets the
+ * storage ID back from the upload response.
+ */
+export class ConvexStorageAdapter implements IStorageAdapter {
+  readonly backend = 'convex' as const
+
+  constructor(private ctx: QueryCtx | MutationCtx) {}
+
+  // Writes need a mutation context
+  private get writer() {
+    const storage = this.ctx.storage
+    if (!('generateUploadUrl' in storage)) {
+      throw new Error('Convex storage writes require a mutation')
+    }
+    return storage
+  }
+
+  async createUpload() {
+    return { uploadUrl: await this.writer.generateUploadUrl(), method: 'POST' as const }
+  }
+
+  async getUrl(key: string) {
+    return await this.ctx.storage.getUrl(key as Id<'_storage'>)
+  }
+
+  async getMetadata(key: string) {
+    const blob = await this.ctx.db.system.get(key as Id<'_storage'>)
+    return blob ? { size: blob.size, contentType: blob.contentType ?? null } : null
+  }
+
+  async delete(key: string) {
+    await this.writer.delete(key as Id<'_storage'>)
+  }
+}
+
+export interface R2Config {
+  endpoint: string
+  bucket: string
+  region: string
+  credentials: S3Credentials
+}
+
+/**
+ * R2 Storage Adapter
+ * Uses presigned URLs so file contents go directly between the browser and
+ * the bucket. The bucket needs a CORS rule allowing PUT and GET from SITE_URL.
+ */
+export class R2StorageAdapter implements IStorageAdapter {
+  readonly backend = 'r2' as const
+
+  constructor(private config: R2Config) {}
+
+  private objectUrl(key: string) {
+    return `${this.config.endpoint.replace(/\/+$/, '')}/${this.config.bucket}/${key}`
+  }
+
+  private async presign(
+    method: 'GET' | 'PUT' | 'HEAD' | 'DELETE',
+    key: string,
+    options: { query?: Record<string, string>; headers?: Record<string, string> } = {}
+  ) {
+    return await presignS3Url({
+      method,
+      url: this.objectUrl(key),
+      credentials: this.config.credentials,
+      region: this.config.region,
+      expiresIn: R2_URL_EXPIRY_SECONDS,
+      ...options,
+    })
+  }
+
+  async createUpload(object?: Partial<StoredObjectMetadata>) {
+    if (object?.size === undefined || !object.contentType) {
+      throw new Error('File size and type are required for R2 uploads')
+    }
+
+    // Signing the size and type stops the URL being reused for different contents
+    const key = randomToken()
+    const uploadUrl = await this.presign('PUT', key, {
+      headers: { 'content-length': String(object.size), 'content-type': object.contentType },
+    })
+    return { uploadUrl, method: 'PUT' as const, key }
+  }
+
+  async getUrl(key: string, options?: { downloadName?: string }) {
+    const query = options?.downloadName
+      ? {
+          'response-content-disposition': `attachment; filename*=UTF-8''${encodeURIComponent(options.downloadName)}`,
+        }
+      : undefined
+    return await this.presign('GET', key, { query })
+  }
+
+  async getMetadata(key: string) {
+    const response = await fetch(await this.presign('HEAD', key), { method: 'HEAD' })
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok) {
+      throw new Error(`R2 request failed with status ${response.status}`)
+    }
+    return {
+      size: Number(response.headers.get('Content-Length') ?? 0),
+      contentType: response.headers.get('Content-Type'),
+    }
+  }
+
+  async delete(key: string) {
+    const response = await fetch(await this.presign('DELETE', key), { method: 'DELETE' })
+    // Deleting a missing object succeeds with 204
+    if (!response.ok) {
+      throw new Error(`R2 request failed with status ${response.status}`)
+    }
+  }
+}
+
+/** Backend for new uploads, from the STORAGE_BACKEND env var */
+export function getStorageBackend(): StorageBackend {
+  return process.env.STORAGE_BACKEND === 'r2' ? 'r2' : 'convex'
+}
+
+/** R2 settings from env vars; throws if any are missing */
+export function getR2Config(): R2Config {
+  const missing = ['R2_ENDPOINT', 'R2_BUCKET', 'R2_ACCESS_KEY_ID', 'R2_SECRET_ACCESS_KEY'].filter(
+    (name) => !process.env[name]
+  )
+  if (missing.length > 0) {
+    throw new Error(`R2 storage is not configured. Missing env vars: ${missing.join(', ')}`)
+  }
+
+  return {
+    endpoint: process.env.R2_ENDPOINT!,
+    bucket: process.env.R2_BUCKET!,
+    region: process.env.R2_REGION || 'auto',
+    credentials: {
+      accessKeyId: process.env.R2_ACCESS_KEY_ID!,
+      secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
+    },
+  }
+}
+
+/**
+ * Get the storage adapter for a backend (defaults to the configured one).
+ * In actions, use `new R2StorageAdapter(getR2Config())` directly.
+ */
+export function getStorageAdapter(
+  ctx: QueryCtx | MutationCtx,
+  backend: StorageBackend = getStorageBackend()
+): IStorageAdapter {
+  return backend === 'r2' ? new R2StorageAdapter(getR2Config()) : new ConvexStorageAdapter(ctx)
+}
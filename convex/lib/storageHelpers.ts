@@ -0,0 +1,133 @@
+/**
+ * Storage Helpers
+ * ===============
+ *
+ * Shared checks for blobs in Convex file storage (`_storage`), the storage
+ * backend of a file, per-user storage quotas and file/folder names.
+ */
+
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+import type { Doc, Id } from '../_generated/dataModel'
+import { getRoleName } from './authHelpers'
+import type { AuthUser } from './authHelpers'
+import { ROLES, STORAGE_QUOTAS } from './config'
+import type { Role } from './config'
+import { FileRepository } from './patterns/Repository'
+import { getStorageAdapter } from './services/storageService'
+
+/**
+ * Whether any table still points at a storage blob.
+ * Blobs that are not referenced are deleted by the cleanup jobs,
+ * so add a check here for every table that stores a storage ID.
+ */
+export async function isStorageReferenced(
+  ctx: QueryCtx | MutationCtx,
+  storageId: Id<'_storage'>
+): Promise<boolean> {
+  const file = await ctx.db
+    .query('files')
+    .withIndex('by_storage', (q) => q.eq('storageId', storageId))
+    .first()
+  if (file) {
+    return true
+  }
+
+  const variant = await ctx.db
+    .query('fileVariants')
+    .withIndex('by_storage', (q) => q.eq('storageId', storageId))
+    .first()
+  if (variant) {
+    return true
+  }
+
+  const chunk = await ctx.db
+    .query('uploadChunks')
+    .withIndex('by_storage', (q) => q.eq('storageId', storageId))
+    .first()
+  return chunk !== null
+}
+
+/**
+ * Storage adapter and key for a file's contents: R2 when `objectKey` is set,
+ * Convex `_storage` otherwise (see lib/services/storageService.ts).
+ */
+export function getFileStorage(
+  ctx: QueryCtx | MutationCtx,
+  file: Pick<Doc<'files'>, 'storageId' | 'objectKey'>
+) {
+  if (file.objectKey) {
+    return { storage: getStorageAdapter(ctx, 'r2'), key: file.objectKey }
+  }
+  if (file.storageId) {
+    return { storage: getStorageAdapter(ctx, 'convex'), key: file.storageId }
+  }
+  throw new Error('File has no stored contents')
+}
+
+export interface StorageUsage {
+  /** Bytes used by the user's files (including the trash) */
+  used: number
+  /** Total bytes allowed */
+  quota: number
+  /** Bytes left (never negative) */
+  remaining: number
+}
+
+/** The admin's storage quota override for a user, if any */
+export async function getQuotaOverride(ctx: QueryCtx | MutationCtx, userId: string) {
+  return await ctx.db
+    .query('storageQuotas')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .unique()
+}
+
+/**
+ * Storage quota for a user: the admin override if one is set,
+ * otherwise the default for their role (STORAGE_QUOTAS).
+ */
+export async function getStorageQuota(ctx: QueryCtx | MutationCtx, user: AuthUser) {
+  const override = await getQuotaOverride(ctx, user._id)
+  if (override) {
+    return override.quotaBytes
+  }
+  // Custom roles get the default user quota
+  return STORAGE_QUOTAS[getRoleName(user) as Role] ?? STORAGE_QUOTAS[ROLES.USER]
+}
+
+/**
+ * Bytes used and remaining for a user.
+ */
+export async function getStorageUsage(
+  ctx: QueryCtx | MutationCtx,
+  user: AuthUser
+): Promise<StorageUsage> {
+  const used = await new FileRepository(ctx).getTotalStorageByUser(user._id)
+  const quota = await getStorageQuota(ctx, user)
+  return { used, quota, remaining: Math.max(0, quota - used) }
+}
+
+/**
+ * Trim a file or folder name and check its length. Throws if invalid.
+ */
+export function validateName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed || trimmed.length > 255) {
+    throw new Error('Name must be between 1 and 255 characters')
+  }
+  return trimmed
+}
+
+/**
+ * Get a folder owned by the user or throw.
+ */
+export async function getOwnFolder(
+  ctx: QueryCtx | MutationCtx,
+  user: AuthUser,
+  folderId: Id<'folders'>
+) {
+  const folder = await ctx.db.get(folderId)
+  if (!folder || folder.ownerId !== user._id) {
+    throw new Error('Folder not found')
+  }
+  return folder
+}
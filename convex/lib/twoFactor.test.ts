@@ -0,0 +1,163 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+import { createHmac } from 'node:crypto'
+import { betterAuth } from 'better-auth/minimal'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import type { GenericCtx } from '@convex-dev/better-auth'
+import type { DataModel } from '../_generated/dataModel'
+import { createAuthOptions } from '../auth'
+import { EmailService } from './patterns/ServiceAdapter'
+
+// auth.ts reads SITE_URL when it's imported
+const SITE_URL = vi.hoisted(() => (process.env.SITE_URL = 'https://app.example.com'))
+const PASSWORD = 'correct horse battery'
+
+// Nobody is banned, and emails go nowhere
+const ctx = {
+  runQuery: async () => false,
+  runMutation: async () => null,
+} as unknown as GenericCtx<DataModel>
+
+/** The current code an authenticator app shows for an otpauth:// URI */
+function totp(uri: string) {
+  const secret = new URL(uri).searchParams.get('secret')!
+  const bits = [...secret]
+    .map((char) => 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'.indexOf(char).toString(2).padStart(5, '0'))
+    .join('')
+  const key = Buffer.from(bits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)))
+
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 30_000)))
+  const hmac = createHmac('sha1', key).update(counter).digest()
+  const offset = hmac[hmac.length - 1]! & 0xf
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000).padStart(6, '0')
+}
+
+/** The app's Better Auth on an in-memory database, as in passkeys.test.ts */
+function createTestAuth() {
+  const auth = betterAuth({
+    ...createAuthOptions(ctx),
+    secret: 'two-factor-test-secret-that-is-long-enough',
+    database: memoryAdapter({
+      user: [],
+      session: [],
+      account: [],
+      verification: [],
+      twoFactor: [],
+      passkey: [],
+      jwks: [],
+    }),
+    logger: { disabled: true },
+  })
+
+  /** A browser tab: sends the site origin and keeps cookies between requests */
+  function browser() {
+    const cookies = new Map<string, string>()
+
+    async function request(path: string, body?: unknown) {
+      const response = await auth.handler(
+        new Request(path.startsWith('/') ? `${SITE_URL}/api/auth${path}` : path, {
+          method: body === undefined ? 'GET' : 'POST',
+          headers: {
+            origin: SITE_URL,
+            cookie: [...cookies].map(([name, value]) => `${name}=${value}`).join('; '),
+            ...(body !== undefined && { 'content-type': 'application/json' }),
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        })
+      )
+      for (const header of response.headers.getSetCookie()) {
+        const [, name, value = ''] = /^([^=]+)=([^;]*)/.exec(header) ?? []
+        if (name && value) cookies.set(name, value)
+        else if (name) cookies.delete(name)
+      }
+      const text = await response.text()
+      return {
+        status: response.status,
+        location: response.headers.get('location'),
+        data: text ? JSON.parse(text) : null,
+      }
+    }
+
+    const signedInUser = async () => (await request('/get-session')).data?.user ?? null
+    const hasConvexToken = () => [...cookies.keys()].some((name) => name.endsWith('convex_jwt'))
+    return { request, signedInUser, hasConvexToken }
+  }
+
+  return { browser }
+}
+
+type Browser = ReturnType<ReturnType<typeof createTestAuth>['browser']>
+
+/** The link from the last email sent with `method` */
+async function emailedLink(method: 'sendVerification' | 'sendMagicLink', send: () => unknown) {
+  const spy = vi.spyOn(EmailService.prototype, method)
+  await send()
+  const [, url] = spy.mock.lastCall ?? []
+  spy.mockRestore()
+  expect(url).toBeDefined()
+  return url!
+}
+
+/** Sign up, verify the email and return the authenticator app URI if 2FA is turned on */
+async function signUp({ request }: Browser, email: string, withTwoFactor: boolean) {
+  await request(
+    await emailedLink('sendVerification', () =>
+      request('/sign-up/email', { email, password: PASSWORD, name: 'Ada' })
+    )
+  )
+  if (!withTwoFactor) return null
+
+  const { data } = await request('/two-factor/enable', { password: PASSWORD })
+  expect((await request('/two-factor/verify-totp', { code: totp(data.totpURI) })).status).toBe(200)
+  return data.totpURI as string
+}
+
+async function openMagicLink({ request }: Browser, email: string) {
+  return request(
+    await emailedLink('sendMagicLink', () =>
+      request('/sign-in/magic-link', { email, callbackURL: '/dashboard' })
+    )
+  )
+}
+
+describe('two-factor sign-in', () => {
+  it('asks for a code after a magic link', async () => {
+    const { browser } = createTestAuth()
+    const totpURI = (await signUp(browser(), 'ada@example.com', true))!
+
+    const tab = browser()
+    const response = await openMagicLink(tab, 'ada@example.com')
+    expect(response.location).toBe(`${SITE_URL}/two-factor`)
+    expect(await tab.signedInUser()).toBeNull()
+    expect(tab.hasConvexToken()).toBe(false)
+
+    expect((await tab.request('/two-factor/verify-totp', { code: '000000' })).status).toBe(401)
+    expect((await tab.request('/two-factor/verify-totp', { code: totp(totpURI) })).status).toBe(200)
+    expect((await tab.signedInUser())?.email).toBe('ada@example.com')
+  })
+
+  it('signs users without two-factor straight in', async () => {
+    const { browser } = createTestAuth()
+    await signUp(browser(), 'grace@example.com', false)
+
+    const tab = browser()
+    const response = await openMagicLink(tab, 'grace@example.com')
+    expect(response.location).toBe(`${SITE_URL}/dashboard`)
+    expect((await tab.signedInUser())?.email).toBe('grace@example.com')
+    expect(tab.hasConvexToken()).toBe(true)
+  })
+
+  it('still asks after email + password sign-in', async () => {
+    const { browser } = createTestAuth()
+    await signUp(browser(), 'ada@example.com', true)
+
+    const tab = browser()
+    const { data } = await tab.request('/sign-in/email', {
+      email: 'ada@example.com',
+      password: PASSWORD,
+    })
+    expect(data).toMatchObject({ twoFactorRedirect: true })
+    expect(await tab.signedInUser()).toBeNull()
+  })
+})
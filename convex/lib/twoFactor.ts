@@ -0,0 +1,71 @@
+/**
+ * Two-Factor Sign-In
+ * ==================
+ *
+ * Better Auth's twoFactor plugin only asks for an authenticator code after
+ * email + password sign-in. This plugin adds the same second step to the
+ * other ways of signing in, so enabling two-factor authentication protects
+ * the account rather than just the password:
+ *
+ * - `GET /magic-link/verify` (the link in the sign-in email)
+ * - `GET /callback/:id` (OAuth providers)
+ *
+ * For users with two-factor enabled, the new session is dropped and the
+ * browser is sent to /two-factor with the same pending sign-in cookie the
+ * twoFactor plugin sets, so the page works for every method. Passkey sign-in
+ * stays single step (see docs/AUTH_SOLUTION.md).
+ */
+
+import type { BetterAuthPlugin } from 'better-auth'
+import { createAuthMiddleware } from 'better-auth/api'
+import { deleteSessionCookie } from 'better-auth/cookies'
+import { generateRandomString } from 'better-auth/crypto'
+
+const REDIRECT_SIGN_IN_PATHS = ['/magic-link/verify', '/callback/:id']
+
+// Cookie the twoFactor plugin reads the pending sign-in from, and how long it
+// keeps one after a password sign-in
+const TWO_FACTOR_COOKIE_NAME = 'two_factor'
+const PENDING_SIGN_IN_SECONDS = 3 * 60
+
+export function requireTwoFactor() {
+  return {
+    id: 'require-two-factor',
+    hooks: {
+      after: [
+        {
+          matcher: (ctx) => REDIRECT_SIGN_IN_PATHS.includes(ctx.path ?? ''),
+          handler: createAuthMiddleware(async (ctx) => {
+            const data = ctx.context.newSession
+            if (!(data?.user as { twoFactorEnabled?: boolean } | undefined)?.twoFactorEnabled) {
+              return
+            }
+
+            // Drop the session before later hooks (the Convex JWT cookie) see it
+            deleteSessionCookie(ctx, true)
+            await ctx.context.internalAdapter.deleteSession(data!.session.token)
+            ctx.context.newSession = null
+
+            const identifier = `2fa-${generateRandomString(20)}`
+            await ctx.context.internalAdapter.createVerificationValue({
+              value: data!.user.id,
+              identifier,
+              expiresAt: new Date(Date.now() + PENDING_SIGN_IN_SECONDS * 1000),
+            })
+            const cookie = ctx.context.createAuthCookie(TWO_FACTOR_COOKIE_NAME, {
+              maxAge: PENDING_SIGN_IN_SECONDS,
+            })
+            await ctx.setSignedCookie(
+              cookie.name,
+              identifier,
+              ctx.context.secret,
+              cookie.attributes
+            )
+
+            throw ctx.redirect(new URL('/two-factor', ctx.context.options.baseURL).toString())
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+}
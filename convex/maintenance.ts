@@ -0,0 +1,186 @@
+import { internalMutation } from './_generated/server'
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import { ADMIN_EMAILS, ORPHANED_BLOB_GRACE_HOURS } from './lib/config'
+import { ServiceFactory } from './lib/patterns/ServiceAdapter'
+import { isBucketRefilled, rateLimiter, RATE_LIMIT_DEFS } from './lib/services/rateLimitService'
+import type { RateLimitName } from './lib/services/rateLimitService'
+import { isStorageReferenced } from './lib/storageHelpers'
+
+const HOUR = 60 * 60 * 1000
+const ORPHAN_SCAN_BATCH_SIZE = 100
+const RATE_LIMIT_SCAN_BATCH_SIZE = 100
+const MESSAGE_BACKFILL_BATCH_SIZE = 100
+
+// Delete storage blobs with no matching `files` row (uploads where saveFile
+// was never called). Blobs younger than ORPHANED_BLOB_GRACE_HOURS are skipped
+// so in-flight uploads are not removed. Pages through _storage and
+// reschedules itself until every blob has been checked.
+export const purgeOrphanedBlobs = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args): Promise<{ checked: number; deleted: number }> => {
+    const cutoff = Date.now() - ORPHANED_BLOB_GRACE_HOURS * HOUR
+
+    const page = await ctx.db.system
+      .query('_storage')
+      .withIndex('by_creation_time', (q) => q.lt('_creationTime', cutoff))
+      .paginate({ numItems: ORPHAN_SCAN_BATCH_SIZE, cursor: args.cursor ?? null })
+
+    let deleted = 0
+    for (const blob of page.page) {
+      if (!(await isStorageReferenced(ctx, blob._id))) {
+        await ctx.storage.delete(blob._id)
+        deleted++
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.maintenance.purgeOrphanedBlobs, {
+        cursor: page.continueCursor,
+      })
+    }
+
+    return { checked: page.page.length, deleted }
+  },
+})
+
+// Remember a key that has taken a rate limit token (called by rateLimiter.limit)
+export const trackRateLimitKey = internalMutation({
+  args: {
+    name: v.string(),
+    key: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('rateLimitKeys')
+      .withIndex('by_name_key', (q) => q.eq('name', args.name).eq('key', args.key))
+      .unique()
+    if (!existing) {
+      await ctx.db.insert('rateLimitKeys', args)
+    }
+  },
+})
+
+// Clear the rate limit buckets that have fully refilled, going by each
+// bucket's own value and timestamp, so limits still in effect are kept.
+// Pages through rateLimitKeys and reschedules itself until every key has
+// been checked.
+export const compactRateLimits = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args): Promise<{ checked: number; cleared: number }> => {
+    const page = await ctx.db
+      .query('rateLimitKeys')
+      .paginate({ numItems: RATE_LIMIT_SCAN_BATCH_SIZE, cursor: args.cursor ?? null })
+
+    let cleared = 0
+    for (const { _id, name, key } of page.page) {
+      // Limits removed from RATE_LIMIT_DEFS have nothing left to enforce
+      const known = name in RATE_LIMIT_DEFS
+      if (known && !(await isBucketRefilled(ctx, name as RateLimitName, key))) continue
+      if (known) {
+        await rateLimiter.reset(ctx, name as RateLimitName, { key })
+      }
+      await ctx.db.delete(_id)
+      cleared++
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.maintenance.compactRateLimits, {
+        cursor: page.continueCursor,
+      })
+    }
+
+    return { checked: page.page.length, cleared }
+  },
+})
+
+// Recount every message's replyCount and openReportCount, and set reportedAt
+// for messages with open reports. Run once with
+// `npx convex run maintenance:backfillMessageCounts` on deployments with
+// messages from before the counters existed. Pages through messages and
+// reschedules itself until all of them are done.
+export const backfillMessageCounts = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args): Promise<{ checked: number; updated: number }> => {
+    const page = await ctx.db
+      .query('messages')
+      .paginate({ numItems: MESSAGE_BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null })
+
+    let updated = 0
+    for (const message of page.page) {
+      // A trashed top-level message counts the replies trashed with it
+      const replies = message.parentId
+        ? []
+        : await ctx.db
+            .query('messages')
+            .withIndex('by_parent_deleted', (q) =>
+              q.eq('parentId', message._id).eq('deletedAt', message.deletedAt)
+            )
+            .collect()
+      const reports = await ctx.db
+        .query('messageReports')
+        .withIndex('by_message_status', (q) => q.eq('messageId', message._id).eq('status', 'open'))
+        .collect()
+
+      const replyCount = message.parentId ? undefined : replies.length
+      const reportedAt = reports[0]?._creationTime
+      if (
+        message.replyCount !== replyCount ||
+        message.openReportCount !== reports.length ||
+        message.reportedAt !== reportedAt
+      ) {
+        await ctx.db.patch(message._id, {
+          replyCount,
+          openReportCount: reports.length,
+          reportedAt,
+        })
+        updated++
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.maintenance.backfillMessageCounts, {
+        cursor: page.continueCursor,
+      })
+    }
+
+    return { checked: page.page.length, updated }
+  },
+})
+
+// Email admins a summary of the last 24 hours of activity
+export const sendDailyDigest = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ messages: number; files: number; recipients: number }> => {
+    const since = Date.now() - 24 * HOUR
+
+    const messages = await ctx.db
+      .query('messages')
+      .withIndex('by_creation_time', (q) => q.gte('_creationTime', since))
+      .collect()
+    const files = await ctx.db
+      .query('files')
+      .withIndex('by_creation_time', (q) => q.gte('_creationTime', since))
+      .collect()
+
+    const newMessages = messages.filter((m) => m.deletedAt === undefined).length
+    const newFiles = files.filter((f) => f.deletedAt === undefined).length
+
+    const emailService = new ServiceFactory(ctx).getEmailService()
+    for (const email of ADMIN_EMAILS) {
+      await emailService.sendNotification(
+        email,
+        'Daily digest',
+        `In the last 24 hours: ${newMessages} new messages and ${newFiles} new files.`
+      )
+    }
+
+    return { messages: newMessages, files: newFiles, recipients: ADMIN_EMAILS.length }
+  },
+})
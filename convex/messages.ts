@@ -1,84 +1,410 @@
-import { query, mutation, type MutationCtx } from './_generated/server'
+import {
+  query,
+  mutation,
+  internalMutation,
+  type QueryCtx,
+  type MutationCtx,
+} from './_generated/server'
 import { v } from 'convex/values'
-import { requireAuth, requireAdmin } from './lib/authHelpers'
-import { authComponent } from './auth'
+import { paginationOptsValidator } from 'convex/server'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import { requireAuth, requirePermission, getAuthUserSafe, hasPermission } from './lib/authHelpers'
+import { PERMISSIONS, TRASH_RETENTION_DAYS, TRASH_PURGE_BATCH_SIZE } from './lib/config'
 import { rateLimiter } from './lib/services/rateLimitService'
+import { canModerate, redactHidden, requireNotMuted } from './lib/moderation'
+import { recordAudit } from './lib/audit'
+import { withAudit } from './lib/middleware/withAudit'
+import { getReactionSummary } from './reactions'
+import { MessageRepository } from './lib/patterns/Repository'
 
-// List all messages (public)
+// Validate message content and return it trimmed
+function validateContent(content: string) {
+  const trimmed = content.trim()
+  if (trimmed.length === 0) throw new Error('Message cannot be empty')
+  if (trimmed.length > 2000) throw new Error('Message too long (max 2000 characters)')
+  return trimmed
+}
+
+// Get a message that is not in the trash. Throws if missing or deleted.
+async function getLiveMessage(ctx: QueryCtx, id: Id<'messages'>) {
+  const message = await ctx.db.get(id)
+  if (!message || message.deletedAt !== undefined) {
+    throw new Error('Message not found')
+  }
+  return message
+}
+
+// Get the (non-deleted) replies of a thread, oldest first
+async function getReplies(ctx: QueryCtx, parentId: Id<'messages'>) {
+  return await ctx.db
+    .query('messages')
+    .withIndex('by_parent_deleted', (q) => q.eq('parentId', parentId).eq('deletedAt', undefined))
+    .order('asc')
+    .collect()
+}
+
+// Add `delta` to a thread root's replyCount
+async function adjustReplyCount(ctx: MutationCtx, parentId: Id<'messages'>, delta: number) {
+  const parent = await ctx.db.get(parentId)
+  if (parent) {
+    await ctx.db.patch(parentId, { replyCount: Math.max(0, (parent.replyCount ?? 0) + delta) })
+  }
+}
+
+// Move a message to the trash.
+// Trashing a top-level message trashes its replies with the same timestamp,
+// so restoring the message brings back exactly those replies (and its
+// replyCount stays as it is).
+export async function trashWithReplies(ctx: MutationCtx, message: Doc<'messages'>, userId: string) {
+  const trashed = { deletedAt: Date.now(), deletedBy: userId }
+  if (message.parentId) {
+    await adjustReplyCount(ctx, message.parentId, -1)
+  } else {
+    const replies = await getReplies(ctx, message._id)
+    await Promise.all(replies.map((reply) => ctx.db.patch(reply._id, trashed)))
+  }
+  await ctx.db.patch(message._id, trashed)
+}
+
+// Permanently delete a message together with its revisions, reactions and reports.
+async function deleteMessage(ctx: MutationCtx, messageId: Id<'messages'>) {
+  const revisions = await ctx.db
+    .query('messageRevisions')
+    .withIndex('by_message', (q) => q.eq('messageId', messageId))
+    .collect()
+  const reactions = await ctx.db
+    .query('reactions')
+    .withIndex('by_message', (q) => q.eq('messageId', messageId))
+    .collect()
+  const reports = await ctx.db
+    .query('messageReports')
+    .withIndex('by_message_status', (q) => q.eq('messageId', messageId))
+    .collect()
+  await Promise.all([
+    ...revisions.map((revision) => ctx.db.delete(revision._id)),
+    ...reactions.map((reaction) => ctx.db.delete(reaction._id)),
+    ...reports.map((report) => ctx.db.delete(report._id)),
+  ])
+  await ctx.db.delete(messageId)
+}
+
+// List top-level messages, newest first (public, cursor-paginated)
+// Use with `usePaginatedQuery` or `usePaginatedMessages` on the client
+// Hidden messages are blanked for everyone but their author and moderators
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
-    return await ctx.db.query('messages').order('desc').take(50)
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserSafe(ctx)
+    const viewerCanModerate = await canModerate(ctx, user)
+    const result = await ctx.db
+      .query('messages')
+      .withIndex('by_parent_deleted', (q) => q.eq('parentId', undefined).eq('deletedAt', undefined))
+      .order('desc')
+      .paginate(args.paginationOpts)
+
+    // Attach reply counts (thread toggles) and reaction counts (reaction bar)
+    const page = await Promise.all(
+      result.page.map(async (message) => ({
+        ...redactHidden(message, user, viewerCanModerate),
+        replyCount: message.replyCount ?? 0,
+        reactions: await getReactionSummary(ctx, message._id, user?._id),
+      }))
+    )
+
+    return { ...result, page }
   },
 })
 
-// Send a new message (anyone can send, rate limited)
+// List the replies of a top-level message, oldest first (public)
+export const listThread = query({
+  args: {
+    parentId: v.id('messages'),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthUserSafe(ctx)
+    const viewerCanModerate = await canModerate(ctx, user)
+    const replies = await getReplies(ctx, args.parentId)
+
+    return await Promise.all(
+      replies.map(async (reply) => ({
+        ...redactHidden(reply, user, viewerCanModerate),
+        reactions: await getReactionSummary(ctx, reply._id, user?._id),
+      }))
+    )
+  },
+})
+
+// Full-text search over message content, best matches first (public)
+// Optionally restricted to one author's messages; hidden messages are excluded
+export const search = query({
+  args: {
+    query: v.string(),
+    authorName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const trimmed = args.query.trim()
+    if (trimmed.length === 0) return []
+
+    const repo = new MessageRepository(ctx)
+    return await repo.search(trimmed, { authorName: args.authorName?.trim() || undefined })
+  },
+})
+
+// Send a new message or reply (anyone can send, rate limited)
 export const send = mutation({
   args: {
     content: v.string(),
+    parentId: v.optional(v.id('messages')),
   },
   handler: async (ctx: MutationCtx, args) => {
     // Content validation
-    const trimmed = args.content.trim()
-    if (trimmed.length === 0) throw new Error('Message cannot be empty')
-    if (trimmed.length > 2000) throw new Error('Message too long (max 2000 characters)')
-
-    // Get user if authenticated (but don't require it)
-    let user = null
-    try {
-      user = await authComponent.getAuthUser(ctx)
-    } catch {
-      // Not authenticated, that's ok
+    const trimmed = validateContent(args.content)
+
+    // Threads are one level deep: replying to a reply joins the root thread
+    let parentId: Id<'messages'> | undefined
+    if (args.parentId) {
+      const parent = await getLiveMessage(ctx, args.parentId)
+      parentId = parent.parentId ?? parent._id
+    }
+
+    // Get user if authenticated (but don't require it). While impersonating,
+    // this is the impersonated user and the insert is audited.
+    const user = await getAuthUserSafe(ctx)
+
+    // Muted users can't post (see moderation.ts)
+    if (user) {
+      await requireNotMuted(ctx, user._id)
     }
 
     // Rate limit: use user ID if authenticated, otherwise use a generic key
     const rateLimitKey = user?._id || 'anonymous'
-    await rateLimiter.limit(ctx, 'sendMessage', { key: rateLimitKey })
+    await rateLimiter.limit(ctx, 'sendMessage', { key: rateLimitKey, throws: true })
 
-    return await ctx.db.insert('messages', {
+    const id = await ctx.db.insert('messages', {
       content: trimmed,
       authorId: user?._id,
       authorName: user?.name ?? 'Anonymous',
+      parentId,
     })
+    if (parentId) {
+      await adjustReplyCount(ctx, parentId, 1)
+    }
+    return id
   },
 })
 
-// Delete own message (author only)
-export const remove = mutation({
+// Edit own message (author only)
+// The previous content is kept in messageRevisions
+export const edit = mutation({
   args: {
     id: v.id('messages'),
+    content: v.string(),
   },
   handler: async (ctx, args) => {
     const user = await requireAuth(ctx)
+    await requireNotMuted(ctx, user._id)
+    const trimmed = validateContent(args.content)
 
-    const message = await ctx.db.get(args.id)
-    if (!message) {
-      throw new Error('Message not found')
+    const message = await getLiveMessage(ctx, args.id)
+
+    if (message.authorId !== user._id) {
+      throw new Error('Not authorized to edit this message')
     }
 
+    // Nothing changed — don't record an empty revision
+    if (trimmed === message.content) return
+
+    await ctx.db.insert('messageRevisions', {
+      messageId: message._id,
+      content: message.content,
+      editedBy: user._id,
+    })
+    await ctx.db.patch(message._id, { content: trimmed, editedAt: Date.now() })
+  },
+})
+
+// List earlier versions of a message, oldest first (messages:history:read)
+export const listRevisions = query({
+  args: {
+    messageId: v.id('messages'),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, PERMISSIONS.MESSAGES_HISTORY_READ)
+
+    return await ctx.db
+      .query('messageRevisions')
+      .withIndex('by_message', (q) => q.eq('messageId', args.messageId))
+      .order('asc')
+      .collect()
+  },
+})
+
+// Move own message to the trash (author only)
+// Trashing a top-level message also trashes its replies
+export const remove = mutation({
+  args: {
+    id: v.id('messages'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+
+    const message = await getLiveMessage(ctx, args.id)
+
     if (message.authorId !== user._id) {
       throw new Error('Not authorized to delete this message')
     }
 
-    await ctx.db.delete(args.id)
+    await trashWithReplies(ctx, message, user._id)
   },
 })
 
-// Delete any message (admin only)
-// Example of admin-only mutation using RBAC
+// Move any message to the trash (messages:delete:any, audited)
+// Example of a permission-checked mutation
 export const deleteAny = mutation({
+  args: {
+    id: v.id('messages'),
+  },
+  // Admins and roles granted messages:delete:any (e.g. moderators)
+  handler: withAudit(
+    'messages.deleteAny',
+    async (ctx, args: { id: Id<'messages'> }, user) => {
+      const message = await getLiveMessage(ctx, args.id)
+      await trashWithReplies(ctx, message, user._id)
+    },
+    {
+      permission: PERMISSIONS.MESSAGES_DELETE_ANY,
+      target: (args) => ({ table: 'messages', id: args.id }),
+    }
+  ),
+})
+
+// List trashed messages, most recently deleted first
+// Users with messages:delete:any see all trashed messages, others see the
+// ones they deleted themselves
+export const listTrash = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireAuth(ctx)
+
+    if (await hasPermission(ctx, user, PERMISSIONS.MESSAGES_DELETE_ANY)) {
+      return await ctx.db
+        .query('messages')
+        .withIndex('by_deleted', (q) => q.gt('deletedAt', 0))
+        .order('desc')
+        .take(100)
+    }
+
+    const trashed = await ctx.db
+      .query('messages')
+      .withIndex('by_author_deleted', (q) => q.eq('authorId', user._id).gt('deletedAt', 0))
+      .collect()
+
+    return trashed
+      .filter((message) => message.deletedBy === user._id)
+      .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0))
+  },
+})
+
+// Restore a trashed message (and the replies trashed with it)
+// Authors can restore what they deleted; messages:delete:any can restore
+// anything (audited)
+export const restore = mutation({
   args: {
     id: v.id('messages'),
   },
   handler: async (ctx, args) => {
-    // Only admins can delete any message
-    await requireAdmin(ctx)
+    const user = await requireAuth(ctx)
 
     const message = await ctx.db.get(args.id)
-    if (!message) {
-      throw new Error('Message not found')
+    if (!message || message.deletedAt === undefined) {
+      throw new Error('Message not found in trash')
+    }
+
+    const isOwnDeletion = message.authorId === user._id && message.deletedBy === user._id
+    const canRestore =
+      isOwnDeletion || (await hasPermission(ctx, user, PERMISSIONS.MESSAGES_DELETE_ANY))
+    if (!canRestore) {
+      throw new Error('Not authorized to restore this message')
+    }
+
+    if (message.parentId) {
+      const parent = await ctx.db.get(message.parentId)
+      if (!parent) {
+        throw new Error(
+          'The original message was permanently deleted, so this reply cannot be restored'
+        )
+      }
+      if (parent.deletedAt !== undefined) {
+        throw new Error('Restore the original message first')
+      }
+      await adjustReplyCount(ctx, parent._id, 1)
+    } else {
+      const replies = await ctx.db
+        .query('messages')
+        .withIndex('by_parent_deleted', (q) =>
+          q.eq('parentId', message._id).eq('deletedAt', message.deletedAt)
+        )
+        .collect()
+      await Promise.all(
+        replies.map((reply) =>
+          ctx.db.patch(reply._id, { deletedAt: undefined, deletedBy: undefined })
+        )
+      )
+    }
+
+    await ctx.db.patch(message._id, { deletedAt: undefined, deletedBy: undefined })
+
+    if (!isOwnDeletion) {
+      await recordAudit(ctx, {
+        actor: user,
+        action: 'messages.restore',
+        target: { table: 'messages', id: message._id },
+        before: message,
+        after: await ctx.db.get(message._id),
+      })
+    }
+  },
+})
+
+// Permanently delete messages that have been in the trash longer than
+// TRASH_RETENTION_DAYS. Runs from a daily cron (see crons.ts)
+// and reschedules itself until the backlog is cleared.
+// A top-level message takes all of its remaining replies with it, including
+// ones trashed separately, since they could no longer be restored.
+export const purgeDeleted = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ purged: number }> => {
+    const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+    const expired = await ctx.db
+      .query('messages')
+      .withIndex('by_deleted', (q) => q.gt('deletedAt', 0).lt('deletedAt', cutoff))
+      .take(TRASH_PURGE_BATCH_SIZE)
+
+    const purged = new Set<Id<'messages'>>()
+    for (const message of expired) {
+      if (purged.has(message._id)) continue
+      if (!message.parentId) {
+        const replies = await ctx.db
+          .query('messages')
+          .withIndex('by_parent_deleted', (q) => q.eq('parentId', message._id))
+          .collect()
+        for (const reply of replies) {
+          await deleteMessage(ctx, reply._id)
+          purged.add(reply._id)
+        }
+      }
+      await deleteMessage(ctx, message._id)
+      purged.add(message._id)
+    }
+
+    if (expired.length === TRASH_PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.messages.purgeDeleted, {})
     }
 
-    await ctx.db.delete(args.id)
+    return { purged: purged.size }
   },
 })
@@ -0,0 +1,381 @@
+/**
+ * Moderation
+ * ==========
+ *
+ * Signed-in users report messages with a reason. Reports wait in the
+ * moderation queue (`/moderation`) until someone with `messages:moderate`
+ * (moderators and admins) decides on the message:
+ *
+ * - **approve** - Keep the message (and unhide it) and close its reports
+ * - **hide** - Blank the message for everyone but its author and moderators
+ * - **delete** - Move the message (and its replies) to the trash
+ *
+ * Moderators can also mute a user for up to MAX_MUTE_HOURS; muted users can't
+ * post or edit messages (see lib/moderation.ts). Every decision is recorded
+ * in `moderationLog` (shown on the moderation page) and in the audit log.
+ */
+
+import { query, mutation } from './_generated/server'
+import type { QueryCtx } from './_generated/server'
+import { v } from 'convex/values'
+import { paginationOptsValidator } from 'convex/server'
+import type { PaginationResult } from 'convex/server'
+import type { Doc, Id } from './_generated/dataModel'
+import {
+  requireAuth,
+  requirePermission,
+  getAuthUserSafe,
+  getUserById,
+  hasPermission,
+  isAdmin,
+} from './lib/authHelpers'
+import {
+  MAX_MUTE_HOURS,
+  PERMISSIONS,
+  QUEUE_REPORTS_SHOWN,
+  REPORT_REASON_MAX_LENGTH,
+} from './lib/config'
+import { getActiveMute } from './lib/moderation'
+import { rateLimiter } from './lib/services/rateLimitService'
+import { withAudit, type AuditOptions } from './lib/middleware/withAudit'
+import { trashWithReplies } from './messages'
+
+/** A reported message in the moderation queue */
+export interface ModerationQueueItem {
+  message: Doc<'messages'>
+  /** Its oldest open reports (up to QUEUE_REPORTS_SHOWN) */
+  reports: {
+    _id: Id<'messageReports'>
+    _creationTime: number
+    reason: string
+    reporterName: string
+  }[]
+  /** All of its open reports */
+  openReports: number
+  /** The author is currently muted */
+  authorMuted: boolean
+}
+
+/** A moderation decision with names resolved for display */
+export interface ModerationLogEntry extends Doc<'moderationLog'> {
+  moderatorName: string
+  userName: string | null
+}
+
+// Look up user names once per request (users live in the Better Auth component)
+function nameLookup(ctx: QueryCtx) {
+  const names = new Map<string, Promise<string>>()
+  return (userId: string) => {
+    if (!names.has(userId)) {
+      names.set(
+        userId,
+        getUserById(ctx, userId).then((user) => user?.name ?? 'Deleted user')
+      )
+    }
+    return names.get(userId)!
+  }
+}
+
+// Report a message to the moderators
+export const report = mutation({
+  args: {
+    messageId: v.id('messages'),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+
+    const reason = args.reason.trim()
+    if (reason.length === 0) {
+      throw new Error('Please give a reason')
+    }
+    if (reason.length > REPORT_REASON_MAX_LENGTH) {
+      throw new Error(`Reason too long (max ${REPORT_REASON_MAX_LENGTH} characters)`)
+    }
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message || message.deletedAt !== undefined) {
+      throw new Error('Message not found')
+    }
+    if (message.authorId === user._id) {
+      throw new Error('You cannot report your own message')
+    }
+
+    const existing = await ctx.db
+      .query('messageReports')
+      .withIndex('by_message_reporter', (q) =>
+        q.eq('messageId', args.messageId).eq('reporterId', user._id)
+      )
+      .filter((q) => q.eq(q.field('status'), 'open'))
+      .first()
+    if (existing) {
+      throw new Error('You have already reported this message')
+    }
+
+    await rateLimiter.limit(ctx, 'reportMessage', { key: user._id, throws: true })
+
+    await ctx.db.insert('messageReports', {
+      messageId: args.messageId,
+      reporterId: user._id,
+      reason,
+      status: 'open',
+    })
+    await ctx.db.patch(message._id, {
+      openReportCount: (message.openReportCount ?? 0) + 1,
+      reportedAt: message.reportedAt ?? Date.now(),
+    })
+  },
+})
+
+// Messages with open reports, longest waiting first (cursor-paginated)
+// Trashed messages are left out; their reports come back if they're restored
+export const queue = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args): Promise<PaginationResult<ModerationQueueItem>> => {
+    await requirePermission(ctx, PERMISSIONS.MESSAGES_MODERATE)
+    const getName = nameLookup(ctx)
+
+    const result = await ctx.db
+      .query('messages')
+      .withIndex('by_deleted_reported', (q) => q.eq('deletedAt', undefined).gt('reportedAt', 0))
+      .order('asc')
+      .paginate(args.paginationOpts)
+
+    const page = await Promise.all(
+      result.page.map(async (message) => {
+        const reports = await ctx.db
+          .query('messageReports')
+          .withIndex('by_message_status', (q) =>
+            q.eq('messageId', message._id).eq('status', 'open')
+          )
+          .take(QUEUE_REPORTS_SHOWN)
+        return {
+          message,
+          reports: await Promise.all(
+            reports.map(async (report) => ({
+              _id: report._id,
+              _creationTime: report._creationTime,
+              reason: report.reason,
+              reporterName: await getName(report.reporterId),
+            }))
+          ),
+          openReports: message.openReportCount ?? reports.length,
+          authorMuted: message.authorId
+            ? (await getActiveMute(ctx, message.authorId)) !== null
+            : false,
+        }
+      })
+    )
+
+    return { ...result, page }
+  },
+})
+
+// Decide on a reported message and close all of its open reports
+export const resolve = mutation({
+  args: {
+    messageId: v.id('messages'),
+    decision: v.union(v.literal('approve'), v.literal('hide'), v.literal('delete')),
+    note: v.optional(v.string()),
+  },
+  handler: withAudit(
+    'moderation.resolve',
+    async (
+      ctx,
+      args: { messageId: Id<'messages'>; decision: 'approve' | 'hide' | 'delete'; note?: string },
+      moderator
+    ) => {
+      const message = await ctx.db.get(args.messageId)
+      if (!message) {
+        throw new Error('Message not found')
+      }
+      const reports = await ctx.db
+        .query('messageReports')
+        .withIndex('by_message_status', (q) =>
+          q.eq('messageId', args.messageId).eq('status', 'open')
+        )
+        .collect()
+      if (reports.length === 0) {
+        throw new Error('This message has no open reports')
+      }
+
+      if (args.decision === 'approve') {
+        if (message.hiddenAt !== undefined) {
+          await ctx.db.patch(message._id, { hiddenAt: undefined, hiddenBy: undefined })
+        }
+      } else if (args.decision === 'hide') {
+        await ctx.db.patch(message._id, { hiddenAt: Date.now(), hiddenBy: moderator._id })
+      } else if (message.deletedAt === undefined) {
+        await trashWithReplies(ctx, message, moderator._id)
+      }
+
+      const status = ({ approve: 'approved', hide: 'hidden', delete: 'deleted' } as const)[
+        args.decision
+      ]
+      const resolvedAt = Date.now()
+      await Promise.all(
+        reports.map((report) =>
+          ctx.db.patch(report._id, { status, resolvedBy: moderator._id, resolvedAt })
+        )
+      )
+      await ctx.db.patch(message._id, { openReportCount: 0, reportedAt: undefined })
+
+      await ctx.db.insert('moderationLog', {
+        moderatorId: moderator._id,
+        action: args.decision,
+        messageId: message._id,
+        userId: message.authorId,
+        reportCount: reports.length,
+        note: args.note?.trim() || undefined,
+      })
+    },
+    {
+      permission: PERMISSIONS.MESSAGES_MODERATE,
+      target: (args) => ({ table: 'messages', id: args.messageId }),
+    }
+  ),
+})
+
+// Mutes are audited against the user, with their mute as the snapshot
+const auditMute: AuditOptions<{ userId: string }> = {
+  permission: PERMISSIONS.MESSAGES_MODERATE,
+  target: (args) => ({ table: 'user', id: args.userId }),
+  snapshot: (ctx, args) => getActiveMute(ctx, args.userId),
+}
+
+// Stop a user from posting or editing messages for a while
+export const mute = mutation({
+  args: {
+    userId: v.string(),
+    hours: v.number(),
+    reason: v.optional(v.string()),
+  },
+  handler: withAudit(
+    'moderation.mute',
+    async (ctx, args: { userId: string; hours: number; reason?: string }, moderator) => {
+      if (args.userId === moderator._id) {
+        throw new Error('You cannot mute yourself')
+      }
+      if (!(args.hours >= 1 && args.hours <= MAX_MUTE_HOURS)) {
+        throw new Error(`Mutes last between 1 and ${MAX_MUTE_HOURS} hours`)
+      }
+
+      const user = await getUserById(ctx, args.userId)
+      if (!user) {
+        throw new Error('User not found')
+      }
+      if (isAdmin(user) || (await hasPermission(ctx, user, PERMISSIONS.MESSAGES_MODERATE))) {
+        throw new Error('Moderators cannot be muted')
+      }
+
+      const expiresAt = Date.now() + args.hours * 60 * 60 * 1000
+      const reason = args.reason?.trim() || undefined
+      const existing = await ctx.db
+        .query('userMutes')
+        .withIndex('by_user', (q) => q.eq('userId', args.userId))
+        .unique()
+      if (existing) {
+        await ctx.db.patch(existing._id, { reason, mutedBy: moderator._id, expiresAt })
+      } else {
+        await ctx.db.insert('userMutes', {
+          userId: args.userId,
+          reason,
+          mutedBy: moderator._id,
+          expiresAt,
+        })
+      }
+
+      await ctx.db.insert('moderationLog', {
+        moderatorId: moderator._id,
+        action: 'mute',
+        userId: args.userId,
+        note: reason,
+        expiresAt,
+      })
+    },
+    auditMute
+  ),
+})
+
+// Lift a mute early
+export const unmute = mutation({
+  args: {
+    userId: v.string(),
+  },
+  handler: withAudit(
+    'moderation.unmute',
+    async (ctx, args: { userId: string }, moderator) => {
+      const mute = await getActiveMute(ctx, args.userId)
+      if (!mute) {
+        throw new Error('This user is not muted')
+      }
+      await ctx.db.delete(mute._id)
+
+      await ctx.db.insert('moderationLog', {
+        moderatorId: moderator._id,
+        action: 'unmute',
+        userId: args.userId,
+      })
+    },
+    auditMute
+  ),
+})
+
+// Users who are currently muted, ending soonest first
+export const listMutes = query({
+  args: {},
+  handler: async (ctx) => {
+    await requirePermission(ctx, PERMISSIONS.MESSAGES_MODERATE)
+    const getName = nameLookup(ctx)
+
+    const mutes = await ctx.db
+      .query('userMutes')
+      .withIndex('by_expires', (q) => q.gt('expiresAt', Date.now()))
+      .collect()
+
+    return await Promise.all(
+      mutes.map(async (mute) => ({
+        ...mute,
+        userName: await getName(mute.userId),
+        mutedByName: await getName(mute.mutedBy),
+      }))
+    )
+  },
+})
+
+// Moderation decisions, newest first (cursor-paginated)
+export const log = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args): Promise<PaginationResult<ModerationLogEntry>> => {
+    await requirePermission(ctx, PERMISSIONS.MESSAGES_MODERATE)
+    const getName = nameLookup(ctx)
+
+    const result = await ctx.db.query('moderationLog').order('desc').paginate(args.paginationOpts)
+
+    const page = await Promise.all(
+      result.page.map(async (entry) => ({
+        ...entry,
+        moderatorName: await getName(entry.moderatorId),
+        userName: entry.userId ? await getName(entry.userId) : null,
+      }))
+    )
+
+    return { ...result, page }
+  },
+})
+
+// The current user's mute, so the message input can explain why posting fails
+export const myMute = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getAuthUserSafe(ctx)
+    if (!user) return null
+
+    const mute = await getActiveMute(ctx, user._id)
+    return mute ? { expiresAt: mute.expiresAt, reason: mute.reason ?? null } : null
+  },
+})
@@ -0,0 +1,86 @@
+import { mutation, type QueryCtx } from './_generated/server'
+import { v } from 'convex/values'
+import type { Id } from './_generated/dataModel'
+import { requireAuth } from './lib/authHelpers'
+import { rateLimiter } from './lib/services/rateLimitService'
+import { REACTION_EMOJIS } from './lib/config'
+
+/** Aggregated reactions for one emoji on a message */
+export interface ReactionSummary {
+  emoji: string
+  count: number
+  /** True if the current user reacted with this emoji */
+  reactedByMe: boolean
+}
+
+/**
+ * Aggregate a message's reactions into per-emoji counts.
+ * Used by `messages.list` and `messages.listThread`.
+ *
+ * @param userId - Current user's ID (or undefined when signed out)
+ */
+export async function getReactionSummary(
+  ctx: QueryCtx,
+  messageId: Id<'messages'>,
+  userId?: string
+): Promise<ReactionSummary[]> {
+  const reactions = await ctx.db
+    .query('reactions')
+    .withIndex('by_message', (q) => q.eq('messageId', messageId))
+    .collect()
+
+  const byEmoji = new Map<string, ReactionSummary>()
+  for (const reaction of reactions) {
+    const summary = byEmoji.get(reaction.emoji) ?? {
+      emoji: reaction.emoji,
+      count: 0,
+      reactedByMe: false,
+    }
+    summary.count++
+    summary.reactedByMe ||= reaction.userId === userId
+    byEmoji.set(reaction.emoji, summary)
+  }
+
+  // Keep the configured emoji order so the bar doesn't jump around
+  return REACTION_EMOJIS.flatMap((emoji) => byEmoji.get(emoji) ?? [])
+}
+
+// Add or remove the current user's reaction (authenticated, rate limited)
+export const toggle = mutation({
+  args: {
+    messageId: v.id('messages'),
+    emoji: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    await rateLimiter.limit(ctx, 'toggleReaction', { key: user._id, throws: true })
+
+    if (!(REACTION_EMOJIS as readonly string[]).includes(args.emoji)) {
+      throw new Error('Unsupported reaction')
+    }
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message || message.deletedAt !== undefined) {
+      throw new Error('Message not found')
+    }
+
+    const existing = await ctx.db
+      .query('reactions')
+      .withIndex('by_message_user_emoji', (q) =>
+        q.eq('messageId', args.messageId).eq('userId', user._id).eq('emoji', args.emoji)
+      )
+      .unique()
+
+    if (existing) {
+      await ctx.db.delete(existing._id)
+      return { added: false }
+    }
+
+    await ctx.db.insert('reactions', {
+      messageId: args.messageId,
+      userId: user._id,
+      emoji: args.emoji,
+    })
+    return { added: true }
+  },
+})
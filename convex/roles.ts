@@ -0,0 +1,200 @@
+/**
+ * Roles
+ * =====
+ *
+ * Roles map to sets of permissions (see PERMISSIONS in lib/config.ts) and are
+ * assigned to users with `admin.setRole`.
+ *
+ * - `admin` is built in and always has every permission
+ * - `moderator` and `user` are built in with default permissions (see
+ *   DEFAULT_ROLE_PERMISSIONS) that can be edited here; `user` is everyone's
+ *   default role
+ * - Any other role is created here, no code changes needed
+ * - Managers can only put permissions they have themselves into a role, and
+ *   only admins can edit their own role
+ *
+ * Saving and deleting roles is recorded in the audit log.
+ */
+
+import { query, mutation } from './_generated/server'
+import type { QueryCtx } from './_generated/server'
+import { v } from 'convex/values'
+import {
+  requireAuth,
+  canGrantPermissions,
+  getRoleName,
+  hasPermission,
+  isAdmin,
+} from './lib/authHelpers'
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS, ROLES } from './lib/config'
+import type { Permission, Role } from './lib/config'
+import { withAudit } from './lib/middleware/withAudit'
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9-]*$/
+const MAX_ROLE_NAME_LENGTH = 32
+const KNOWN_PERMISSIONS: string[] = Object.values(PERMISSIONS)
+const BUILT_IN_ROLES: string[] = Object.values(ROLES)
+
+const BUILT_IN_DESCRIPTIONS: Record<Role, string> = {
+  [ROLES.ADMIN]: 'Full access',
+  [ROLES.MODERATOR]: 'Reviews reported messages',
+  [ROLES.USER]: 'Default role for everyone',
+}
+
+export interface RoleSummary {
+  name: string
+  description: string | null
+  permissions: Permission[]
+  /** Built-in roles (ROLES in config.ts) can't be deleted */
+  builtIn: boolean
+}
+
+function normalizeRoleName(name: string) {
+  return name.trim().toLowerCase()
+}
+
+function findRole(ctx: QueryCtx, name: string) {
+  return ctx.db
+    .query('roles')
+    .withIndex('by_name', (q) => q.eq('name', name))
+    .unique()
+}
+
+// Keep only permissions that exist in config.ts
+function knownPermissions(permissions: string[]): Permission[] {
+  return permissions.filter((permission): permission is Permission =>
+    KNOWN_PERMISSIONS.includes(permission)
+  )
+}
+
+// All roles, built-in first (for the role picker and the roles page)
+export const list = query({
+  args: {},
+  handler: async (ctx): Promise<RoleSummary[]> => {
+    const user = await requireAuth(ctx)
+    const canView =
+      (await hasPermission(ctx, user, PERMISSIONS.USERS_MANAGE)) ||
+      (await hasPermission(ctx, user, PERMISSIONS.ROLES_MANAGE))
+    if (!canView) {
+      throw new Error(`Permission required: ${PERMISSIONS.ROLES_MANAGE}`)
+    }
+
+    const rows = await ctx.db.query('roles').collect()
+
+    // Built-in roles use their defaults until they are edited
+    const builtIn = Object.values(ROLES).map((name): RoleSummary => {
+      const row = name === ROLES.ADMIN ? undefined : rows.find((r) => r.name === name)
+      return {
+        name,
+        description: row?.description ?? BUILT_IN_DESCRIPTIONS[name],
+        permissions: row ? knownPermissions(row.permissions) : DEFAULT_ROLE_PERMISSIONS[name],
+        builtIn: true,
+      }
+    })
+    const custom = rows
+      .filter((row) => !BUILT_IN_ROLES.includes(row.name))
+      .map((row) => ({
+        name: row.name,
+        description: row.description ?? null,
+        permissions: knownPermissions(row.permissions),
+        builtIn: false,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    return [...builtIn, ...custom]
+  },
+})
+
+// Create a role or replace its permissions
+export const save = mutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+    permissions: v.array(v.string()),
+  },
+  handler: withAudit(
+    'roles.save',
+    async (ctx, args: { name: string; description?: string; permissions: string[] }, manager) => {
+      const name = normalizeRoleName(args.name)
+      if (!ROLE_NAME_PATTERN.test(name) || name.length > MAX_ROLE_NAME_LENGTH) {
+        throw new Error(
+          `Role names must start with a letter and use only a-z, 0-9 and dashes (max ${MAX_ROLE_NAME_LENGTH})`
+        )
+      }
+      if (name === ROLES.ADMIN) {
+        throw new Error('The admin role always has every permission')
+      }
+      const unknown = args.permissions.filter(
+        (permission) => !KNOWN_PERMISSIONS.includes(permission)
+      )
+      if (unknown.length > 0) {
+        throw new Error(`Unknown permissions: ${unknown.join(', ')}`)
+      }
+      if (!isAdmin(manager) && getRoleName(manager) === name) {
+        throw new Error('Only admins can edit their own role')
+      }
+      if (!(await canGrantPermissions(ctx, manager, args.permissions))) {
+        throw new Error('You cannot grant permissions you do not have')
+      }
+
+      const existing = await findRole(ctx, name)
+      const current = existing?.permissions ?? DEFAULT_ROLE_PERMISSIONS[name as Role] ?? []
+      if (!(await canGrantPermissions(ctx, manager, current))) {
+        throw new Error('You cannot edit a role with permissions you do not have')
+      }
+
+      const permissions = [...new Set(args.permissions)]
+      const description = args.description?.trim() || undefined
+      if (existing) {
+        await ctx.db.patch(existing._id, { description, permissions })
+      } else {
+        await ctx.db.insert('roles', { name, description, permissions })
+      }
+    },
+    {
+      permission: PERMISSIONS.ROLES_MANAGE,
+      target: (args) => ({ table: 'roles', id: normalizeRoleName(args.name) }),
+      snapshot: (ctx, args) => findRole(ctx, normalizeRoleName(args.name)),
+    }
+  ),
+})
+
+// Delete a custom role; its users go back to the `user` role
+export const remove = mutation({
+  args: {
+    name: v.string(),
+  },
+  handler: withAudit(
+    'roles.remove',
+    async (ctx, args: { name: string }, manager) => {
+      if (BUILT_IN_ROLES.includes(args.name)) {
+        throw new Error('Built-in roles cannot be deleted')
+      }
+
+      const role = await findRole(ctx, args.name)
+      if (!role) {
+        throw new Error('Role not found')
+      }
+      // Deleting a role takes its permissions away from its users
+      if (!(await canGrantPermissions(ctx, manager, role.permissions))) {
+        throw new Error('You cannot delete a role with permissions you do not have')
+      }
+
+      const assignments = await ctx.db
+        .query('userRoles')
+        .withIndex('by_role', (q) => q.eq('role', args.name))
+        .collect()
+      for (const assignment of assignments) {
+        await ctx.db.delete(assignment._id)
+      }
+      await ctx.db.delete(role._id)
+
+      return { unassigned: assignments.length }
+    },
+    {
+      permission: PERMISSIONS.ROLES_MANAGE,
+      target: (args) => ({ table: 'roles', id: args.name }),
+      snapshot: (ctx, args) => findRole(ctx, args.name),
+    }
+  ),
+})
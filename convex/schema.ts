@@ -8,18 +8,312 @@ export default defineSchema({
     content: v.string(),
     authorId: v.optional(v.string()),
     authorName: v.optional(v.string()),
+    // Thread root this message replies to (undefined for top-level messages)
+    parentId: v.optional(v.id('messages')),
+    // Set when the author edits the message (earlier versions live in messageRevisions)
+    editedAt: v.optional(v.number()),
+    // Soft delete — set when moved to trash, purged after TRASH_RETENTION_DAYS
+    deletedAt: v.optional(v.number()),
+    deletedBy: v.optional(v.string()),
+    // Set when a moderator hides the message (see moderation.ts); only its
+    // author and moderators can still read it
+    hiddenAt: v.optional(v.number()),
+    hiddenBy: v.optional(v.string()),
+    // Counters kept up to date by messages.ts and moderation.ts so lists don't
+    // have to count rows (missing means 0, see maintenance.backfillMessageCounts):
+    // replies of a top-level message that are live or were trashed with it
+    replyCount: v.optional(v.number()),
+    // reports waiting in the moderation queue
+    openReportCount: v.optional(v.number()),
+    // When the oldest open report was made; orders the moderation queue
+    reportedAt: v.optional(v.number()),
     // Legacy field — kept optional for backward compatibility with existing data
     createdAt: v.optional(v.number()),
+  })
+    .index('by_parent_deleted', ['parentId', 'deletedAt'])
+    .index('by_author_deleted', ['authorId', 'deletedAt'])
+    .index('by_deleted', ['deletedAt'])
+    .index('by_deleted_reported', ['deletedAt', 'reportedAt'])
+    .searchIndex('search_content', {
+      searchField: 'content',
+      filterFields: ['authorName', 'deletedAt', 'hiddenAt'],
+    }),
+
+  // Earlier versions of edited messages (one row per edit)
+  messageRevisions: defineTable({
+    messageId: v.id('messages'),
+    // Content before the edit
+    content: v.string(),
+    editedBy: v.string(),
+  }).index('by_message', ['messageId']),
+
+  // Messages reported by users, waiting in the moderation queue until a
+  // moderator approves, hides or deletes the message (see moderation.ts)
+  messageReports: defineTable({
+    messageId: v.id('messages'),
+    reporterId: v.string(),
+    reason: v.string(),
+    status: v.union(
+      v.literal('open'),
+      v.literal('approved'),
+      v.literal('hidden'),
+      v.literal('deleted')
+    ),
+    resolvedBy: v.optional(v.string()),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index('by_message_status', ['messageId', 'status'])
+    .index('by_message_reporter', ['messageId', 'reporterId']),
+
+  // Users muted by a moderator can't post or edit messages until expiresAt
+  userMutes: defineTable({
+    userId: v.string(),
+    reason: v.optional(v.string()),
+    mutedBy: v.string(),
+    expiresAt: v.number(),
+  })
+    .index('by_user', ['userId'])
+    .index('by_expires', ['expiresAt']),
+
+  // Every moderation decision, newest last (see moderation.ts)
+  moderationLog: defineTable({
+    moderatorId: v.string(),
+    action: v.union(
+      v.literal('approve'),
+      v.literal('hide'),
+      v.literal('delete'),
+      v.literal('mute'),
+      v.literal('unmute')
+    ),
+    // The message decided on (approve/hide/delete)
+    messageId: v.optional(v.id('messages')),
+    // The user affected: the message author, or the muted user
+    userId: v.optional(v.string()),
+    // Number of open reports resolved by the decision
+    reportCount: v.optional(v.number()),
+    // Mute reason or moderator note
+    note: v.optional(v.string()),
+    // End of a mute
+    expiresAt: v.optional(v.number()),
   }),
 
+  // Append-only record of privileged actions (see lib/audit.ts). `actorId` is
+  // the signed-in user; while impersonating, metadata.impersonatedBy is the
+  // admin behind them.
+  auditLog: defineTable({
+    actorId: v.string(),
+    actorName: v.string(),
+    // Lowercased, for filtering
+    actorEmail: v.string(),
+    // One of AUDIT_ACTIONS in lib/config.ts
+    action: v.string(),
+    // App table name, or `user` for Better Auth users
+    targetTable: v.optional(v.string()),
+    // Document ID (the name for `roles`)
+    targetId: v.optional(v.string()),
+    // Target before and after the action (null if it didn't exist)
+    before: v.any(),
+    after: v.any(),
+    metadata: v.object({
+      sessionId: v.optional(v.string()),
+      ipAddress: v.optional(v.string()),
+      userAgent: v.optional(v.string()),
+      impersonatedBy: v.optional(v.string()),
+    }),
+  })
+    .index('by_action', ['action'])
+    .index('by_actor_email', ['actorEmail'])
+    .index('by_target', ['targetId']),
+
+  // Emoji reactions (one row per message + user + emoji)
+  reactions: defineTable({
+    messageId: v.id('messages'),
+    userId: v.string(),
+    emoji: v.string(),
+  })
+    .index('by_message', ['messageId'])
+    .index('by_message_user_emoji', ['messageId', 'userId', 'emoji']),
+
   // File uploads example
   files: defineTable({
-    storageId: v.id('_storage'),
+    // Where the contents are stored: a Convex _storage ID, or an R2 object key
+    // (see lib/services/storageService.ts). Exactly one is set.
+    storageId: v.optional(v.id('_storage')),
+    objectKey: v.optional(v.string()),
     name: v.string(),
     type: v.string(),
     size: v.number(),
+    // Base64 SHA-256 of the blob, from the _storage system table (optional for legacy rows)
+    sha256: v.optional(v.string()),
     uploadedBy: v.optional(v.string()),
+    // Containing folder (undefined = root)
+    folderId: v.optional(v.id('folders')),
+    // Free-form tags, normalized to lowercase (see normalizeTags in files.ts)
+    tags: v.optional(v.array(v.string())),
+    // Soft delete — set when moved to trash, purged after TRASH_RETENTION_DAYS
+    deletedAt: v.optional(v.number()),
+    deletedBy: v.optional(v.string()),
     // Legacy field — kept optional for backward compatibility with existing data
     createdAt: v.optional(v.number()),
-  }).index('by_uploader', ['uploadedBy']),
+  })
+    .index('by_uploader', ['uploadedBy'])
+    .index('by_uploader_deleted', ['uploadedBy', 'deletedAt'])
+    .index('by_uploader_deleted_folder', ['uploadedBy', 'deletedAt', 'folderId'])
+    .index('by_deleted', ['deletedAt'])
+    .index('by_storage', ['storageId']),
+
+  // Resized copies of image files (see images.ts)
+  fileVariants: defineTable({
+    fileId: v.id('files'),
+    name: v.string(),
+    storageId: v.id('_storage'),
+    width: v.number(),
+    height: v.number(),
+  })
+    .index('by_file', ['fileId'])
+    .index('by_storage', ['storageId']),
+
+  // Nested folders for organizing files (parentId undefined = root)
+  folders: defineTable({
+    name: v.string(),
+    ownerId: v.string(),
+    parentId: v.optional(v.id('folders')),
+  }).index('by_owner_parent', ['ownerId', 'parentId']),
+
+  // Public download links for files (see shares.ts and the /share route in http.ts)
+  shares: defineTable({
+    fileId: v.id('files'),
+    token: v.string(),
+    createdBy: v.string(),
+    expiresAt: v.optional(v.number()),
+    // Optional password as `pbkdf2-sha256$<iterations>$<hex>` (see lib/crypto.ts);
+    // links created before PBKDF2 hold a salted SHA-256 hex digest
+    passwordHash: v.optional(v.string()),
+    passwordSalt: v.optional(v.string()),
+    maxDownloads: v.optional(v.number()),
+    downloadCount: v.number(),
+  })
+    .index('by_token', ['token'])
+    .index('by_file', ['fileId']),
+
+  // Per-user storage quota overrides (set by admins, see files.setStorageQuota)
+  storageQuotas: defineTable({
+    userId: v.string(),
+    quotaBytes: v.number(),
+    setBy: v.string(),
+  }).index('by_user', ['userId']),
+
+  // Roles granted by admins (see admin.setRole). Users without a row have the
+  // default `user` role; ADMIN_EMAILS are always admins.
+  userRoles: defineTable({
+    userId: v.string(),
+    // `admin`, `user` or the name of a row in `roles`
+    role: v.string(),
+    setBy: v.string(),
+  })
+    .index('by_user', ['userId'])
+    .index('by_role', ['role']),
+
+  // Permission sets for the `user` role and custom roles (see roles.ts).
+  // The `admin` role always has every permission and has no row.
+  roles: defineTable({
+    name: v.string(),
+    description: v.optional(v.string()),
+    permissions: v.array(v.string()),
+  }).index('by_name', ['name']),
+
+  // Banned users are signed out and can't sign in again (see admin.banUser)
+  userBans: defineTable({
+    userId: v.string(),
+    reason: v.optional(v.string()),
+    bannedBy: v.string(),
+  }).index('by_user', ['userId']),
+
+  // Admins acting as another user (see impersonation.ts). Active while
+  // endedAt is unset and expiresAt is in the future.
+  impersonations: defineTable({
+    adminId: v.string(),
+    userId: v.string(),
+    expiresAt: v.number(),
+    endedAt: v.optional(v.number()),
+    endReason: v.optional(v.union(v.literal('stopped'), v.literal('expired'))),
+  }).index('by_admin_ended', ['adminId', 'endedAt']),
+
+  // Every database write made while impersonating (see lib/impersonation.ts)
+  impersonationAudit: defineTable({
+    impersonationId: v.id('impersonations'),
+    adminId: v.string(),
+    userId: v.string(),
+    operation: v.union(
+      v.literal('insert'),
+      v.literal('patch'),
+      v.literal('replace'),
+      v.literal('delete')
+    ),
+    table: v.string(),
+    documentId: v.string(),
+  }).index('by_impersonation', ['impersonationId']),
+
+  // Upload URLs handed out by files.generateUploadUrl and not yet confirmed
+  // by files.saveFile. Expired rows (and their blobs) are cleaned up by
+  // files.expirePendingUpload.
+  pendingUploads: defineTable({
+    userId: v.string(),
+    expiresAt: v.number(),
+    // R2 object key the upload URL was presigned for (unset for Convex storage)
+    objectKey: v.optional(v.string()),
+  }),
+
+  // Open while a server-side writer (image variants, chunk assembly) stores
+  // blobs that nothing references yet, so files.expirePendingUpload leaves
+  // them alone. Deleted once the blobs are linked, or when they expire.
+  blobReservations: defineTable({
+    expiresAt: v.number(),
+  }),
+
+  // Chunked uploads in progress (see uploads.ts)
+  uploadSessions: defineTable({
+    userId: v.string(),
+    name: v.string(),
+    type: v.string(),
+    size: v.number(),
+    chunkSize: v.number(),
+    totalChunks: v.number(),
+    folderId: v.optional(v.id('folders')),
+    status: v.union(
+      v.literal('uploading'),
+      v.literal('assembling'),
+      v.literal('complete'),
+      v.literal('failed')
+    ),
+    fileId: v.optional(v.id('files')),
+    error: v.optional(v.string()),
+    expiresAt: v.number(),
+  }),
+
+  uploadChunks: defineTable({
+    sessionId: v.id('uploadSessions'),
+    index: v.number(),
+    storageId: v.id('_storage'),
+  })
+    .index('by_session', ['sessionId', 'index'])
+    .index('by_storage', ['storageId']),
+
+  // Keys that have taken a rate limit token, so maintenance.compactRateLimits
+  // can clear their buckets once refilled (see lib/services/rateLimitService.ts)
+  rateLimitKeys: defineTable({
+    name: v.string(),
+    key: v.string(),
+  }).index('by_name_key', ['name', 'key']),
+
+  // Scheduled job history (one row per cron run, see jobs.ts)
+  jobRuns: defineTable({
+    job: v.string(),
+    status: v.union(v.literal('running'), v.literal('success'), v.literal('failed')),
+    startedAt: v.number(),
+    finishedAt: v.optional(v.number()),
+    // JSON summary returned by the job (e.g. number of items purged)
+    summary: v.optional(v.string()),
+    error: v.optional(v.string()),
+  }).index('by_job', ['job']),
 })
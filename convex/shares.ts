@@ -0,0 +1,292 @@
+/**
+ * File Share Links
+ * ================
+ *
+ * Owners create links to their files with an optional expiry, password and
+ * download limit. Links are served by the `/share/<token>` HTTP route
+ * (see http.ts): a GET shows a download page (`inspect`, nothing is counted,
+ * so link previews don't use up the link) and the POST from its button calls
+ * `redeemShare` to check the password, count the download and deliver the file.
+ *
+ * Passwords are hashed with PBKDF2, which is too slow for a mutation, so
+ * `create` is an action and passwords are checked in the HTTP action. Each
+ * visitor gets a few wrong passwords per link per 15 minutes (`sharePassword`
+ * rate limit, keyed on the link and their IP address) before the link refuses
+ * their attempts.
+ */
+
+import { query, mutation, action, internalQuery, internalMutation } from './_generated/server'
+import type { ActionCtx, QueryCtx } from './_generated/server'
+import { internal } from './_generated/api'
+import { v } from 'convex/values'
+import type { Doc, Id } from './_generated/dataModel'
+import { requireAuth } from './lib/authHelpers'
+import type { AuthUser } from './lib/authHelpers'
+import { hashPassword, randomToken, verifyPassword } from './lib/crypto'
+import { rateLimiter } from './lib/services/rateLimitService'
+
+// Get a live file owned by the user or throw
+async function getOwnFile(ctx: QueryCtx, user: AuthUser, fileId: Id<'files'>) {
+  const file = await ctx.db.get(fileId)
+  if (!file || file.deletedAt !== undefined) {
+    throw new Error('File not found')
+  }
+  if (file.uploadedBy !== user._id) {
+    throw new Error('Not authorized to share this file')
+  }
+  return file
+}
+
+// Create a share link for one of your files. Returns its token.
+// An action, because hashing the password takes longer than a mutation may run.
+export const create = action({
+  args: {
+    fileId: v.id('files'),
+    expiresInHours: v.optional(v.number()),
+    password: v.optional(v.string()),
+    maxDownloads: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<string> => {
+    const password = args.password?.trim()
+    const passwordSalt = password ? randomToken(16) : undefined
+    const passwordHash =
+      password && passwordSalt ? await hashPassword(password, passwordSalt) : undefined
+
+    return await ctx.runMutation(internal.shares.insert, {
+      fileId: args.fileId,
+      expiresInHours: args.expiresInHours,
+      maxDownloads: args.maxDownloads,
+      passwordHash,
+      passwordSalt,
+    })
+  },
+})
+
+// Store a share link created by `create`
+export const insert = internalMutation({
+  args: {
+    fileId: v.id('files'),
+    expiresInHours: v.optional(v.number()),
+    maxDownloads: v.optional(v.number()),
+    passwordHash: v.optional(v.string()),
+    passwordSalt: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<string> => {
+    const user = await requireAuth(ctx)
+    await getOwnFile(ctx, user, args.fileId)
+
+    if (args.expiresInHours !== undefined && args.expiresInHours <= 0) {
+      throw new Error('Expiry must be in the future')
+    }
+    if (
+      args.maxDownloads !== undefined &&
+      (!Number.isInteger(args.maxDownloads) || args.maxDownloads < 1)
+    ) {
+      throw new Error('Download limit must be at least 1')
+    }
+
+    const token = randomToken()
+    await ctx.db.insert('shares', {
+      fileId: args.fileId,
+      token,
+      createdBy: user._id,
+      expiresAt:
+        args.expiresInHours !== undefined
+          ? Date.now() + args.expiresInHours * 60 * 60 * 1000
+          : undefined,
+      passwordHash: args.passwordHash,
+      passwordSalt: args.passwordSalt,
+      maxDownloads: args.maxDownloads,
+      downloadCount: 0,
+    })
+
+    return token
+  },
+})
+
+// Share links for one of your files (password hashes are not returned)
+export const listForFile = query({
+  args: {
+    fileId: v.id('files'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    await getOwnFile(ctx, user, args.fileId)
+
+    const shares = await ctx.db
+      .query('shares')
+      .withIndex('by_file', (q) => q.eq('fileId', args.fileId))
+      .order('desc')
+      .collect()
+
+    return shares.map((share) => ({
+      _id: share._id,
+      _creationTime: share._creationTime,
+      token: share.token,
+      expiresAt: share.expiresAt,
+      maxDownloads: share.maxDownloads,
+      downloadCount: share.downloadCount,
+      hasPassword: share.passwordHash !== undefined,
+    }))
+  },
+})
+
+// Revoke a share link (deletes it)
+export const revoke = mutation({
+  args: {
+    id: v.id('shares'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+
+    const share = await ctx.db.get(args.id)
+    if (!share) {
+      throw new Error('Share link not found')
+    }
+    if (share.createdBy !== user._id) {
+      throw new Error('Not authorized to revoke this share link')
+    }
+
+    await ctx.db.delete(args.id)
+  },
+})
+
+type UnavailableReason = 'not_found' | 'expired' | 'limit_reached'
+
+// Find a share link that can still be downloaded, or why it can't
+async function getAvailableShare(
+  ctx: QueryCtx,
+  token: string
+): Promise<
+  { ok: true; share: Doc<'shares'>; file: Doc<'files'> } | { ok: false; reason: UnavailableReason }
+> {
+  const share = await ctx.db
+    .query('shares')
+    .withIndex('by_token', (q) => q.eq('token', token))
+    .unique()
+  if (!share) {
+    return { ok: false, reason: 'not_found' }
+  }
+
+  const file = await ctx.db.get(share.fileId)
+  if (!file || file.deletedAt !== undefined) {
+    return { ok: false, reason: 'not_found' }
+  }
+  if (share.expiresAt !== undefined && share.expiresAt < Date.now()) {
+    return { ok: false, reason: 'expired' }
+  }
+  if (share.maxDownloads !== undefined && share.downloadCount >= share.maxDownloads) {
+    return { ok: false, reason: 'limit_reached' }
+  }
+  return { ok: true, share, file }
+}
+
+export type InspectResult =
+  | { ok: true; name: string; size: number; hasPassword: boolean }
+  | { ok: false; reason: UnavailableReason }
+
+// Describe a share link for its download page, without counting a download
+export const inspect = internalQuery({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx, args): Promise<InspectResult> => {
+    const result = await getAvailableShare(ctx, args.token)
+    if (!result.ok) return result
+
+    return {
+      ok: true,
+      name: result.file.name,
+      size: result.file.size,
+      hasPassword: result.share.passwordHash !== undefined,
+    }
+  },
+})
+
+export type RedeemResult =
+  | {
+      ok: true
+      // One of storageId (Convex storage) and objectKey (R2) is set
+      storageId?: Id<'_storage'>
+      objectKey?: string
+      name: string
+      type: string
+    }
+  | { ok: false; reason: UnavailableReason | 'password_required' }
+
+// The password hash of a share link that can still be downloaded (null if it has none)
+export const getPassword = internalQuery({
+  args: {
+    token: v.string(),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ shareId: Id<'shares'>; passwordHash: string; passwordSalt: string } | null> => {
+    const result = await getAvailableShare(ctx, args.token)
+    if (!result.ok) return null
+    const { _id, passwordHash, passwordSalt } = result.share
+    return passwordHash && passwordSalt ? { shareId: _id, passwordHash, passwordSalt } : null
+  },
+})
+
+// Count a download of a share link whose password, if it has one, was
+// checked against `passwordHash` (see redeemShare)
+export const countDownload = internalMutation({
+  args: {
+    token: v.string(),
+    passwordHash: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<RedeemResult> => {
+    const result = await getAvailableShare(ctx, args.token)
+    if (!result.ok) return result
+    const { share, file } = result
+
+    if (share.passwordHash !== args.passwordHash) {
+      return { ok: false, reason: 'password_required' }
+    }
+
+    await ctx.db.patch(share._id, { downloadCount: share.downloadCount + 1 })
+
+    return {
+      ok: true,
+      storageId: file.storageId,
+      objectKey: file.objectKey,
+      name: file.name,
+      type: file.type,
+    }
+  },
+})
+
+/**
+ * Check a share link and its password and count the download. Called by the
+ * /share HTTP action just before it delivers the file, so the slow password
+ * check runs in the action rather than a mutation.
+ *
+ * Wrong passwords are rate limited per link and client, so one visitor can't
+ * lock everyone else out; after too many this throws a RateLimited ConvexError.
+ *
+ * @param client - The visitor's IP address
+ */
+export async function redeemShare(
+  ctx: ActionCtx,
+  args: { token: string; password?: string; client: string }
+): Promise<RedeemResult> {
+  const lock = await ctx.runQuery(internal.shares.getPassword, { token: args.token })
+  if (lock) {
+    const key = `${lock.shareId}:${args.client}`
+    // A locked link refuses even the right password, so guesses can't be confirmed
+    await rateLimiter.check(ctx, 'sharePassword', { key, throws: true })
+    const valid =
+      !!args.password && (await verifyPassword(args.password, lock.passwordSalt, lock.passwordHash))
+    if (!valid) {
+      await rateLimiter.limit(ctx, 'sharePassword', { key })
+      return { ok: false, reason: 'password_required' }
+    }
+  }
+
+  return await ctx.runMutation(internal.shares.countDownload, {
+    token: args.token,
+    passwordHash: lock?.passwordHash,
+  })
+}
@@ -0,0 +1,58 @@
+'use node'
+
+/**
+ * Chunked Upload Assembly
+ * =======================
+ *
+ * Joins the chunks of a chunked upload (see uploads.ts) into a single blob.
+ * Runs in the Node.js runtime for its larger memory limit, since the whole
+ * file passes through the action.
+ */
+
+import { internalAction } from './_generated/server'
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import type { Id } from './_generated/dataModel'
+
+export const assemble = internalAction({
+  args: {
+    sessionId: v.id('uploadSessions'),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const upload = await ctx.runQuery(internal.uploads.getForAssembly, {
+      sessionId: args.sessionId,
+    })
+    if (!upload) return
+
+    // Keeps files.expirePendingUpload off the new blob until finalize links it
+    const reservationId = await ctx.runMutation(internal.files.reserveBlobWrites, {})
+
+    let storageId: Id<'_storage'> | null = null
+    try {
+      const parts: Blob[] = []
+      for (const chunkId of upload.storageIds) {
+        const chunk = await ctx.storage.get(chunkId)
+        if (!chunk) {
+          throw new Error('A chunk is missing')
+        }
+        parts.push(chunk)
+      }
+
+      storageId = await ctx.storage.store(new Blob(parts, { type: upload.type }))
+      await ctx.runMutation(internal.uploads.finalize, {
+        sessionId: args.sessionId,
+        storageId,
+        reservationId,
+      })
+    } catch (error) {
+      if (storageId) {
+        await ctx.storage.delete(storageId)
+      }
+      await ctx.runMutation(internal.files.releaseBlobWrites, { reservationId })
+      await ctx.runMutation(internal.uploads.fail, {
+        sessionId: args.sessionId,
+        error: error instanceof Error ? error.message : 'Failed to assemble upload',
+      })
+    }
+  },
+})
@@ -0,0 +1,342 @@
+/**
+ * Chunked Uploads
+ * ===============
+ *
+ * Resumable uploads for large files:
+ *
+ * 1. `start` creates an upload session and returns the chunk size and count
+ * 2. For each chunk: `chunkUploadUrl`, POST the chunk, then `saveChunk`
+ * 3. `complete` schedules `uploadAssembly.assemble`, which joins the chunks
+ *    into one blob and calls `finalize` to create the file record
+ *
+ * `status` returns the chunks already saved, so a client can resume after a
+ * dropped connection or a page reload. `cancel` deletes the session and its
+ * chunks; sessions not completed within UPLOAD_SESSION_TIMEOUT_HOURS are
+ * deleted by `expireSession`.
+ */
+
+import { query, mutation, internalQuery, internalMutation } from './_generated/server'
+import type { MutationCtx } from './_generated/server'
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import { requireAuth, getUserById } from './lib/authHelpers'
+import type { AuthUser } from './lib/authHelpers'
+import {
+  ALLOWED_FILE_TYPES,
+  MAX_FILE_SIZE_BYTES,
+  UPLOAD_CHUNK_SIZE_BYTES,
+  UPLOAD_SESSION_TIMEOUT_HOURS,
+} from './lib/config'
+import { getOwnFolder, getStorageUsage, validateName } from './lib/storageHelpers'
+import { withFileUploadLimit } from './lib/middleware/withRateLimit'
+import { getStorageBackend } from './lib/services/storageService'
+import { confirmPendingUpload, createPendingUpload, insertFile } from './files'
+
+type StartArgs = {
+  name: string
+  type: string
+  size: number
+  folderId?: Id<'folders'>
+}
+
+// Get the user's session or throw
+async function getOwnSession(ctx: MutationCtx, user: AuthUser, sessionId: Id<'uploadSessions'>) {
+  const session = await ctx.db.get(sessionId)
+  if (!session || session.userId !== user._id) {
+    throw new Error('Upload session not found')
+  }
+  return session
+}
+
+// Expected size of a chunk (the last one holds the remainder)
+function chunkSizeAt(session: Doc<'uploadSessions'>, index: number) {
+  return Math.min(session.chunkSize, session.size - index * session.chunkSize)
+}
+
+// Delete a session's chunks and their blobs
+async function deleteChunks(ctx: MutationCtx, sessionId: Id<'uploadSessions'>) {
+  const chunks = await ctx.db
+    .query('uploadChunks')
+    .withIndex('by_session', (q) => q.eq('sessionId', sessionId))
+    .collect()
+  for (const chunk of chunks) {
+    await ctx.storage.delete(chunk.storageId)
+    await ctx.db.delete(chunk._id)
+  }
+}
+
+// Start a chunked upload
+export const start = mutation({
+  args: {
+    name: v.string(),
+    type: v.string(),
+    size: v.number(),
+    folderId: v.optional(v.id('folders')),
+  },
+  // Counts as one upload against the `uploadFile` rate limit, however many chunks
+  handler: withFileUploadLimit(async (ctx, args: StartArgs, user) => {
+    // Assembly uses Convex storage; with R2, large files are uploaded in one request
+    if (getStorageBackend() === 'r2') {
+      throw new Error('Chunked uploads are not available with R2 storage')
+    }
+
+    const name = validateName(args.name)
+    if (!Number.isInteger(args.size) || args.size <= 0) {
+      throw new Error('File is empty')
+    }
+    if (args.size > MAX_FILE_SIZE_BYTES) {
+      throw new Error(`File too large. Maximum size is ${MAX_FILE_SIZE_BYTES / (1024 * 1024)}MB`)
+    }
+    if (!ALLOWED_FILE_TYPES.includes(args.type)) {
+      throw new Error('File type not allowed')
+    }
+    if (args.folderId) {
+      await getOwnFolder(ctx, user, args.folderId)
+    }
+
+    const { remaining } = await getStorageUsage(ctx, user)
+    if (args.size > remaining) {
+      throw new Error('Storage quota exceeded')
+    }
+
+    const expiresAt = Date.now() + UPLOAD_SESSION_TIMEOUT_HOURS * 60 * 60 * 1000
+    const totalChunks = Math.ceil(args.size / UPLOAD_CHUNK_SIZE_BYTES)
+    const sessionId = await ctx.db.insert('uploadSessions', {
+      userId: user._id,
+      name,
+      type: args.type,
+      size: args.size,
+      chunkSize: UPLOAD_CHUNK_SIZE_BYTES,
+      totalChunks,
+      folderId: args.folderId,
+      status: 'uploading',
+      expiresAt,
+    })
+    await ctx.scheduler.runAt(expiresAt, internal.uploads.expireSession, { sessionId })
+
+    return { sessionId, chunkSize: UPLOAD_CHUNK_SIZE_BYTES, totalChunks }
+  }),
+})
+
+// Session progress: which chunks are saved, and the file once assembled
+export const status = query({
+  args: {
+    sessionId: v.id('uploadSessions'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+
+    const session = await ctx.db.get(args.sessionId)
+    if (!session || session.userId !== user._id) {
+      return null
+    }
+
+    const chunks = await ctx.db
+      .query('uploadChunks')
+      .withIndex('by_session', (q) => q.eq('sessionId', args.sessionId))
+      .collect()
+
+    return {
+      status: session.status,
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      uploadedChunks: chunks.map((chunk) => chunk.index),
+      fileId: session.fileId,
+      error: session.error,
+    }
+  },
+})
+
+// Upload URL for one chunk
+export const chunkUploadUrl = mutation({
+  args: {
+    sessionId: v.id('uploadSessions'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    const session = await getOwnSession(ctx, user, args.sessionId)
+    if (session.status !== 'uploading') {
+      throw new Error('Upload is no longer accepting chunks')
+    }
+
+    // Chunks are always kept in Convex storage
+    return await createPendingUpload(ctx, user._id, { backend: 'convex' })
+  },
+})
+
+// Record an uploaded chunk (re-uploading an index replaces the earlier chunk)
+export const saveChunk = mutation({
+  args: {
+    sessionId: v.id('uploadSessions'),
+    index: v.number(),
+    uploadId: v.id('pendingUploads'),
+    storageId: v.id('_storage'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    const session = await getOwnSession(ctx, user, args.sessionId)
+    if (session.status !== 'uploading') {
+      throw new Error('Upload is no longer accepting chunks')
+    }
+    if (!Number.isInteger(args.index) || args.index < 0 || args.index >= session.totalChunks) {
+      throw new Error('Invalid chunk index')
+    }
+
+    const blob = await confirmPendingUpload(ctx, user._id, args.uploadId, args.storageId)
+    if (blob.size !== chunkSizeAt(session, args.index)) {
+      throw new Error('Chunk size does not match')
+    }
+
+    const existing = await ctx.db
+      .query('uploadChunks')
+      .withIndex('by_session', (q) => q.eq('sessionId', args.sessionId).eq('index', args.index))
+      .unique()
+    if (existing) {
+      await ctx.storage.delete(existing.storageId)
+      await ctx.db.delete(existing._id)
+    }
+
+    await ctx.db.insert('uploadChunks', {
+      sessionId: args.sessionId,
+      index: args.index,
+      storageId: args.storageId,
+    })
+  },
+})
+
+// Assemble the chunks once all of them are uploaded (or retry a failed assembly)
+export const complete = mutation({
+  args: {
+    sessionId: v.id('uploadSessions'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    const session = await getOwnSession(ctx, user, args.sessionId)
+    // A failed assembly can be retried
+    if (session.status !== 'uploading' && session.status !== 'failed') {
+      throw new Error('Upload is not in progress')
+    }
+
+    const chunks = await ctx.db
+      .query('uploadChunks')
+      .withIndex('by_session', (q) => q.eq('sessionId', args.sessionId))
+      .collect()
+    if (chunks.length !== session.totalChunks) {
+      throw new Error(`${session.totalChunks - chunks.length} chunks are still missing`)
+    }
+
+    await ctx.db.patch(args.sessionId, { status: 'assembling', error: undefined })
+    await ctx.scheduler.runAfter(0, internal.uploadAssembly.assemble, {
+      sessionId: args.sessionId,
+    })
+  },
+})
+
+// Abandon an upload and delete its chunks
+export const cancel = mutation({
+  args: {
+    sessionId: v.id('uploadSessions'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx)
+    const session = await getOwnSession(ctx, user, args.sessionId)
+    if (session.status === 'assembling') {
+      throw new Error('Upload is already being assembled')
+    }
+
+    await deleteChunks(ctx, args.sessionId)
+    await ctx.db.delete(args.sessionId)
+  },
+})
+
+// Chunks in order, for uploadAssembly.assemble
+export const getForAssembly = internalQuery({
+  args: {
+    sessionId: v.id('uploadSessions'),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId)
+    if (!session || session.status !== 'assembling') {
+      return null
+    }
+
+    const chunks = await ctx.db
+      .query('uploadChunks')
+      .withIndex('by_session', (q) => q.eq('sessionId', args.sessionId))
+      .collect()
+
+    return { type: session.type, storageIds: chunks.map((chunk) => chunk.storageId) }
+  },
+})
+
+// Create the file record from the assembled blob and clean up the chunks
+export const finalize = internalMutation({
+  args: {
+    sessionId: v.id('uploadSessions'),
+    storageId: v.id('_storage'),
+    reservationId: v.id('blobReservations'),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId)
+    if (!session || session.status !== 'assembling') {
+      throw new Error('Upload session not found')
+    }
+
+    const blob = await ctx.db.system.get(args.storageId)
+    if (!blob || blob.size !== session.size) {
+      throw new Error('Assembled file does not match the upload')
+    }
+
+    const user = await getUserById(ctx, session.userId)
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const fileId = await insertFile(ctx, user, {
+      contents: { storageId: args.storageId },
+      name: session.name,
+      folderId: session.folderId,
+    })
+
+    await deleteChunks(ctx, args.sessionId)
+    await ctx.db.patch(args.sessionId, { status: 'complete', fileId })
+    await ctx.db.delete(args.reservationId)
+  },
+})
+
+// Mark an upload as failed (the chunks are kept until the session expires)
+export const fail = internalMutation({
+  args: {
+    sessionId: v.id('uploadSessions'),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId)
+    if (session) {
+      await ctx.db.patch(args.sessionId, { status: 'failed', error: args.error })
+    }
+  },
+})
+
+// Delete a session and any chunks once it expires
+export const expireSession = internalMutation({
+  args: {
+    sessionId: v.id('uploadSessions'),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId)
+    if (!session) return
+
+    if (session.status === 'assembling') {
+      // Still being assembled; check again later
+      await ctx.scheduler.runAfter(60 * 60 * 1000, internal.uploads.expireSession, {
+        sessionId: args.sessionId,
+      })
+      return
+    }
+
+    await deleteChunks(ctx, args.sessionId)
+    await ctx.db.delete(args.sessionId)
+  },
+})
@@ -8,6 +8,7 @@
  *
  * - `users.current` - Get the current authenticated user
  * - `users.isAdmin` - Check if current user is an admin
+ * - `users.access` - Get the current user's role and permissions
  *
  * ## Usage
  *
@@ -23,11 +24,18 @@
  * ## Making a User Admin
  *
  * Option 1: Add their email to ADMIN_EMAILS in convex/lib/config.ts
- * Option 2: Use Better Auth's admin plugin (requires additional setup)
+ * Option 2: Grant the admin role from the admin console (/admin/users, see admin.ts)
  */
 
 import { query } from './_generated/server'
-import { getAuthUserSafe, isAdmin as checkIsAdmin } from './lib/authHelpers'
+import {
+  getAuthUserSafe,
+  getPermissions,
+  getRoleName,
+  isAdmin as checkIsAdmin,
+  needsTwoFactorEnrollment,
+} from './lib/authHelpers'
+import type { Permission } from './lib/config'
 
 /**
  * Get the current authenticated user.
@@ -46,7 +54,10 @@ export const current = query({
  *
  * Admin status is determined by:
  * 1. Email whitelist (ADMIN_EMAILS in lib/config.ts)
- * 2. Role field on user record (role === 'admin')
+ * 2. Role granted in the admin console (role === 'admin')
+ *
+ * Admins who still have to set up two-factor authentication (see
+ * ADMIN_TWO_FACTOR_REQUIRED) count as non-admins until they do.
  *
  * @returns true if user is an admin, false otherwise
  */
@@ -55,6 +66,28 @@ export const isAdmin = query({
   handler: async (ctx) => {
     const user = await getAuthUserSafe(ctx)
     if (!user) return false
-    return checkIsAdmin(user)
+    return checkIsAdmin(user) && !needsTwoFactorEnrollment(user)
+  },
+})
+
+/**
+ * Get the current user's role and the permissions it grants.
+ * Used by `usePermission` and the route guards on the client.
+ *
+ * @returns The role name and permissions, and whether the user must set up
+ *   two-factor authentication to use them, or null if not authenticated
+ */
+export const access = query({
+  args: {},
+  handler: async (
+    ctx
+  ): Promise<{ role: string; permissions: Permission[]; twoFactorRequired: boolean } | null> => {
+    const user = await getAuthUserSafe(ctx)
+    if (!user) return null
+    return {
+      role: getRoleName(user),
+      permissions: await getPermissions(ctx, user),
+      twoFactorRequired: needsTwoFactorEnrollment(user),
+    }
   },
 })
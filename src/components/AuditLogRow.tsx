@@ -0,0 +1,78 @@
+import type { Doc } from '@convex/_generated/dataModel'
+import { formatRelativeTime } from '@/lib/utils'
+import { ChevronRight, UserCog } from 'lucide-react'
+
+/**
+ * An audit log entry: who did what to which target, with the request
+ * metadata and before/after snapshots in an expandable section.
+ */
+export function AuditLogRow({ entry }: { entry: Doc<'auditLog'> }) {
+  const { metadata } = entry
+
+  return (
+    <details className="group px-4 py-3 text-sm">
+      <summary className="flex items-center gap-3 cursor-pointer list-none">
+        <ChevronRight className="w-4 h-4 flex-shrink-0 text-muted-foreground transition-transform group-open:rotate-90" />
+        <span
+          className="w-24 flex-shrink-0 text-muted-foreground"
+          title={new Date(entry._creationTime).toLocaleString()}
+        >
+          {formatRelativeTime(entry._creationTime)}
+        </span>
+        <code className="px-1.5 py-0.5 rounded bg-muted text-xs flex-shrink-0">{entry.action}</code>
+        <span className="flex-1 min-w-0 truncate">
+          <strong>{entry.actorName}</strong>{' '}
+          <span className="text-muted-foreground">{entry.actorEmail}</span>
+        </span>
+        {metadata.impersonatedBy && (
+          <span
+            className="flex items-center gap-1 text-xs text-amber-600 flex-shrink-0"
+            title={`Impersonated by ${metadata.impersonatedBy}`}
+          >
+            <UserCog className="w-3 h-3" />
+            Impersonated
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-3 ml-7 space-y-3">
+        <dl className="grid grid-cols-[8rem_1fr] gap-x-3 gap-y-1 text-xs">
+          <dt className="text-muted-foreground">Target</dt>
+          <dd className="break-all">
+            {entry.targetTable ? `${entry.targetTable} ${entry.targetId}` : '—'}
+          </dd>
+          <dt className="text-muted-foreground">Actor ID</dt>
+          <dd className="break-all">{entry.actorId}</dd>
+          {metadata.impersonatedBy && (
+            <>
+              <dt className="text-muted-foreground">Impersonated by</dt>
+              <dd className="break-all">{metadata.impersonatedBy}</dd>
+            </>
+          )}
+          <dt className="text-muted-foreground">Session</dt>
+          <dd className="break-all">{metadata.sessionId ?? '—'}</dd>
+          <dt className="text-muted-foreground">IP address</dt>
+          <dd>{metadata.ipAddress ?? '—'}</dd>
+          <dt className="text-muted-foreground">User agent</dt>
+          <dd className="break-all">{metadata.userAgent ?? '—'}</dd>
+        </dl>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <Snapshot label="Before" value={entry.before} />
+          <Snapshot label="After" value={entry.after} />
+        </div>
+      </div>
+    </details>
+  )
+}
+
+function Snapshot({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="min-w-0">
+      <p className="text-xs text-muted-foreground mb-1">{label}</p>
+      <pre className="p-2 rounded bg-muted text-xs overflow-auto max-h-64">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  )
+}
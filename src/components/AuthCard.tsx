@@ -0,0 +1,41 @@
+import { Link } from '@tanstack/react-router'
+import { ArrowLeft } from 'lucide-react'
+
+/**
+ * Centered card layout shared by the sign-in, sign-up and password reset pages
+ */
+export function AuthCard({
+  title,
+  description,
+  children,
+  footer,
+}: {
+  title: string
+  description?: string
+  children: React.ReactNode
+  footer?: React.ReactNode
+}) {
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center px-4 py-12">
+      <div className="w-full max-w-sm space-y-6">
+        <Link
+          to="/"
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Link>
+
+        <div className="bg-card rounded-lg border border-border p-6 space-y-6">
+          <div className="space-y-1">
+            <h1 className="text-xl font-bold">{title}</h1>
+            {description && <p className="text-sm text-muted-foreground">{description}</p>}
+          </div>
+          {children}
+        </div>
+
+        {footer && <div className="text-center text-sm text-muted-foreground">{footer}</div>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { convexQuery } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { authClient, throwAuthError } from '@/lib/auth-client'
+import { ACCOUNTS_QUERY_KEY, CREDENTIAL_PROVIDER, useAccounts } from '@/hooks/use-accounts'
+import { formatRelativeTime } from '@/lib/utils'
+import { Link2, Loader2, Unlink } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+/**
+ * Sign-in methods on the current user's account: connect any configured
+ * OAuth provider (same email address only) and disconnect all but the last.
+ */
+export function ConnectedAccounts() {
+  const queryClient = useQueryClient()
+  const { data: providers } = useQuery(convexQuery(api.auth.providers, {}))
+  const { accounts, isLoading } = useAccounts()
+  const [busyProvider, setBusyProvider] = useState<string | null>(null)
+
+  const providerName = (providerId: string) =>
+    providerId === CREDENTIAL_PROVIDER
+      ? 'Email & password'
+      : (providers?.find((provider) => provider.id === providerId)?.name ?? providerId)
+
+  const handleConnect = async (providerId: string) => {
+    setBusyProvider(providerId)
+    // Redirects to the provider, then back here
+    const result = await authClient.linkSocial({
+      provider: providerId,
+      callbackURL: '/settings',
+      errorCallbackURL: '/settings',
+    })
+    if (result.error) {
+      toast.error(result.error.message ?? `Failed to connect ${providerName(providerId)}.`)
+      setBusyProvider(null)
+    }
+  }
+
+  const handleDisconnect = async (providerId: string, accountId: string) => {
+    if (!confirm(`Disconnect ${providerName(providerId)}? You won't be able to sign in with it.`)) {
+      return
+    }
+    setBusyProvider(providerId)
+    try {
+      throwAuthError(await authClient.unlinkAccount({ providerId, accountId }))
+      await queryClient.invalidateQueries({ queryKey: ACCOUNTS_QUERY_KEY })
+      toast.success(`${providerName(providerId)} disconnected.`)
+    } catch (error) {
+      console.error('Failed to disconnect account:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to disconnect account.')
+    } finally {
+      setBusyProvider(null)
+    }
+  }
+
+  if (isLoading || !accounts) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const unconnected = (providers ?? []).filter(
+    (provider) => !accounts.some((account) => account.providerId === provider.id)
+  )
+  const canDisconnect = accounts.length > 1
+
+  return (
+    <ul className="divide-y divide-border text-sm">
+      {accounts.map((account) => (
+        <li key={account.id} className="px-4 py-3 flex items-center gap-3">
+          <span className="flex-1 min-w-0">
+            <span className="font-medium">{providerName(account.providerId)}</span>
+            <span className="text-muted-foreground">
+              {' '}
+              • connected {formatRelativeTime(new Date(account.createdAt).getTime())}
+            </span>
+          </span>
+          {busyProvider === account.providerId ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : (
+            account.providerId !== CREDENTIAL_PROVIDER && (
+              <button
+                onClick={() => handleDisconnect(account.providerId, account.accountId)}
+                disabled={!canDisconnect}
+                title={canDisconnect ? undefined : 'You need at least one way to sign in'}
+                className="flex items-center gap-1 px-2 py-1 rounded-md hover:bg-destructive/10 text-destructive transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+              >
+                <Unlink className="w-4 h-4" />
+                Disconnect
+              </button>
+            )
+          )}
+        </li>
+      ))}
+      {unconnected.map((provider) => (
+        <li key={provider.id} className="px-4 py-3 flex items-center gap-3">
+          <span className="flex-1 min-w-0 text-muted-foreground">{provider.name}</span>
+          {busyProvider === provider.id ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : (
+            <button
+              onClick={() => handleConnect(provider.id)}
+              className="flex items-center gap-1 px-2 py-1 rounded-md hover:bg-muted transition-colors"
+            >
+              <Link2 className="w-4 h-4" />
+              Connect
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,63 @@
+import { cn } from '@/lib/cn'
+import { File, FileText, Image } from 'lucide-react'
+
+export interface PreviewableFile {
+  name: string
+  type: string
+  url: string | null
+  variants: Array<{ name: string; url: string | null }>
+}
+
+/**
+ * Inline preview for a file: the generated thumbnail for images, the first
+ * page for PDFs (when `showPdf` is set and the browser can render it),
+ * otherwise an icon.
+ */
+export function FilePreview({
+  file,
+  showPdf = false,
+  className,
+}: {
+  file: PreviewableFile
+  /** Embed PDFs (only worth it at grid-card size) */
+  showPdf?: boolean
+  className?: string
+}) {
+  const thumbnailUrl = file.variants.find((variant) => variant.name === 'thumb')?.url
+
+  if (thumbnailUrl) {
+    return (
+      <img
+        src={thumbnailUrl}
+        alt={file.name}
+        loading="lazy"
+        className={cn('object-cover rounded-md bg-muted', className)}
+      />
+    )
+  }
+
+  if (showPdf && file.type === 'application/pdf' && file.url) {
+    return (
+      <object
+        data={`${file.url}#page=1&view=FitH&toolbar=0&navpanes=0`}
+        type="application/pdf"
+        aria-label={file.name}
+        className={cn('rounded-md bg-muted pointer-events-none', className)}
+      >
+        <FileIcon type={file.type} className={className} />
+      </object>
+    )
+  }
+
+  return <FileIcon type={file.type} className={className} />
+}
+
+function FileIcon({ type, className }: { type: string; className?: string }) {
+  // Images show a placeholder until their variants have been generated
+  const Icon = type.startsWith('image/') ? Image : type === 'application/pdf' ? FileText : File
+  return (
+    <div className={cn('flex items-center justify-center rounded-md bg-muted', className)}>
+      <Icon className="w-1/2 h-1/2 max-w-8 max-h-8 text-primary" />
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+import { Link } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery, useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { formatFileSize, formatRelativeTime } from '@/lib/utils'
+import { FileShares } from '@/components/FileShares'
+import { FilePreview } from '@/components/FilePreview'
+import type { PreviewableFile } from '@/components/FilePreview'
+import { Download, FolderInput, Pencil, Share2, Tag, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import type { Doc, Id } from '@convex/_generated/dataModel'
+import { toast } from 'sonner'
+
+type Panel = 'share' | 'move' | 'tags' | null
+
+/**
+ * A file on the Files page with download, rename, move, tags,
+ * share links and delete actions. Renders as a list row or a grid card.
+ */
+export function FileRow({
+  file,
+  layout = 'list',
+}: {
+  file: Doc<'files'> & PreviewableFile
+  layout?: 'list' | 'grid'
+}) {
+  const renameFile = useConvexMutation(api.files.rename)
+  const moveFile = useConvexMutation(api.files.move)
+  const setTags = useConvexMutation(api.files.setTags)
+  const deleteFile = useConvexMutation(api.files.deleteFile)
+
+  const [panel, setPanel] = useState<Panel>(null)
+  const [tagDraft, setTagDraft] = useState('')
+
+  const togglePanel = (next: Exclude<Panel, null>) => {
+    if (next === 'tags') setTagDraft((file.tags ?? []).join(', '))
+    setPanel(panel === next ? null : next)
+  }
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      await action()
+      toast.success(success)
+      return true
+    } catch (error) {
+      console.error(failure, error)
+      toast.error(error instanceof Error ? error.message : failure)
+      return false
+    }
+  }
+
+  const handleRename = async () => {
+    const name = prompt('Rename file', file.name)
+    if (!name || name === file.name) return
+    await run(() => renameFile({ id: file._id, name }), 'File renamed.', 'Failed to rename file.')
+  }
+
+  const handleMove = async (folderId: string) => {
+    const moved = await run(
+      () =>
+        moveFile({ id: file._id, folderId: (folderId || undefined) as Id<'folders'> | undefined }),
+      'File moved.',
+      'Failed to move file.'
+    )
+    if (moved) setPanel(null)
+  }
+
+  const handleSaveTags = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const tags = tagDraft.split(',')
+    const saved = await run(
+      () => setTags({ id: file._id, tags }),
+      'Tags saved.',
+      'Failed to save tags.'
+    )
+    if (saved) setPanel(null)
+  }
+
+  const handleDelete = async () => {
+    if (!confirm('Move this file to the trash?')) return
+    await run(() => deleteFile({ id: file._id }), 'File moved to trash.', 'Failed to delete file.')
+  }
+
+  const actionClass = 'p-2 rounded-md hover:bg-muted transition-colors'
+
+  const details = (
+    <>
+      <p className="font-medium truncate" title={file.name}>
+        {file.name}
+      </p>
+      <p className="text-sm text-muted-foreground">
+        {formatFileSize(file.size)} • {formatRelativeTime(file._creationTime)}
+      </p>
+      {file.tags && file.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {file.tags.map((tag) => (
+            <Link
+              key={tag}
+              to="/files"
+              search={{ tag }}
+              className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary hover:bg-primary/20"
+            >
+              {tag}
+            </Link>
+          ))}
+        </div>
+      )}
+    </>
+  )
+
+  const actions = (
+    <div className="flex items-center gap-1">
+      {file.url && (
+        <a
+          href={file.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={actionClass}
+          title="Download"
+        >
+          <Download className="w-4 h-4" />
+        </a>
+      )}
+      <button onClick={handleRename} className={actionClass} title="Rename">
+        <Pencil className="w-4 h-4" />
+      </button>
+      <button onClick={() => togglePanel('move')} className={actionClass} title="Move">
+        <FolderInput className="w-4 h-4" />
+      </button>
+      <button onClick={() => togglePanel('tags')} className={actionClass} title="Tags">
+        <Tag className="w-4 h-4" />
+      </button>
+      <button onClick={() => togglePanel('share')} className={actionClass} title="Share links">
+        <Share2 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={handleDelete}
+        className="p-2 rounded-md hover:bg-destructive/10 text-destructive transition-colors"
+        title="Move to trash"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  )
+
+  const panels = (
+    <>
+      {panel === 'share' && <FileShares fileId={file._id} />}
+      {panel === 'move' && <MoveFolderSelect currentFolderId={file.folderId} onMove={handleMove} />}
+      {panel === 'tags' && (
+        <form onSubmit={handleSaveTags} className="flex gap-2 px-4 pb-4">
+          <input
+            type="text"
+            value={tagDraft}
+            onChange={(e) => setTagDraft(e.target.value)}
+            placeholder="Tags, separated by commas"
+            autoFocus
+            className="flex-1 min-w-0 px-2 py-1 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <button
+            type="submit"
+            className="px-3 py-1 text-sm rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+          >
+            Save
+          </button>
+        </form>
+      )}
+    </>
+  )
+
+  if (layout === 'grid') {
+    return (
+      <div className="rounded-lg border border-border overflow-hidden">
+        <FilePreview file={file} showPdf className="w-full aspect-square rounded-none" />
+        <div className="p-3 min-w-0">{details}</div>
+        <div className="px-2 pb-2">{actions}</div>
+        {panels}
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 p-4 hover:bg-muted/50 transition-colors">
+        <FilePreview file={file} className="w-10 h-10 flex-shrink-0" />
+        <div className="flex-1 min-w-0">{details}</div>
+        {actions}
+      </div>
+      {panels}
+    </div>
+  )
+}
+
+/**
+ * Folder picker for moving a file.
+ */
+function MoveFolderSelect({
+  currentFolderId,
+  onMove,
+}: {
+  currentFolderId?: Id<'folders'>
+  onMove: (folderId: string) => void
+}) {
+  const { data: folders } = useQuery(convexQuery(api.folders.listAll, {}))
+
+  return (
+    <div className="px-4 pb-4">
+      <select
+        value={currentFolderId ?? ''}
+        onChange={(e) => onMove(e.target.value)}
+        className="w-full px-2 py-1 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+      >
+        <option value="">/ (root)</option>
+        {folders?.map((folder) => (
+          <option key={folder._id} value={folder._id}>
+            / {folder.path}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery, useConvexAction, useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { env } from '@/lib/env'
+import { formatRelativeTime } from '@/lib/utils'
+import { Copy, Link2, Loader2, Lock, X } from 'lucide-react'
+import { useState } from 'react'
+import type { Id } from '@convex/_generated/dataModel'
+import { toast } from 'sonner'
+
+// Share links are served by the Convex HTTP router (see convex/http.ts)
+const SHARE_BASE_URL = `${
+  env.VITE_CONVEX_SITE_URL ?? env.VITE_CONVEX_URL.replace(/\.cloud$/, '.site')
+}/share/`
+
+/**
+ * Share links for a file: create (with optional expiry, password and
+ * download limit), copy and revoke.
+ */
+export function FileShares({ fileId }: { fileId: Id<'files'> }) {
+  const { data: shares, isLoading } = useQuery(convexQuery(api.shares.listForFile, { fileId }))
+  const createShare = useConvexAction(api.shares.create)
+  const revokeShare = useConvexMutation(api.shares.revoke)
+
+  const [expiresInHours, setExpiresInHours] = useState('')
+  const [password, setPassword] = useState('')
+  const [maxDownloads, setMaxDownloads] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(SHARE_BASE_URL + token)
+    toast.success('Link copied to clipboard.')
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    try {
+      const token = await createShare({
+        fileId,
+        expiresInHours: expiresInHours ? Number(expiresInHours) : undefined,
+        password: password || undefined,
+        maxDownloads: maxDownloads ? Number(maxDownloads) : undefined,
+      })
+      setExpiresInHours('')
+      setPassword('')
+      setMaxDownloads('')
+      await copyLink(token)
+    } catch (error) {
+      console.error('Failed to create share link:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create share link.')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (id: Id<'shares'>) => {
+    try {
+      await revokeShare({ id })
+      toast.success('Share link revoked.')
+    } catch (error) {
+      console.error('Failed to revoke share link:', error)
+      toast.error('Failed to revoke share link.')
+    }
+  }
+
+  const inputClass =
+    'px-2 py-1 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring'
+
+  return (
+    <div className="px-4 pb-4 space-y-3">
+      <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2">
+        <input
+          type="number"
+          min="1"
+          value={expiresInHours}
+          onChange={(e) => setExpiresInHours(e.target.value)}
+          placeholder="Expires in (hours)"
+          className={`${inputClass} w-40`}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (optional)"
+          className={`${inputClass} w-40`}
+        />
+        <input
+          type="number"
+          min="1"
+          value={maxDownloads}
+          onChange={(e) => setMaxDownloads(e.target.value)}
+          placeholder="Max downloads"
+          className={`${inputClass} w-32`}
+        />
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="flex items-center gap-1 px-3 py-1 text-sm rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {isCreating ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Link2 className="w-4 h-4" />
+          )}
+          Create link
+        </button>
+      </form>
+
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      ) : shares?.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No share links yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {shares?.map((share) => (
+            <div key={share._id} className="flex items-center gap-2 text-sm">
+              {share.hasPassword && (
+                <Lock className="w-3 h-3 text-muted-foreground" aria-label="Password protected" />
+              )}
+              <code className="flex-1 min-w-0 truncate text-xs">
+                {SHARE_BASE_URL + share.token}
+              </code>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {share.downloadCount}
+                {share.maxDownloads !== undefined && `/${share.maxDownloads}`} downloads
+                {share.expiresAt !== undefined &&
+                  (share.expiresAt < Date.now()
+                    ? ' • expired'
+                    : ` • expires ${new Date(share.expiresAt).toLocaleString()}`)}
+                {' • '}
+                {formatRelativeTime(share._creationTime)}
+              </span>
+              <button
+                onClick={() => copyLink(share.token)}
+                className="p-1 rounded hover:bg-muted text-muted-foreground"
+                title="Copy link"
+              >
+                <Copy className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => handleRevoke(share._id)}
+                className="p-1 rounded hover:bg-destructive/10 text-destructive"
+                title="Revoke link"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
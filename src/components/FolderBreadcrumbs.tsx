@@ -0,0 +1,47 @@
+import { Link } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { ChevronRight, Home } from 'lucide-react'
+import { Fragment } from 'react'
+import type { Id } from '@convex/_generated/dataModel'
+
+/**
+ * Path from the root to the current folder on the Files page.
+ */
+export function FolderBreadcrumbs({ folderId }: { folderId?: Id<'folders'> }) {
+  const { data: path } = useQuery({
+    ...convexQuery(api.folders.path, { folderId: folderId! }),
+    enabled: !!folderId,
+  })
+
+  return (
+    <nav className="flex items-center gap-1 text-sm min-w-0">
+      <Link
+        to="/files"
+        search={{}}
+        className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <Home className="w-4 h-4" />
+        Files
+      </Link>
+      {folderId &&
+        path?.map((folder, i) => (
+          <Fragment key={folder._id}>
+            <ChevronRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+            {i === path.length - 1 ? (
+              <span className="font-medium truncate">{folder.name}</span>
+            ) : (
+              <Link
+                to="/files"
+                search={{ folder: folder._id }}
+                className="text-muted-foreground hover:text-foreground transition-colors truncate"
+              >
+                {folder.name}
+              </Link>
+            )}
+          </Fragment>
+        ))}
+    </nav>
+  )
+}
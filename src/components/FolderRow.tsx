@@ -0,0 +1,65 @@
+import { Link } from '@tanstack/react-router'
+import { useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { Folder, Pencil, Trash2 } from 'lucide-react'
+import type { Doc } from '@convex/_generated/dataModel'
+import { toast } from 'sonner'
+
+/**
+ * A subfolder in the Files page list. Click to open; rename or delete (when empty).
+ */
+export function FolderRow({ folder }: { folder: Doc<'folders'> }) {
+  const renameFolder = useConvexMutation(api.folders.rename)
+  const removeFolder = useConvexMutation(api.folders.remove)
+
+  const handleRename = async () => {
+    const name = prompt('Rename folder', folder.name)
+    if (!name || name === folder.name) return
+    try {
+      await renameFolder({ id: folder._id, name })
+    } catch (error) {
+      console.error('Rename failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to rename folder.')
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the folder "${folder.name}"?`)) return
+    try {
+      await removeFolder({ id: folder._id })
+      toast.success('Folder deleted.')
+    } catch (error) {
+      console.error('Delete failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete folder.')
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-4 p-4 hover:bg-muted/50 transition-colors">
+      <Link
+        to="/files"
+        search={{ folder: folder._id }}
+        className="flex items-center gap-4 flex-1 min-w-0"
+      >
+        <Folder className="w-8 h-8 text-primary flex-shrink-0" />
+        <span className="font-medium truncate">{folder.name}</span>
+      </Link>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={handleRename}
+          className="p-2 rounded-md hover:bg-muted transition-colors"
+          title="Rename"
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleDelete}
+          className="p-2 rounded-md hover:bg-destructive/10 text-destructive transition-colors"
+          title="Delete folder (must be empty)"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
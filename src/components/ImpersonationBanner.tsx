@@ -0,0 +1,62 @@
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery, useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { Loader2, VenetianMask, X } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+// m:ss until the given time
+function formatRemaining(expiresAt: number, now: number): string {
+  const seconds = Math.max(0, Math.ceil((expiresAt - now) / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/**
+ * Banner shown while an admin is impersonating a user (see convex/impersonation.ts),
+ * with the time left and a button to stop.
+ */
+export function ImpersonationBanner() {
+  const { data: impersonation } = useQuery(convexQuery(api.impersonation.current, {}))
+  const stopImpersonating = useConvexMutation(api.impersonation.stop)
+  const [isStopping, setIsStopping] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!impersonation) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [impersonation])
+
+  if (!impersonation) return null
+
+  const handleStop = async () => {
+    setIsStopping(true)
+    try {
+      await stopImpersonating({})
+      toast.success(`Stopped impersonating ${impersonation.name}.`)
+    } catch (error) {
+      console.error('Failed to stop impersonating:', error)
+      toast.error('Failed to stop impersonating.')
+    } finally {
+      setIsStopping(false)
+    }
+  }
+
+  return (
+    <div className="sticky top-0 z-[60] flex items-center justify-center gap-3 px-4 py-2 text-sm bg-yellow-500 text-yellow-950">
+      <VenetianMask className="w-4 h-4 flex-shrink-0" />
+      <span className="truncate">
+        Impersonating <strong>{impersonation.name}</strong> ({impersonation.email}). Your actions
+        are audited. Ends in {formatRemaining(impersonation.expiresAt, now)}.
+      </span>
+      <button
+        onClick={handleStop}
+        disabled={isStopping}
+        className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-yellow-950/10 hover:bg-yellow-950/20 font-medium transition-colors disabled:opacity-50"
+      >
+        {isStopping ? <Loader2 className="w-3 h-3 animate-spin" /> : <X className="w-3 h-3" />}
+        Stop
+      </button>
+    </div>
+  )
+}
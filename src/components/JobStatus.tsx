@@ -0,0 +1,64 @@
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { formatRelativeTime } from '@/lib/utils'
+import { cn } from '@/lib/cn'
+import { Clock, Loader2 } from 'lucide-react'
+
+const STATUS_CLASSES = {
+  running: 'bg-primary/10 text-primary',
+  success: 'bg-green-500/10 text-green-600',
+  failed: 'bg-destructive/10 text-destructive',
+} as const
+
+/**
+ * Last run of every scheduled job (admin only).
+ */
+export function JobStatus() {
+  const { data: jobs, isLoading } = useQuery(convexQuery(api.jobs.latestRuns, {}))
+
+  return (
+    <div className="bg-card rounded-lg border border-border">
+      <div className="p-4 border-b border-border">
+        <h2 className="font-semibold flex items-center gap-2">
+          <Clock className="w-4 h-4" />
+          Scheduled Jobs
+        </h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="divide-y divide-border">
+          {jobs?.map(({ job, lastRun }) => (
+            <div key={job} className="flex items-center gap-4 p-4">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-sm">{job}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {lastRun
+                    ? `${formatRelativeTime(lastRun.startedAt)}${
+                        lastRun.error
+                          ? ` • ${lastRun.error}`
+                          : lastRun.summary
+                            ? ` • ${lastRun.summary}`
+                            : ''
+                      }`
+                    : 'Never run'}
+                </p>
+              </div>
+              {lastRun && (
+                <span
+                  className={cn('text-xs px-2 py-0.5 rounded-full', STATUS_CLASSES[lastRun.status])}
+                >
+                  {lastRun.status}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,292 @@
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery, useConvexMutation } from '@convex-dev/react-query'
+import { isRateLimitError } from '@convex-dev/rate-limiter'
+import { api } from '@convex/_generated/api'
+import { PERMISSIONS } from '@convex/lib/config'
+import { usePermission } from '@/hooks/use-permission'
+import { formatRelativeTime } from '@/lib/utils'
+import { cn } from '@/lib/cn'
+import { ReactionBar } from '@/components/ReactionBar'
+import { Check, EyeOff, Flag, History, Loader2, Pencil, Trash2, User, X } from 'lucide-react'
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { toast } from 'sonner'
+import type { Doc, Id } from '@convex/_generated/dataModel'
+import type { ReactionSummary } from '@convex/reactions'
+
+interface MessageItemProps {
+  message: Doc<'messages'> & { reactions?: ReactionSummary[] }
+  /** Current user's ID from `users.current` (owners can edit and delete) */
+  currentUserId?: string
+  /** Smaller layout for thread replies */
+  compact?: boolean
+  /** Extra content below the message (e.g. thread toggle) */
+  children?: ReactNode
+}
+
+/**
+ * A single message on the board (top-level message or thread reply).
+ * Handles edit (author), delete (author or `messages:delete:any`), reactions
+ * and reports (signed-in users) and revision history (`messages:history:read`).
+ * Messages hidden by a moderator arrive with empty content for everyone else.
+ */
+export function MessageItem({
+  message,
+  currentUserId,
+  compact = false,
+  children,
+}: MessageItemProps) {
+  const editMessage = useConvexMutation(api.messages.edit)
+  const deleteMessage = useConvexMutation(api.messages.remove)
+  const deleteAnyMessage = useConvexMutation(api.messages.deleteAny)
+  const reportMessage = useConvexMutation(api.moderation.report)
+  const { hasPermission: canDeleteAny } = usePermission(PERMISSIONS.MESSAGES_DELETE_ANY)
+  const { hasPermission: canReadHistory } = usePermission(PERMISSIONS.MESSAGES_HISTORY_READ)
+
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+
+  const isOwner = !!currentUserId && message.authorId === currentUserId
+  const canDelete = isOwner || canDeleteAny
+  const canReport = !!currentUserId && !isOwner
+  const isReply = !!message.parentId
+  const isHidden = message.hiddenAt !== undefined
+
+  const handleDelete = async () => {
+    setIsDeleting(true)
+    try {
+      if (isOwner) {
+        await deleteMessage({ id: message._id })
+      } else if (canDeleteAny) {
+        await deleteAnyMessage({ id: message._id })
+      }
+    } catch (error) {
+      console.error('Failed to delete message:', error)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleReport = async () => {
+    const reason = prompt('Why are you reporting this message?')
+    if (!reason?.trim()) return
+    try {
+      await reportMessage({ messageId: message._id, reason })
+      toast.success('Thanks, a moderator will review this message.')
+    } catch (error) {
+      console.error('Failed to report message:', error)
+      toast.error(
+        isRateLimitError(error)
+          ? "You've sent a lot of reports. Please try again later."
+          : error instanceof Error
+            ? error.message
+            : 'Failed to report message.'
+      )
+    }
+  }
+
+  const handleEdit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft.trim()) return
+
+    setIsSaving(true)
+    try {
+      await editMessage({ id: message._id, content: draft.trim() })
+      setIsEditing(false)
+    } catch (error) {
+      console.error('Failed to edit message:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to edit message.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const startEditing = () => {
+    setDraft(message.content)
+    setIsEditing(true)
+  }
+
+  const actionClass = cn(
+    'opacity-0 transition-opacity p-1 rounded text-muted-foreground disabled:opacity-50',
+    compact ? 'group-hover/reply:opacity-100' : 'group-hover/message:opacity-100'
+  )
+  const iconClass = compact ? 'w-3 h-3' : 'w-4 h-4'
+
+  return (
+    <div
+      className={cn(
+        'flex',
+        compact ? 'gap-2 group/reply' : 'gap-3 p-3 rounded-lg bg-muted/50 group/message'
+      )}
+    >
+      <div
+        className={cn(
+          'rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0',
+          compact ? 'w-6 h-6' : 'w-8 h-8'
+        )}
+      >
+        <User className={cn('text-primary', compact ? 'w-3 h-3' : 'w-4 h-4')} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className={cn('font-medium', compact ? 'text-xs' : 'text-sm')}>
+            {message.authorName ?? 'Anonymous'}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {formatRelativeTime(message._creationTime)}
+          </span>
+          {message.editedAt && (
+            <span
+              className="text-xs text-muted-foreground italic"
+              title={`Edited ${formatRelativeTime(message.editedAt)}`}
+            >
+              (edited)
+            </span>
+          )}
+          {isHidden && message.content && (
+            <span
+              className="inline-flex items-center gap-1 text-xs text-muted-foreground"
+              title="Hidden by a moderator. Only you and moderators can see it."
+            >
+              <EyeOff className="w-3 h-3" />
+              hidden
+            </span>
+          )}
+        </div>
+
+        {isEditing ? (
+          <form onSubmit={handleEdit} className="flex gap-2 mt-1">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              disabled={isSaving}
+              autoFocus
+              className="flex-1 px-3 py-1 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim() || isSaving}
+              className="p-1 rounded hover:bg-primary/20 text-primary disabled:opacity-50"
+              title="Save"
+            >
+              {isSaving ? (
+                <Loader2 className={cn(iconClass, 'animate-spin')} />
+              ) : (
+                <Check className={iconClass} />
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="p-1 rounded hover:bg-muted text-muted-foreground"
+              title="Cancel"
+            >
+              <X className={iconClass} />
+            </button>
+          </form>
+        ) : isHidden && !message.content ? (
+          <p className={cn('italic text-muted-foreground', compact ? 'text-sm' : 'mt-1')}>
+            This message was hidden by a moderator.
+          </p>
+        ) : (
+          <p className={cn('text-foreground', compact ? 'text-sm' : 'mt-1')}>{message.content}</p>
+        )}
+
+        {message.reactions && (
+          <ReactionBar
+            messageId={message._id}
+            reactions={message.reactions}
+            canReact={!!currentUserId}
+          />
+        )}
+
+        {showHistory && <MessageRevisions messageId={message._id} />}
+
+        {children}
+      </div>
+
+      <div className="flex items-start gap-1">
+        {canReadHistory && message.editedAt && (
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={cn(actionClass, 'hover:bg-muted hover:text-foreground')}
+            title="Revision history"
+          >
+            <History className={iconClass} />
+          </button>
+        )}
+        {isOwner && !isEditing && (
+          <button
+            onClick={startEditing}
+            className={cn(actionClass, 'hover:bg-muted hover:text-foreground')}
+            title={isReply ? 'Edit your reply' : 'Edit your message'}
+          >
+            <Pencil className={iconClass} />
+          </button>
+        )}
+        {canReport && (
+          <button
+            onClick={handleReport}
+            className={cn(actionClass, 'hover:bg-muted hover:text-foreground')}
+            title="Report to moderators"
+          >
+            <Flag className={iconClass} />
+          </button>
+        )}
+        {canDelete && (
+          <button
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className={cn(actionClass, 'hover:bg-destructive/20 hover:text-destructive')}
+            title={
+              isReply
+                ? isOwner
+                  ? 'Move your reply to trash'
+                  : 'Move to trash (Moderator)'
+                : isOwner
+                  ? 'Move your message and its replies to trash'
+                  : 'Move to trash with replies (Moderator)'
+            }
+          >
+            {isDeleting ? (
+              <Loader2 className={cn(iconClass, 'animate-spin')} />
+            ) : (
+              <Trash2 className={iconClass} />
+            )}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Earlier versions of an edited message (messages:history:read).
+ */
+function MessageRevisions({ messageId }: { messageId: Id<'messages'> }) {
+  const { data: revisions, isLoading } = useQuery(
+    convexQuery(api.messages.listRevisions, { messageId })
+  )
+
+  return (
+    <div className="mt-2 p-2 rounded-md border border-border bg-background text-xs space-y-1">
+      <p className="font-medium text-muted-foreground">Revision history</p>
+      {isLoading ? (
+        <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
+      ) : (
+        revisions?.map((revision) => (
+          <div key={revision._id} className="flex gap-2">
+            <span className="text-muted-foreground flex-shrink-0">
+              {formatRelativeTime(revision._creationTime)}
+            </span>
+            <span className="line-through text-muted-foreground">{revision.content}</span>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { api } from '@convex/_generated/api'
+import { useDebouncedQuery } from '@/lib/patterns/useConvexMutation'
+import { formatRelativeTime, highlightMatches } from '@/lib/utils'
+import { Loader2, Search, X } from 'lucide-react'
+import { useState } from 'react'
+
+/**
+ * Full-text message search with optional author filter.
+ * Queries are debounced while typing; matching terms are highlighted.
+ */
+export function MessageSearch() {
+  const [searchText, setSearchText] = useState('')
+  const [authorName, setAuthorName] = useState('')
+
+  const trimmed = searchText.trim()
+  const {
+    data: results,
+    isLoading,
+    isDebouncing,
+  } = useDebouncedQuery(
+    api.messages.search,
+    trimmed ? { query: trimmed, authorName: authorName.trim() || undefined } : 'skip'
+  )
+
+  const clear = () => {
+    setSearchText('')
+    setAuthorName('')
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="search"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Search messages..."
+            className="w-full pl-9 pr-3 py-2 rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+        <input
+          type="text"
+          value={authorName}
+          onChange={(e) => setAuthorName(e.target.value)}
+          placeholder="Author (optional)"
+          className="w-40 px-3 py-2 rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        {(searchText || authorName) && (
+          <button
+            onClick={clear}
+            className="p-2 rounded-md hover:bg-muted text-muted-foreground transition-colors"
+            title="Clear search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {trimmed && (
+        <div className="bg-card rounded-lg border border-border p-2 space-y-1 max-h-[300px] overflow-y-auto">
+          {isLoading || isDebouncing ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : results?.length === 0 ? (
+            <p className="text-center py-4 text-sm text-muted-foreground">No matching messages.</p>
+          ) : (
+            results?.map((message) => (
+              <div key={message._id} className="p-2 rounded-md hover:bg-muted/50">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-xs">{message.authorName ?? 'Anonymous'}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatRelativeTime(message._creationTime)}
+                  </span>
+                  {message.parentId && (
+                    <span className="text-xs text-muted-foreground italic">reply</span>
+                  )}
+                </div>
+                <p className="text-sm">
+                  {highlightMatches(message.content, trimmed).map((segment, i) =>
+                    segment.match ? (
+                      <mark key={i} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={i}>{segment.text}</span>
+                    )
+                  )}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
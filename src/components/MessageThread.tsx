@@ -0,0 +1,73 @@
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery, useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { MessageItem } from '@/components/MessageItem'
+import { Loader2, Send } from 'lucide-react'
+import { useState } from 'react'
+import type { Id } from '@convex/_generated/dataModel'
+
+interface MessageThreadProps {
+  /** Top-level message whose replies are shown */
+  parentId: Id<'messages'>
+  /** Current user's ID from `users.current` (owners can edit and delete their replies) */
+  currentUserId?: string
+}
+
+/**
+ * Expandable thread view for a top-level message.
+ * Shows replies (oldest first, real-time) and a reply input.
+ */
+export function MessageThread({ parentId, currentUserId }: MessageThreadProps) {
+  const { data: replies, isLoading } = useQuery(convexQuery(api.messages.listThread, { parentId }))
+
+  const [newReply, setNewReply] = useState('')
+  const sendMessage = useConvexMutation(api.messages.send)
+  const [isSending, setIsSending] = useState(false)
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newReply.trim()) return
+
+    setIsSending(true)
+    try {
+      await sendMessage({ content: newReply.trim(), parentId })
+      setNewReply('')
+    } catch (error) {
+      console.error('Failed to send reply:', error)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="mt-2 ml-4 pl-3 border-l-2 border-border space-y-2">
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      ) : (
+        replies?.map((reply) => (
+          <MessageItem key={reply._id} message={reply} currentUserId={currentUserId} compact />
+        ))
+      )}
+
+      {/* Reply Input */}
+      <form onSubmit={handleReply} className="flex gap-2">
+        <input
+          type="text"
+          value={newReply}
+          onChange={(e) => setNewReply(e.target.value)}
+          placeholder="Write a reply..."
+          disabled={isSending}
+          className="flex-1 px-3 py-1 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={!newReply.trim() || isSending}
+          className="px-3 py-1 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Reply"
+        >
+          {isSending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
+        </button>
+      </form>
+    </div>
+  )
+}
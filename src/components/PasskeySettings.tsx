@@ -0,0 +1,178 @@
+import { authClient, throwAuthError } from '@/lib/auth-client'
+import { formatRelativeTime } from '@/lib/utils'
+import { Check, Fingerprint, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+/**
+ * The current user's passkeys: add one (named for the device it's on), rename
+ * and remove them. Each passkey signs in on its own from the sign-in page.
+ */
+export function PasskeySettings() {
+  const { data: passkeys, isPending } = authClient.useListPasskeys()
+  const [newName, setNewName] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsAdding(true)
+    try {
+      const result = await authClient.passkey.addPasskey({ name: newName.trim() || undefined })
+      // Dismissing the browser's prompt isn't an error
+      if (
+        result.error &&
+        'code' in result.error &&
+        result.error.code === 'ERROR_CEREMONY_ABORTED'
+      ) {
+        return
+      }
+      throwAuthError(result, {
+        400: "This device couldn't create a passkey, or already has one.",
+        403: 'For your security, sign in again to add a passkey.',
+      })
+      setNewName('')
+      toast.success('Passkey added.')
+    } catch (error) {
+      console.error('Failed to add passkey:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to add passkey.')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+    setBusyId(editing.id)
+    try {
+      throwAuthError(await authClient.passkey.updatePasskey(editing))
+      setEditing(null)
+    } catch (error) {
+      console.error('Failed to rename passkey:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to rename passkey.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRemove = async (id: string, name: string) => {
+    if (!confirm(`Remove ${name}? You won't be able to sign in with it.`)) return
+    setBusyId(id)
+    try {
+      throwAuthError(await authClient.passkey.deletePasskey({ id }))
+      toast.success('Passkey removed.')
+    } catch (error) {
+      console.error('Failed to remove passkey:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to remove passkey.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (isPending) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="divide-y divide-border text-sm">
+      {passkeys?.length ? (
+        <ul className="divide-y divide-border">
+          {passkeys.map((passkey) => {
+            const name = passkey.name || 'Unnamed passkey'
+            return (
+              <li key={passkey.id} className="px-4 py-3 flex items-center gap-3">
+                <Fingerprint className="w-4 h-4 text-muted-foreground shrink-0" />
+                {editing?.id === passkey.id ? (
+                  <form onSubmit={handleRename} className="flex-1 flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                      aria-label="Passkey name"
+                      autoFocus
+                      required
+                      className="flex-1 min-w-0 px-2 py-1 rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+                    />
+                    <button
+                      type="submit"
+                      disabled={busyId === passkey.id}
+                      title="Save"
+                      className="p-1 rounded-md hover:bg-muted transition-colors disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditing(null)}
+                      title="Cancel"
+                      className="p-1 rounded-md hover:bg-muted transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <span className="flex-1 min-w-0">
+                      <span className="font-medium">{name}</span>
+                      <span className="text-muted-foreground">
+                        {' '}
+                        • added {formatRelativeTime(new Date(passkey.createdAt).getTime())}
+                      </span>
+                    </span>
+                    {busyId === passkey.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => setEditing({ id: passkey.id, name: passkey.name ?? '' })}
+                          title="Rename"
+                          className="p-1 rounded-md hover:bg-muted transition-colors"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRemove(passkey.id, name)}
+                          title="Remove"
+                          className="p-1 rounded-md hover:bg-destructive/10 text-destructive transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <p className="px-4 py-3 text-muted-foreground">No passkeys yet.</p>
+      )}
+
+      <form onSubmit={handleAdd} className="p-4 flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name, e.g. Work laptop"
+          aria-label="New passkey name"
+          className="flex-1 min-w-0 px-3 py-1.5 rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <button
+          type="submit"
+          disabled={isAdding}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Add passkey
+        </button>
+      </form>
+    </div>
+  )
+}
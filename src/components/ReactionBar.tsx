@@ -0,0 +1,85 @@
+import { useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { REACTION_EMOJIS } from '@convex/lib/config'
+import { cn } from '@/lib/cn'
+import { SmilePlus } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import type { Id } from '@convex/_generated/dataModel'
+import type { ReactionSummary } from '@convex/reactions'
+
+interface ReactionBarProps {
+  messageId: Id<'messages'>
+  /** Aggregated reactions from `messages.list` / `messages.listThread` */
+  reactions: ReactionSummary[]
+  /** Reacting requires sign-in */
+  canReact: boolean
+}
+
+/**
+ * Emoji reaction bar for a message.
+ * Counts update in real time through the Convex subscription.
+ */
+export function ReactionBar({ messageId, reactions, canReact }: ReactionBarProps) {
+  const toggleReaction = useConvexMutation(api.reactions.toggle)
+  const [isPickerOpen, setIsPickerOpen] = useState(false)
+
+  const handleToggle = async (emoji: string) => {
+    setIsPickerOpen(false)
+    try {
+      await toggleReaction({ messageId, emoji })
+    } catch (error) {
+      console.error('Failed to toggle reaction:', error)
+      toast.error('Could not update reaction. Please slow down and try again.')
+    }
+  }
+
+  if (reactions.length === 0 && !canReact) return null
+
+  return (
+    <div className="relative mt-1 flex flex-wrap items-center gap-1">
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          onClick={() => handleToggle(reaction.emoji)}
+          disabled={!canReact}
+          className={cn(
+            'inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded-full border transition-colors',
+            reaction.reactedByMe
+              ? 'bg-primary/15 border-primary/50 text-primary'
+              : 'bg-background border-border hover:bg-muted',
+            'disabled:cursor-default disabled:hover:bg-background'
+          )}
+          title={reaction.reactedByMe ? 'Remove your reaction' : 'React'}
+        >
+          <span>{reaction.emoji}</span>
+          <span>{reaction.count}</span>
+        </button>
+      ))}
+
+      {canReact && (
+        <button
+          onClick={() => setIsPickerOpen(!isPickerOpen)}
+          className="p-1 rounded-full text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          title="Add reaction"
+        >
+          <SmilePlus className="w-3 h-3" />
+        </button>
+      )}
+
+      {isPickerOpen && (
+        <div className="absolute left-0 top-full z-10 mt-1 flex gap-1 p-1 rounded-lg border border-border bg-card shadow-md">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => handleToggle(emoji)}
+              className="px-1.5 py-0.5 rounded hover:bg-muted transition-colors"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import { useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { MUTE_DURATIONS_HOURS } from '@convex/lib/config'
+import type { ModerationQueueItem } from '@convex/moderation'
+import { formatRelativeTime } from '@/lib/utils'
+import { Check, EyeOff, Flag, Loader2, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+type Decision = 'approve' | 'hide' | 'delete'
+
+const DECISION_LABELS: Record<Decision, string> = {
+  approve: 'approved',
+  hide: 'hidden',
+  delete: 'moved to the trash',
+}
+
+/** "1 hour", "7 days" */
+function formatMuteDuration(hours: number) {
+  if (hours < 24) return `${hours} ${hours === 1 ? 'hour' : 'hours'}`
+  const days = hours / 24
+  return `${days} ${days === 1 ? 'day' : 'days'}`
+}
+
+/**
+ * A reported message in the moderation queue with its reports and approve,
+ * hide, delete and mute-author controls. Deciding closes every open report
+ * for the message.
+ */
+export function ReportedMessageRow({ item }: { item: ModerationQueueItem }) {
+  const resolve = useConvexMutation(api.moderation.resolve)
+  const mute = useConvexMutation(api.moderation.mute)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const { message } = item
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    setIsBusy(true)
+    try {
+      await action()
+      toast.success(success)
+    } catch (error) {
+      console.error(failure, error)
+      toast.error(error instanceof Error ? error.message : failure)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleDecision = async (decision: Decision) => {
+    const note = prompt(`Note for the moderation log (optional):`)
+    if (note === null) return
+    await run(
+      () => resolve({ messageId: message._id, decision, note: note || undefined }),
+      `Message ${DECISION_LABELS[decision]}.`,
+      'Failed to resolve report.'
+    )
+  }
+
+  const handleMute = async (hours: number) => {
+    const authorId = message.authorId
+    if (!authorId) return
+    const reason = prompt(
+      `Mute ${message.authorName ?? 'this user'} for ${formatMuteDuration(hours)}? Reason (optional):`
+    )
+    if (reason === null) return
+    await run(
+      () => mute({ userId: authorId, hours, reason: reason || undefined }),
+      `${message.authorName ?? 'User'} is muted for ${formatMuteDuration(hours)}.`,
+      'Failed to mute user.'
+    )
+  }
+
+  return (
+    <div className="p-4 space-y-2">
+      {item.reports.map((report) => (
+        <div key={report._id} className="space-y-1">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Flag className="w-4 h-4 text-destructive flex-shrink-0" />
+            <span className="truncate">
+              Reported by <strong className="text-foreground">{report.reporterName}</strong>{' '}
+              {formatRelativeTime(report._creationTime)}
+            </span>
+          </div>
+          <p className="text-sm">
+            <span className="font-medium">Reason:</span> {report.reason}
+          </p>
+        </div>
+      ))}
+      {item.openReports > item.reports.length && (
+        <p className="text-sm text-muted-foreground">
+          +{item.openReports - item.reports.length} more{' '}
+          {item.openReports - item.reports.length === 1 ? 'report' : 'reports'}
+        </p>
+      )}
+
+      <div className="p-3 rounded-lg bg-muted/50 text-sm">
+        <p className="text-xs text-muted-foreground mb-1">
+          {message.authorName ?? 'Anonymous'} • {formatRelativeTime(message._creationTime)}
+          {message.hiddenAt !== undefined && ' • hidden'}
+          {item.authorMuted && ' • author muted'}
+        </p>
+        <p className="whitespace-pre-wrap break-words">{message.content}</p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {isBusy ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground m-2" />
+        ) : (
+          <>
+            <button
+              onClick={() => handleDecision('approve')}
+              className="flex items-center gap-1 px-2 py-1 text-sm rounded-md hover:bg-muted transition-colors"
+            >
+              <Check className="w-4 h-4" />
+              Approve
+            </button>
+            <button
+              onClick={() => handleDecision('hide')}
+              disabled={message.hiddenAt !== undefined}
+              className="flex items-center gap-1 px-2 py-1 text-sm rounded-md hover:bg-muted transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+            >
+              <EyeOff className="w-4 h-4" />
+              Hide
+            </button>
+            <button
+              onClick={() => handleDecision('delete')}
+              className="flex items-center gap-1 px-2 py-1 text-sm rounded-md hover:bg-destructive/10 text-destructive transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+            {message.authorId && (
+              <select
+                value=""
+                onChange={(e) => handleMute(Number(e.target.value))}
+                className="ml-auto px-2 py-1 text-sm rounded-md border border-input bg-background"
+                aria-label="Mute author"
+              >
+                <option value="" disabled>
+                  Mute author…
+                </option>
+                {MUTE_DURATIONS_HOURS.map((hours) => (
+                  <option key={hours} value={hours}>
+                    {formatMuteDuration(hours)}
+                  </option>
+                ))}
+              </select>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
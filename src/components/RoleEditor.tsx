@@ -0,0 +1,138 @@
+import { useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { PERMISSIONS, PERMISSION_DESCRIPTIONS } from '@convex/lib/config'
+import type { Permission } from '@convex/lib/config'
+import type { RoleSummary } from '@convex/roles'
+import { Loader2, Lock, Save, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+const ALL_PERMISSIONS = Object.values(PERMISSIONS)
+
+/**
+ * A role on the roles page with a checkbox per permission.
+ * The admin role always has every permission and is read-only;
+ * built-in roles can't be deleted.
+ */
+export function RoleEditor({ role }: { role: RoleSummary }) {
+  const saveRole = useConvexMutation(api.roles.save)
+  const removeRole = useConvexMutation(api.roles.remove)
+
+  const [description, setDescription] = useState(role.description ?? '')
+  const [permissions, setPermissions] = useState<Permission[]>(role.permissions)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const isReadOnly = role.name === 'admin'
+  const isDirty =
+    description !== (role.description ?? '') ||
+    permissions.length !== role.permissions.length ||
+    permissions.some((permission) => !role.permissions.includes(permission))
+
+  const togglePermission = (permission: Permission) =>
+    setPermissions((current) =>
+      current.includes(permission)
+        ? current.filter((p) => p !== permission)
+        : [...current, permission]
+    )
+
+  const handleSave = async () => {
+    setIsBusy(true)
+    try {
+      await saveRole({ name: role.name, description, permissions })
+      toast.success(`Saved the ${role.name} role.`)
+    } catch (error) {
+      console.error('Failed to save role:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save role.')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the ${role.name} role? Its users go back to the user role.`)) return
+    setIsBusy(true)
+    try {
+      const { unassigned } = await removeRole({ name: role.name })
+      toast.success(
+        `Deleted the ${role.name} role (${unassigned} ${unassigned === 1 ? 'user' : 'users'} reassigned).`
+      )
+    } catch (error) {
+      console.error('Failed to delete role:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete role.')
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <h2 className="font-medium flex items-center gap-2">
+          {role.name}
+          {role.builtIn && (
+            <span className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs font-medium rounded bg-muted text-muted-foreground border border-border">
+              <Lock className="w-3 h-3" />
+              Built-in
+            </span>
+          )}
+        </h2>
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          disabled={isReadOnly || isBusy}
+          placeholder="Description"
+          className="flex-1 min-w-0 px-2 py-1 text-sm rounded-md border border-input bg-background disabled:opacity-50"
+        />
+        {isBusy ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground m-2" />
+        ) : (
+          !isReadOnly && (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={handleSave}
+                disabled={!isDirty}
+                className="p-2 rounded-md hover:bg-muted transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+                title="Save"
+              >
+                <Save className="w-4 h-4" />
+              </button>
+              {!role.builtIn && (
+                <button
+                  onClick={handleDelete}
+                  className="p-2 rounded-md hover:bg-destructive/10 text-destructive transition-colors"
+                  title="Delete role"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )
+        )}
+      </div>
+
+      <div className="grid gap-1 sm:grid-cols-2">
+        {ALL_PERMISSIONS.map((permission) => (
+          <label
+            key={permission}
+            className="flex items-start gap-2 text-sm"
+            title={PERMISSION_DESCRIPTIONS[permission]}
+          >
+            <input
+              type="checkbox"
+              checked={permissions.includes(permission)}
+              onChange={() => togglePermission(permission)}
+              disabled={isReadOnly || isBusy}
+              className="mt-1"
+            />
+            <span>
+              <code className="text-xs">{permission}</code>
+              <span className="block text-muted-foreground">
+                {PERMISSION_DESCRIPTIONS[permission]}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
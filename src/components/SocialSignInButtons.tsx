@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { signIn } from '@/lib/auth-client'
+
+/**
+ * "Continue with ..." buttons for the OAuth providers configured in Convex
+ * (see convex/lib/oauthProviders.ts). Renders nothing when none are set up.
+ */
+export function SocialSignInButtons() {
+  const { data: providers } = useQuery(convexQuery(api.auth.providers, {}))
+
+  if (!providers?.length) return null
+
+  return (
+    <>
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <div className="flex-1 border-t border-border" />
+        or
+        <div className="flex-1 border-t border-border" />
+      </div>
+
+      <div className="space-y-2">
+        {providers.map((provider) => (
+          <button
+            key={provider.id}
+            onClick={() =>
+              signIn.social({
+                provider: provider.id,
+                callbackURL: '/',
+                errorCallbackURL: '/sign-in',
+              })
+            }
+            className="w-full px-4 py-2 rounded-md border border-input bg-background hover:bg-muted transition-colors"
+          >
+            Continue with {provider.name}
+          </button>
+        ))}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { formatFileSize } from '@/lib/utils'
+import { cn } from '@/lib/cn'
+
+/**
+ * Storage used by the current user against their quota.
+ * Turns amber above 80% and red when the quota is reached.
+ */
+export function StorageUsageBar() {
+  const { data: usage } = useQuery(convexQuery(api.files.myUsage, {}))
+
+  if (!usage) return null
+
+  const percent = usage.quota > 0 ? Math.min(100, (usage.used / usage.quota) * 100) : 100
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>
+          {formatFileSize(usage.used)} of {formatFileSize(usage.quota)} used
+        </span>
+        <span>{formatFileSize(usage.remaining)} left</span>
+      </div>
+      <div className="h-2 rounded-full bg-muted overflow-hidden">
+        <div
+          className={cn(
+            'h-full rounded-full transition-all',
+            percent >= 100 ? 'bg-destructive' : percent >= 80 ? 'bg-amber-500' : 'bg-primary'
+          )}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+import { Link } from '@tanstack/react-router'
+import { z } from 'zod'
+import QRCode from 'react-qr-code'
+import { authClient, throwAuthError, useSession } from '@/lib/auth-client'
+import { createForm } from '@/lib/patterns/FormFactory'
+import { useAccounts } from '@/hooks/use-accounts'
+import { Copy, Download, Loader2, ShieldCheck, ShieldOff } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+
+const passwordSchema = z.object({
+  password: z.string().min(1, 'Please enter your password'),
+})
+
+const codeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your app'),
+})
+
+/** What the password prompt is confirming */
+type PasswordAction = 'enable' | 'regenerate' | 'disable'
+
+const ACTION_LABELS: Record<PasswordAction, string> = {
+  enable: 'Continue',
+  regenerate: 'Generate New Codes',
+  disable: 'Turn Off',
+}
+
+/**
+ * Two-factor authentication settings: set up an authenticator app (QR code,
+ * then a code to confirm), view new backup codes once, and turn 2FA off.
+ * Every change asks for the account password, so users who only sign in with
+ * OAuth or magic links have to set a password first.
+ */
+export function TwoFactorSettings() {
+  const { data: session } = useSession()
+  const { hasPassword, isLoading } = useAccounts()
+  const [action, setAction] = useState<PasswordAction | null>(null)
+  const [totpURI, setTotpURI] = useState<string | null>(null)
+  const [pendingBackupCodes, setPendingBackupCodes] = useState<string[]>([])
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+
+  const isEnabled = !!session?.user.twoFactorEnabled
+
+  const PasswordForm = useMemo(
+    () =>
+      createForm({
+        schema: passwordSchema,
+        onSubmit: async ({ password }) => {
+          if (action === 'enable') {
+            const result = await authClient.twoFactor.enable({ password })
+            throwAuthError(result)
+            setTotpURI(result.data?.totpURI ?? null)
+            setPendingBackupCodes(result.data?.backupCodes ?? [])
+          } else if (action === 'regenerate') {
+            const result = await authClient.twoFactor.generateBackupCodes({ password })
+            throwAuthError(result)
+            setBackupCodes(result.data?.backupCodes ?? [])
+            toast.success('New backup codes generated. The old ones no longer work.')
+          } else if (action === 'disable') {
+            throwAuthError(await authClient.twoFactor.disable({ password }))
+            toast.success('Two-factor authentication turned off.')
+          }
+          setAction(null)
+        },
+        fields: {
+          password: { label: 'Password', type: 'password', placeholder: '••••••••' },
+        },
+        submitLabel: action ? ACTION_LABELS[action] : undefined,
+      }),
+    [action]
+  )
+
+  const VerifyForm = useMemo(
+    () =>
+      createForm({
+        schema: codeSchema,
+        onSubmit: async ({ code }) => {
+          throwAuthError(await authClient.twoFactor.verifyTotp({ code }))
+          setTotpURI(null)
+          setBackupCodes(pendingBackupCodes)
+          toast.success('Two-factor authentication turned on.')
+        },
+        fields: {
+          code: { label: 'Code from your app', placeholder: '123456' },
+        },
+        submitLabel: 'Turn On',
+      }),
+    [pendingBackupCodes]
+  )
+
+  if (isLoading || !session) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  // Shown once, right after setup or regenerating
+  if (backupCodes) {
+    return <BackupCodes codes={backupCodes} onDone={() => setBackupCodes(null)} />
+  }
+
+  if (totpURI) {
+    const secret = new URL(totpURI).searchParams.get('secret')
+    return (
+      <div className="p-4 space-y-4 text-sm">
+        <p>
+          Scan this QR code with an authenticator app such as 1Password, Google Authenticator or
+          Authy, then enter the 6-digit code it shows.
+        </p>
+        <div className="flex justify-center">
+          {/* White background so the code scans in dark mode */}
+          <div className="bg-white p-3 rounded-md">
+            <QRCode value={totpURI} size={160} title="Authenticator app QR code" />
+          </div>
+        </div>
+        {secret && (
+          <p className="text-muted-foreground">
+            Can't scan it? Enter this key instead:{' '}
+            <code className="font-mono text-foreground break-all">{secret}</code>
+          </p>
+        )}
+        <VerifyForm />
+        <button
+          onClick={() => setTotpURI(null)}
+          className="text-sm text-muted-foreground hover:text-foreground"
+        >
+          Cancel
+        </button>
+      </div>
+    )
+  }
+
+  if (!hasPassword) {
+    return (
+      <p className="p-4 text-sm text-muted-foreground">
+        Two-factor authentication protects password sign-in.{' '}
+        <Link to="/reset-password" className="text-primary hover:underline">
+          Set a password
+        </Link>{' '}
+        for this account first.
+      </p>
+    )
+  }
+
+  if (action) {
+    return (
+      <div className="p-4 space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {action === 'disable'
+            ? 'Confirm your password to turn off two-factor authentication.'
+            : action === 'regenerate'
+              ? 'Confirm your password to replace your backup codes.'
+              : 'Confirm your password to set up an authenticator app.'}
+        </p>
+        <PasswordForm />
+        <button
+          onClick={() => setAction(null)}
+          className="text-sm text-muted-foreground hover:text-foreground"
+        >
+          Cancel
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 flex items-center gap-3 text-sm">
+      {isEnabled ? (
+        <>
+          <ShieldCheck className="w-5 h-5 text-green-600" />
+          <span className="flex-1">On. You'll be asked for a code when you sign in.</span>
+          <button
+            onClick={() => setAction('regenerate')}
+            className="px-2 py-1 rounded-md hover:bg-muted transition-colors"
+          >
+            New backup codes
+          </button>
+          <button
+            onClick={() => setAction('disable')}
+            className="px-2 py-1 rounded-md hover:bg-destructive/10 text-destructive transition-colors"
+          >
+            Turn off
+          </button>
+        </>
+      ) : (
+        <>
+          <ShieldOff className="w-5 h-5 text-muted-foreground" />
+          <span className="flex-1 text-muted-foreground">Off</span>
+          <button
+            onClick={() => setAction('enable')}
+            className="px-3 py-1.5 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+          >
+            Set up
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+function BackupCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const text = codes.join('\n')
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(text)
+    toast.success('Backup codes copied to clipboard.')
+  }
+
+  const downloadCodes = () => {
+    const url = URL.createObjectURL(new Blob([text + '\n'], { type: 'text/plain' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'backup-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="p-4 space-y-4 text-sm">
+      <p>
+        Save these backup codes somewhere safe. Each one signs you in once if you lose your
+        authenticator app. You won't see them again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono bg-muted rounded-md p-3">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={copyCodes}
+          className="flex items-center gap-1 px-2 py-1 rounded-md hover:bg-muted transition-colors"
+        >
+          <Copy className="w-4 h-4" />
+          Copy
+        </button>
+        <button
+          onClick={downloadCodes}
+          className="flex items-center gap-1 px-2 py-1 rounded-md hover:bg-muted transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Download
+        </button>
+        <button
+          onClick={onDone}
+          className="ml-auto px-3 py-1.5 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+        >
+          I've saved them
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { formatFileSize } from '@/lib/utils'
+import { cn } from '@/lib/cn'
+import type { UploadQueueItem } from '@/hooks/use-upload-queue'
+import { CheckCircle, Loader2, RotateCw, X, XCircle, Clock } from 'lucide-react'
+
+interface UploadQueueProps {
+  items: UploadQueueItem[]
+  onRetry: (id: string) => void
+  onCancel: (id: string) => void
+  onClearFinished: () => void
+}
+
+/**
+ * Per-file status of the Files page upload queue, with progress bars for
+ * running uploads and retry/cancel buttons.
+ */
+export function UploadQueue({ items, onRetry, onCancel, onClearFinished }: UploadQueueProps) {
+  if (items.length === 0) return null
+
+  const hasFinished = items.some((item) => item.status !== 'queued' && item.status !== 'uploading')
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {items.filter((item) => item.status === 'complete').length} of {items.length} uploaded
+        </span>
+        {hasFinished && (
+          <button
+            onClick={onClearFinished}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-border rounded-md border border-border">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-center gap-3 p-2 text-sm">
+            {item.status === 'queued' && <Clock className="w-4 h-4 text-muted-foreground" />}
+            {item.status === 'uploading' && <Loader2 className="w-4 h-4 animate-spin" />}
+            {item.status === 'complete' && <CheckCircle className="w-4 h-4 text-green-500" />}
+            {(item.status === 'failed' || item.status === 'cancelled') && (
+              <XCircle
+                className={cn(
+                  'w-4 h-4',
+                  item.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+                )}
+              />
+            )}
+
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between gap-2">
+                <span className="truncate">{item.file.name}</span>
+                <span className="text-xs text-muted-foreground flex-shrink-0">
+                  {item.status === 'uploading'
+                    ? `${formatFileSize(item.loaded)} of ${formatFileSize(item.file.size)}`
+                    : formatFileSize(item.file.size)}
+                </span>
+              </div>
+              {item.status === 'uploading' && (
+                <div className="h-1 mt-1 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${(item.loaded / item.file.size) * 100}%` }}
+                  />
+                </div>
+              )}
+              {item.error && <p className="text-xs text-destructive mt-0.5">{item.error}</p>}
+              {item.status === 'cancelled' && (
+                <p className="text-xs text-muted-foreground mt-0.5">Cancelled</p>
+              )}
+            </div>
+
+            {(item.status === 'queued' || item.status === 'uploading') && (
+              <button
+                onClick={() => onCancel(item.id)}
+                className="p-1 rounded hover:bg-muted text-muted-foreground"
+                title="Cancel"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+            {(item.status === 'failed' || item.status === 'cancelled') && (
+              <button
+                onClick={() => onRetry(item.id)}
+                className="p-1 rounded hover:bg-muted text-muted-foreground"
+                title="Retry"
+              >
+                <RotateCw className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+import { useNavigate } from '@tanstack/react-router'
+import { useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import type { AdminUserRow } from '@convex/admin'
+import type { RoleSummary } from '@convex/roles'
+import { formatRelativeTime } from '@/lib/utils'
+import { Ban, Loader2, LogOut, ShieldCheck, User, VenetianMask } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+/**
+ * A user in the admin console with role, ban, force sign-out and
+ * impersonation controls.
+ * Controls are disabled for your own account and for ADMIN_EMAILS admins, and
+ * for all admins unless you are one.
+ */
+export function UserAdminRow({
+  user,
+  roles,
+  isSelf,
+  isAdmin,
+}: {
+  user: AdminUserRow
+  /** Roles to choose from (see convex/roles.ts) */
+  roles: RoleSummary[]
+  isSelf: boolean
+  /** Only admins can grant or remove the admin role */
+  isAdmin: boolean
+}) {
+  const setRole = useConvexMutation(api.admin.setRole)
+  const banUser = useConvexMutation(api.admin.banUser)
+  const unbanUser = useConvexMutation(api.admin.unbanUser)
+  const revokeSessions = useConvexMutation(api.admin.revokeSessions)
+  const startImpersonating = useConvexMutation(api.impersonation.start)
+  const navigate = useNavigate()
+
+  const [isBusy, setIsBusy] = useState(false)
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    setIsBusy(true)
+    try {
+      await action()
+      toast.success(success)
+    } catch (error) {
+      console.error(failure, error)
+      toast.error(error instanceof Error ? error.message : failure)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRoleChange = (role: string) =>
+    run(
+      () => setRole({ userId: user._id, role }),
+      `${user.name}'s role is now ${role}.`,
+      'Failed to change role.'
+    )
+
+  const handleBan = async () => {
+    const reason = prompt(`Ban ${user.name}? They will be signed out. Reason (optional):`)
+    if (reason === null) return
+    await run(
+      () => banUser({ userId: user._id, reason: reason || undefined }),
+      `${user.name} has been banned.`,
+      'Failed to ban user.'
+    )
+  }
+
+  const handleUnban = () =>
+    run(
+      () => unbanUser({ userId: user._id }),
+      `${user.name} can sign in again.`,
+      'Failed to unban user.'
+    )
+
+  const handleSignOut = async () => {
+    if (!confirm(`Sign ${user.name} out of every device?`)) return
+    await run(
+      () => revokeSessions({ userId: user._id }),
+      `${user.name} has been signed out.`,
+      'Failed to sign out user.'
+    )
+  }
+
+  const handleImpersonate = async () => {
+    if (!confirm(`Act as ${user.name}? Everything you change will be audited.`)) return
+    setIsBusy(true)
+    try {
+      await startImpersonating({ userId: user._id })
+      toast.success(`You are now acting as ${user.name}.`)
+      await navigate({ to: '/' })
+    } catch (error) {
+      console.error('Failed to impersonate user:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to impersonate user.')
+      setIsBusy(false)
+    }
+  }
+
+  const isLocked = isSelf || user.isConfigAdmin || (user.role === 'admin' && !isAdmin)
+
+  return (
+    <div className="flex items-center gap-4 p-4">
+      {user.image ? (
+        <img src={user.image} alt={user.name} className="w-10 h-10 rounded-full flex-shrink-0" />
+      ) : (
+        <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+          <User className="w-5 h-5 text-muted-foreground" />
+        </div>
+      )}
+
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate flex items-center gap-2">
+          {user.name}
+          {isSelf && <span className="text-xs text-muted-foreground">(you)</span>}
+          {user.banned && (
+            <span
+              className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs font-medium rounded bg-destructive/10 text-destructive border border-destructive/50"
+              title={user.banReason ?? undefined}
+            >
+              <Ban className="w-3 h-3" />
+              Banned
+            </span>
+          )}
+          {user.isConfigAdmin && (
+            <span
+              className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs font-medium rounded bg-primary/20 text-primary border border-primary/50"
+              title="Set in ADMIN_EMAILS"
+            >
+              <ShieldCheck className="w-3 h-3" />
+              Config admin
+            </span>
+          )}
+        </p>
+        <p className="text-sm text-muted-foreground truncate">
+          {user.email} • joined {formatRelativeTime(user.createdAt)} • {user.activeSessions}{' '}
+          {user.activeSessions === 1 ? 'session' : 'sessions'}
+        </p>
+      </div>
+
+      <select
+        value={user.role}
+        onChange={(e) => handleRoleChange(e.target.value)}
+        disabled={isBusy || isLocked}
+        className="px-2 py-1 text-sm rounded-md border border-input bg-background disabled:opacity-50"
+        aria-label={`Role for ${user.name}`}
+      >
+        {roles.map((role) => (
+          <option
+            key={role.name}
+            value={role.name}
+            disabled={role.name === 'admin' && !isAdmin}
+            title={role.description ?? undefined}
+          >
+            {role.name}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1">
+        {isBusy ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground m-2" />
+        ) : (
+          <>
+            {user.banned ? (
+              <button
+                onClick={handleUnban}
+                className="px-2 py-1 text-sm rounded-md hover:bg-muted transition-colors"
+              >
+                Unban
+              </button>
+            ) : (
+              <button
+                onClick={handleBan}
+                disabled={isLocked || user.role === 'admin'}
+                className="p-2 rounded-md hover:bg-destructive/10 text-destructive transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+                title={user.role === 'admin' ? 'Remove the admin role before banning' : 'Ban user'}
+              >
+                <Ban className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={handleImpersonate}
+              disabled={isLocked || user.role === 'admin'}
+              className="p-2 rounded-md hover:bg-muted transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+              title={user.role === 'admin' ? 'Admins cannot be impersonated' : 'Impersonate'}
+            >
+              <VenetianMask className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleSignOut}
+              disabled={isSelf || user.activeSessions === 0}
+              className="p-2 rounded-md hover:bg-muted transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+              title="Sign out everywhere"
+            >
+              <LogOut className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,2 +1,14 @@
 export { useAdmin } from './use-admin'
+export { usePermission } from './use-permission'
 export { useImpersonate, ImpersonateProvider } from './use-impersonate'
+export {
+  usePaginatedMessages,
+  messagesFirstPageQuery,
+  MESSAGES_PAGE_SIZE,
+} from './use-paginated-messages'
+export { useInfiniteScroll } from './use-infinite-scroll'
+export { useFileUpload, UploadCancelledError } from './use-file-upload'
+export type { UploadProgress } from './use-file-upload'
+export { useAccounts, ACCOUNTS_QUERY_KEY, CREDENTIAL_PROVIDER } from './use-accounts'
+export { useUploadQueue } from './use-upload-queue'
+export type { UploadQueueItem, UploadBatchSummary } from './use-upload-queue'
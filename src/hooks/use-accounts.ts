@@ -0,0 +1,43 @@
+/**
+ * useAccounts Hook
+ * ================
+ *
+ * Sign-in methods linked to the current user (email + password and any
+ * connected OAuth providers), from Better Auth's `listAccounts`.
+ *
+ * @example
+ * ```tsx
+ * const { accounts, hasPassword } = useAccounts()
+ * ```
+ *
+ * @returns
+ * - `accounts` - linked accounts, undefined while loading
+ * - `hasPassword` - true if the user can sign in with email + password
+ * - `isLoading` - true while loading
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { authClient, throwAuthError } from '@/lib/auth-client'
+
+/** Invalidate this after linking or unlinking accounts */
+export const ACCOUNTS_QUERY_KEY = ['auth', 'accounts']
+
+// Better Auth stores email + password sign-in as the `credential` provider
+export const CREDENTIAL_PROVIDER = 'credential'
+
+export function useAccounts() {
+  const { data: accounts, isLoading } = useQuery({
+    queryKey: ACCOUNTS_QUERY_KEY,
+    queryFn: async () => {
+      const result = await authClient.listAccounts()
+      throwAuthError(result)
+      return result.data ?? []
+    },
+  })
+
+  return {
+    accounts,
+    hasPassword: !!accounts?.some((account) => account.providerId === CREDENTIAL_PROVIDER),
+    isLoading,
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * useFileUpload Hook
+ * ==================
+ *
+ * Uploads a file to Convex storage with byte-level progress and cancel.
+ *
+ * Small files use the single-request flow (`files.generateUploadUrl` →
+ * POST → `files.saveFile`, or PUT → `files.saveObject` with R2 storage).
+ * Files larger than UPLOAD_CHUNK_SIZE_BYTES in Convex storage use the
+ * chunked protocol in convex/uploads.ts: each chunk is retried on
+ * network errors, and the session is remembered in localStorage so
+ * selecting the same file again resumes where it stopped.
+ *
+ * @example
+ * ```tsx
+ * const { upload, cancel, progress, isUploading } = useFileUpload()
+ *
+ * await upload(file, { folderId })
+ * <progress value={progress?.loaded} max={progress?.total} />
+ * ```
+ *
+ * @returns
+ * - `upload` - Upload a file; resolves with the new file ID
+ * - `cancel` - Abort the current upload (rejects `upload` with UploadCancelledError)
+ * - `progress` - Bytes uploaded so far and total, or null when idle
+ * - `isUploading` - true while an upload is running
+ *
+ * `uploadFile` is the same upload without React state, for running several
+ * uploads at once (see useUploadQueue).
+ */
+
+import { useCallback, useRef, useState } from 'react'
+import { useConvex } from 'convex/react'
+import type { ConvexReactClient } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import { UPLOAD_CHUNK_SIZE_BYTES } from '@convex/lib/config'
+import type { Id } from '@convex/_generated/dataModel'
+
+const MAX_CHUNK_ATTEMPTS = 4
+const RESUME_KEY_PREFIX = 'upload-session:'
+
+export interface UploadProgress {
+  loaded: number
+  total: number
+}
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled')
+    this.name = 'UploadCancelledError'
+  }
+}
+
+// Identifies the same file across page reloads for resuming
+function resumeKey(file: File) {
+  return `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`
+}
+
+// Send a body to an upload URL with progress events; resolves with the response text
+function sendWithProgress(
+  method: 'POST' | 'PUT',
+  url: string,
+  body: Blob,
+  contentType: string,
+  signal: AbortSignal,
+  onProgress: (loaded: number) => void
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open(method, url)
+    xhr.setRequestHeader('Content-Type', contentType)
+    xhr.upload.onprogress = (e) => onProgress(e.loaded)
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.responseText)
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`))
+      }
+    }
+    xhr.onerror = () => reject(new Error('Network error during upload'))
+    xhr.onabort = () => reject(new UploadCancelledError())
+    signal.addEventListener('abort', () => xhr.abort(), { once: true })
+    xhr.send(body)
+  })
+}
+
+function delay(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        reject(new UploadCancelledError())
+      },
+      { once: true }
+    )
+  })
+}
+
+export interface UploadFileOptions {
+  folderId?: Id<'folders'>
+  signal: AbortSignal
+  onProgress: (progress: UploadProgress) => void
+}
+
+async function uploadSingle(convex: ConvexReactClient, file: File, options: UploadFileOptions) {
+  const { uploadUrl, uploadId, method } = await convex.mutation(api.files.generateUploadUrl, {
+    size: file.size,
+    type: file.type,
+  })
+  const response = await sendWithProgress(
+    method,
+    uploadUrl,
+    file,
+    file.type,
+    options.signal,
+    (loaded) => options.onProgress({ loaded, total: file.size })
+  )
+
+  const metadata = {
+    uploadId,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    folderId: options.folderId,
+  }
+  // R2 (PUT) uploads are checked against the bucket by an action
+  if (method === 'PUT') {
+    return await convex.action(api.files.saveObject, metadata)
+  }
+  const { storageId } = JSON.parse(response) as { storageId: Id<'_storage'> }
+  return await convex.mutation(api.files.saveFile, { ...metadata, storageId })
+}
+
+async function uploadChunked(
+  convex: ConvexReactClient,
+  file: File,
+  sessionId: Id<'uploadSessions'>,
+  options: UploadFileOptions
+) {
+  const { signal, onProgress } = options
+  const status = await convex.query(api.uploads.status, { sessionId })
+  if (!status) {
+    throw new Error('Upload session not found')
+  }
+
+  const { chunkSize, totalChunks } = status
+  const done = new Set(status.uploadedChunks)
+  const chunkBytes = (index: number) => Math.min(chunkSize, file.size - index * chunkSize)
+  let completedBytes = [...done].reduce((sum, index) => sum + chunkBytes(index), 0)
+  onProgress({ loaded: completedBytes, total: file.size })
+
+  for (let index = 0; index < totalChunks; index++) {
+    if (done.has(index)) continue
+    const chunk = file.slice(index * chunkSize, index * chunkSize + chunkBytes(index))
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { uploadUrl, uploadId } = await convex.mutation(api.uploads.chunkUploadUrl, {
+          sessionId,
+        })
+        const response = await sendWithProgress(
+          'POST',
+          uploadUrl,
+          chunk,
+          'application/octet-stream',
+          signal,
+          (loaded) => onProgress({ loaded: completedBytes + loaded, total: file.size })
+        )
+        const { storageId } = JSON.parse(response) as { storageId: Id<'_storage'> }
+        await convex.mutation(api.uploads.saveChunk, { sessionId, index, uploadId, storageId })
+        break
+      } catch (error) {
+        if (error instanceof UploadCancelledError) {
+          throw error
+        }
+        if (attempt >= MAX_CHUNK_ATTEMPTS) {
+          // The session stays in localStorage so the upload can be resumed
+          throw new Error('Upload interrupted. Select the same file again to resume.')
+        }
+        // Back off before retrying the chunk (1s, 2s, 4s)
+        await delay(1000 * 2 ** (attempt - 1), signal)
+      }
+    }
+
+    completedBytes += chunk.size
+    onProgress({ loaded: completedBytes, total: file.size })
+  }
+
+  await convex.mutation(api.uploads.complete, { sessionId })
+
+  // Wait for the server to assemble the chunks
+  return await new Promise<Id<'files'>>((resolve, reject) => {
+    const watch = convex.watchQuery(api.uploads.status, { sessionId })
+    const check = () => {
+      const current = watch.localQueryResult()
+      if (current?.status === 'complete' && current.fileId) {
+        unsubscribe()
+        resolve(current.fileId)
+      } else if (current?.status === 'failed' || current === null) {
+        unsubscribe()
+        reject(new Error(current?.error ?? 'Upload failed'))
+      }
+    }
+    const unsubscribe = watch.onUpdate(check)
+    check()
+  })
+}
+
+/**
+ * Upload a file, in chunks if it is larger than UPLOAD_CHUNK_SIZE_BYTES.
+ * Rejects with UploadCancelledError when `signal` is aborted.
+ */
+export async function uploadFile(
+  convex: ConvexReactClient,
+  file: File,
+  options: UploadFileOptions
+): Promise<Id<'files'>> {
+  options.onProgress({ loaded: 0, total: file.size })
+  // Presigned R2 uploads take any size in one request
+  if (
+    file.size <= UPLOAD_CHUNK_SIZE_BYTES ||
+    (await convex.query(api.files.storageBackend, {})) === 'r2'
+  ) {
+    return await uploadSingle(convex, file, options)
+  }
+
+  // Resume an earlier session for the same file if it is still open
+  const key = resumeKey(file)
+  let sessionId = window.localStorage.getItem(key) as Id<'uploadSessions'> | null
+  const existing = sessionId ? await convex.query(api.uploads.status, { sessionId }) : null
+  if (!sessionId || existing?.status !== 'uploading') {
+    const started = await convex.mutation(api.uploads.start, {
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      folderId: options.folderId,
+    })
+    sessionId = started.sessionId
+    window.localStorage.setItem(key, sessionId)
+  }
+
+  try {
+    const fileId = await uploadChunked(convex, file, sessionId, options)
+    window.localStorage.removeItem(key)
+    return fileId
+  } catch (error) {
+    if (error instanceof UploadCancelledError) {
+      // Cancelled uploads are not resumable
+      window.localStorage.removeItem(key)
+      await convex.mutation(api.uploads.cancel, { sessionId })
+    }
+    throw error
+  }
+}
+
+export function useFileUpload() {
+  const convex = useConvex()
+  const [progress, setProgress] = useState<UploadProgress | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const upload = useCallback(
+    async (file: File, options: { folderId?: Id<'folders'> } = {}) => {
+      const controller = new AbortController()
+      abortRef.current = controller
+
+      try {
+        return await uploadFile(convex, file, {
+          folderId: options.folderId,
+          signal: controller.signal,
+          onProgress: setProgress,
+        })
+      } finally {
+        abortRef.current = null
+        setProgress(null)
+      }
+    },
+    [convex]
+  )
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
+  return {
+    upload,
+    cancel,
+    progress,
+    isUploading: progress !== null,
+  }
+}
@@ -5,6 +5,10 @@
  * Allows admins to "View as User" - temporarily hide admin features
  * to see the app as a regular user would experience it.
  *
+ * This only affects the UI; Convex functions still run as the admin. To act
+ * as a specific user, start an impersonation from the admin console
+ * (see convex/impersonation.ts).
+ *
  * ## Setup
  *
  * Wrap your app with `ImpersonateProvider` (already done in __root.tsx):
@@ -0,0 +1,60 @@
+/**
+ * useInfiniteScroll Hook
+ * ======================
+ *
+ * Calls `onLoadMore` when a sentinel element scrolls into view.
+ * Pair it with a paginated query (e.g. `usePaginatedMessages`).
+ *
+ * @example
+ * ```tsx
+ * const { messages, canLoadMore, loadMore } = usePaginatedMessages()
+ * const sentinelRef = useInfiniteScroll<HTMLDivElement>(loadMore, { enabled: canLoadMore })
+ *
+ * return (
+ *   <div className="overflow-y-auto">
+ *     {messages.map(...)}
+ *     <div ref={sentinelRef} />
+ *   </div>
+ * )
+ * ```
+ */
+
+import { useEffect, useRef } from 'react'
+
+export function useInfiniteScroll<T extends Element>(
+  onLoadMore: () => void,
+  options: {
+    /** Only observe while more data can be loaded (default: true) */
+    enabled?: boolean
+    /** Start loading before the sentinel is fully visible (default: '200px') */
+    rootMargin?: string
+  } = {}
+) {
+  const { enabled = true, rootMargin = '200px' } = options
+  const sentinelRef = useRef<T>(null)
+
+  // Keep the latest callback without re-creating the observer
+  const onLoadMoreRef = useRef(onLoadMore)
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore
+  }, [onLoadMore])
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!enabled || !sentinel || typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current()
+        }
+      },
+      { rootMargin }
+    )
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [enabled, rootMargin])
+
+  return sentinelRef
+}
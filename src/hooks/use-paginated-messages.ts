@@ -0,0 +1,78 @@
+/**
+ * usePaginatedMessages Hook
+ * =========================
+ *
+ * Cursor-based, real-time message history for the message board.
+ *
+ * The first page is preloaded during SSR by the route `loader` (through
+ * React Query), so the page renders with data on the server. Once the
+ * Convex client is connected, Convex's `usePaginatedQuery` takes over and
+ * keeps every loaded page live and gap-free as new messages arrive.
+ *
+ * @example
+ * ```tsx
+ * // Route loader (SSR preload)
+ * loader: async ({ context }) => {
+ *   await context.queryClient.ensureQueryData(messagesFirstPageQuery())
+ * }
+ *
+ * // Component
+ * const { messages, canLoadMore, loadMore } = usePaginatedMessages()
+ * ```
+ *
+ * @returns
+ * - `messages` - Loaded messages, newest first
+ * - `status` - Convex pagination status
+ * - `canLoadMore` - true if older messages exist
+ * - `isLoadingMore` - true while the next page is loading
+ * - `loadMore` - Load the next (older) page
+ */
+
+import { useSuspenseQuery } from '@tanstack/react-query'
+import { convexQuery } from '@convex-dev/react-query'
+import { usePaginatedQuery } from 'convex/react'
+import { useCallback } from 'react'
+import { api } from '@convex/_generated/api'
+
+/** Number of messages per page */
+export const MESSAGES_PAGE_SIZE = 20
+
+/**
+ * Query options for the first page of messages.
+ * Shared by the route loader and the hook so the SSR cache entry is reused.
+ */
+export function messagesFirstPageQuery(pageSize: number = MESSAGES_PAGE_SIZE) {
+  return convexQuery(api.messages.list, {
+    paginationOpts: { numItems: pageSize, cursor: null },
+  })
+}
+
+export function usePaginatedMessages(pageSize: number = MESSAGES_PAGE_SIZE) {
+  // SSR-preloaded first page (rendered until the live subscription is ready)
+  const { data: firstPage } = useSuspenseQuery(messagesFirstPageQuery(pageSize))
+
+  // Live pagination over the Convex WebSocket client
+  const {
+    results,
+    status: liveStatus,
+    loadMore: loadMoreLive,
+  } = usePaginatedQuery(api.messages.list, {}, { initialNumItems: pageSize })
+
+  const isHydrating = liveStatus === 'LoadingFirstPage'
+  const messages = isHydrating ? firstPage.page : results
+  const status = isHydrating ? (firstPage.isDone ? 'Exhausted' : 'CanLoadMore') : liveStatus
+
+  const loadMore = useCallback(() => {
+    if (liveStatus === 'CanLoadMore') {
+      loadMoreLive(pageSize)
+    }
+  }, [liveStatus, loadMoreLive, pageSize])
+
+  return {
+    messages,
+    status,
+    canLoadMore: status === 'CanLoadMore',
+    isLoadingMore: liveStatus === 'LoadingMore',
+    loadMore,
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * usePermission Hook
+ * ==================
+ *
+ * Check if the current user's role grants a permission (see PERMISSIONS in
+ * convex/lib/config.ts). Prefer this over `useAdmin` for feature checks, so
+ * custom roles created in the admin console work without code changes.
+ *
+ * @example
+ * ```tsx
+ * import { usePermission } from '@/hooks/use-permission'
+ * import { PERMISSIONS } from '@convex/lib/config'
+ *
+ * function DeleteButton() {
+ *   const { hasPermission } = usePermission(PERMISSIONS.MESSAGES_DELETE_ANY)
+ *   if (!hasPermission) return null
+ *   return <button>Delete</button>
+ * }
+ * ```
+ *
+ * @returns
+ * - `hasPermission` - true if the user has the permission (false in "View as User" mode)
+ * - `isLoading` - true while loading the user's permissions
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import type { Permission } from '@convex/lib/config'
+import { useImpersonate } from './use-impersonate'
+
+export function usePermission(permission: Permission) {
+  const { data: access, isLoading } = useQuery(convexQuery(api.users.access, {}))
+  const { isViewingAsUser } = useImpersonate()
+
+  return {
+    /** Permission with "View as User" mode applied */
+    hasPermission: !isViewingAsUser && !!access?.permissions.includes(permission),
+    /** Loading state */
+    isLoading,
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * useUploadQueue Hook
+ * ===================
+ *
+ * Queue for uploading many files at once (multi-select or drag and drop).
+ * Runs up to UPLOAD_CONCURRENCY uploads in parallel with `uploadFile`, and
+ * tracks status and progress per file. Failed and cancelled files can be
+ * retried.
+ *
+ * Before a batch is queued, `files.uploadLimits` is read: files that are too
+ * large, of a disallowed type, or beyond the `uploadFile` rate limit or the
+ * remaining storage quota are marked as failed straight away instead of
+ * being sent to the server.
+ *
+ * @example
+ * ```tsx
+ * const { items, enqueue, retry, cancel, clearFinished } = useUploadQueue({
+ *   onBatchComplete: ({ uploaded, failed }) => toast(`${uploaded} uploaded, ${failed} failed`),
+ * })
+ *
+ * <input type="file" multiple onChange={(e) => enqueue([...e.target.files!], { folderId })} />
+ * ```
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useConvex } from 'convex/react'
+import { isRateLimitError } from '@convex-dev/rate-limiter'
+import { api } from '@convex/_generated/api'
+import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE_BYTES, UPLOAD_CONCURRENCY } from '@convex/lib/config'
+import { formatFileSize } from '@/lib/utils'
+import type { Id } from '@convex/_generated/dataModel'
+import { uploadFile, UploadCancelledError } from './use-file-upload'
+
+export type UploadStatus = 'queued' | 'uploading' | 'complete' | 'failed' | 'cancelled'
+
+export interface UploadQueueItem {
+  id: string
+  file: File
+  folderId?: Id<'folders'>
+  status: UploadStatus
+  loaded: number
+  error?: string
+}
+
+export interface UploadBatchSummary {
+  uploaded: number
+  failed: number
+  cancelled: number
+}
+
+// Human-readable wait, e.g. "12 seconds" or "2 minutes"
+function formatWait(ms: number) {
+  const seconds = Math.max(1, Math.ceil(ms / 1000))
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`
+  const minutes = Math.ceil(seconds / 60)
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`
+}
+
+function describeError(error: unknown) {
+  if (isRateLimitError(error)) {
+    return `Upload limit reached. Retry in ${formatWait(error.data.retryAfter)}.`
+  }
+  return error instanceof Error ? error.message : 'Upload failed'
+}
+
+export function useUploadQueue(
+  options: {
+    onBatchComplete?: (summary: UploadBatchSummary) => void
+  } = {}
+) {
+  const convex = useConvex()
+  const [items, setItems] = useState<UploadQueueItem[]>([])
+  const itemsRef = useRef(items)
+  itemsRef.current = items
+  const controllers = useRef(new Map<string, AbortController>())
+  const batch = useRef<UploadBatchSummary>({ uploaded: 0, failed: 0, cancelled: 0 })
+  const onBatchComplete = useRef(options.onBatchComplete)
+  onBatchComplete.current = options.onBatchComplete
+
+  const update = useCallback((id: string, changes: Partial<UploadQueueItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)))
+  }, [])
+
+  // Record how an upload ended; report the batch once nothing is left running
+  const finish = useCallback(
+    (id: string, status: 'complete' | 'failed' | 'cancelled', error?: string) => {
+      controllers.current.delete(id)
+      update(id, { status, error })
+      if (status === 'complete') batch.current.uploaded++
+      if (status === 'failed') batch.current.failed++
+      if (status === 'cancelled') batch.current.cancelled++
+    },
+    [update]
+  )
+
+  const start = useCallback(
+    (item: UploadQueueItem) => {
+      const controller = new AbortController()
+      controllers.current.set(item.id, controller)
+      update(item.id, { status: 'uploading', loaded: 0, error: undefined })
+
+      uploadFile(convex, item.file, {
+        folderId: item.folderId,
+        signal: controller.signal,
+        onProgress: ({ loaded }) => update(item.id, { loaded }),
+      })
+        .then(() => finish(item.id, 'complete'))
+        .catch((error: unknown) => {
+          if (error instanceof UploadCancelledError) {
+            finish(item.id, 'cancelled')
+          } else {
+            console.error(`Upload of ${item.file.name} failed:`, error)
+            finish(item.id, 'failed', describeError(error))
+          }
+        })
+    },
+    [convex, update, finish]
+  )
+
+  // Start queued uploads while there are free slots
+  useEffect(() => {
+    const active = items.filter((item) => item.status === 'uploading').length
+    const next = items
+      .filter((item) => item.status === 'queued' && !controllers.current.has(item.id))
+      .slice(0, Math.max(0, UPLOAD_CONCURRENCY - active))
+    for (const item of next) {
+      start(item)
+    }
+
+    const { uploaded, failed, cancelled } = batch.current
+    if (active === 0 && next.length === 0 && uploaded + failed + cancelled > 0) {
+      batch.current = { uploaded: 0, failed: 0, cancelled: 0 }
+      onBatchComplete.current?.({ uploaded, failed, cancelled })
+    }
+  }, [items, start])
+
+  // Queue a batch of files, checking rate and storage limits first
+  const enqueue = useCallback(
+    async (files: File[], target: { folderId?: Id<'folders'> } = {}) => {
+      if (files.length === 0) return
+
+      const limits = await convex.query(api.files.uploadLimits, {})
+      let uploadsLeft = limits?.uploads ?? 0
+      let storageLeft = limits?.storageRemaining ?? 0
+
+      const queued = files.map((file): UploadQueueItem => {
+        const item: UploadQueueItem = {
+          id: crypto.randomUUID(),
+          file,
+          folderId: target.folderId,
+          status: 'queued',
+          loaded: 0,
+        }
+        // Early feedback only; the server enforces the same limits
+        if (file.size > MAX_FILE_SIZE_BYTES) {
+          batch.current.failed++
+          return {
+            ...item,
+            status: 'failed',
+            error: `File too large. Maximum size is ${formatFileSize(MAX_FILE_SIZE_BYTES)}.`,
+          }
+        }
+        if (!ALLOWED_FILE_TYPES.includes(file.type)) {
+          batch.current.failed++
+          return { ...item, status: 'failed', error: 'This file type is not allowed.' }
+        }
+        if (file.size > storageLeft) {
+          batch.current.failed++
+          return { ...item, status: 'failed', error: 'Storage quota exceeded' }
+        }
+        if (uploadsLeft <= 0) {
+          // Each upload beyond the limit waits for one more token
+          const wait = (1 - uploadsLeft) * (limits?.msPerUpload ?? 0)
+          uploadsLeft--
+          batch.current.failed++
+          return {
+            ...item,
+            status: 'failed',
+            error: `Upload limit reached. Retry in ${formatWait(wait)}.`,
+          }
+        }
+        uploadsLeft--
+        storageLeft -= file.size
+        return item
+      })
+
+      setItems((prev) => [...prev, ...queued])
+    },
+    [convex]
+  )
+
+  // Queue a failed or cancelled upload again
+  const retry = useCallback((id: string) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.id === id && (item.status === 'failed' || item.status === 'cancelled')
+          ? { ...item, status: 'queued', loaded: 0, error: undefined }
+          : item
+      )
+    )
+  }, [])
+
+  // Cancel a running upload, or drop a queued one
+  const cancel = useCallback(
+    (id: string) => {
+      const controller = controllers.current.get(id)
+      if (controller) {
+        controller.abort()
+      } else if (itemsRef.current.some((item) => item.id === id && item.status === 'queued')) {
+        finish(id, 'cancelled')
+      }
+    },
+    [finish]
+  )
+
+  // Remove finished uploads from the list
+  const clearFinished = useCallback(() => {
+    setItems((prev) =>
+      prev.filter((item) => item.status === 'queued' || item.status === 'uploading')
+    )
+  }, [])
+
+  return {
+    items,
+    enqueue,
+    retry,
+    cancel,
+    clearFinished,
+    isUploading: items.some((item) => item.status === 'queued' || item.status === 'uploading'),
+  }
+}
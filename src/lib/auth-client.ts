@@ -1,11 +1,23 @@
 import { createAuthClient } from 'better-auth/react'
 import { convexClient } from '@convex-dev/better-auth/client/plugins'
+import { magicLinkClient, twoFactorClient } from 'better-auth/client/plugins'
+import { passkeyClient } from '@better-auth/passkey/client'
 
 // The convexClient() plugin routes auth requests through the Convex
 // infrastructure (WebSocket/HTTP), avoiding CORS issues entirely.
 // No baseURL needed — the plugin handles routing internally.
 export const authClient = createAuthClient({
-  plugins: [convexClient()],
+  plugins: [
+    convexClient(),
+    magicLinkClient(),
+    // Password sign-in for users with 2FA stops here until they enter a code
+    twoFactorClient({
+      onTwoFactorRedirect() {
+        location.assign('/two-factor')
+      },
+    }),
+    passkeyClient(),
+  ],
 })
 
 // Export commonly used hooks and utilities
@@ -31,3 +43,31 @@ export const signOut = (opts?: Parameters<typeof _signOut>[0]) =>
   })
 
 export { signIn, useSession }
+
+/**
+ * Sign in with a passkey, then reload the page so Convex picks up the new
+ * session. Resolves to false if the user dismisses the browser's prompt.
+ */
+export async function signInWithPasskey() {
+  const result = await signIn.passkey()
+  if (result.error && 'code' in result.error && result.error.code === 'AUTH_CANCELLED') {
+    return false
+  }
+  throwAuthError(result)
+  location.assign('/')
+  return true
+}
+
+/**
+ * Throw the error from a Better Auth client call, so forms built with
+ * createForm show it (client calls return `{ data, error }` instead of throwing).
+ */
+export function throwAuthError(
+  result: { error: { message?: string; status: number; statusText: string } | null },
+  messages: Record<number, string> = {}
+) {
+  const { error } = result
+  if (error) {
+    throw new Error(messages[error.status] ?? error.message ?? error.statusText)
+  }
+}
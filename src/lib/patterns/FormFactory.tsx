@@ -59,6 +59,8 @@ export interface FormConfig<T extends z.ZodObject<z.ZodRawShape>> {
 
 /**
  * Create a form component from a Zod schema
+ * If `onSubmit` throws, its message is shown above the submit button and the
+ * fields keep their values.
  */
 export function createForm<T extends z.ZodObject<z.ZodRawShape>>(config: FormConfig<T>) {
   return function Form() {
@@ -67,14 +69,21 @@ export function createForm<T extends z.ZodObject<z.ZodRawShape>>(config: FormCon
       handleSubmit,
       formState: { errors, isSubmitting },
       reset,
+      setError,
     } = useForm<z.output<T>>({
       resolver: zodResolver(config.schema) as Resolver<z.output<T>>,
       defaultValues: config.defaultValues as any,
     })
 
     const onSubmit: SubmitHandler<z.output<T>> = async (data) => {
-      await config.onSubmit(data)
-      reset()
+      try {
+        await config.onSubmit(data)
+        reset()
+      } catch (error) {
+        setError('root', {
+          message: error instanceof Error ? error.message : 'Something went wrong',
+        })
+      }
     }
 
     const fields = Object.keys(config.schema.shape) as Array<keyof z.output<T>>
@@ -140,6 +149,8 @@ export function createForm<T extends z.ZodObject<z.ZodRawShape>>(config: FormCon
           )
         })}
 
+        {errors.root && <p className="text-sm text-destructive">{errors.root.message}</p>}
+
         <button
           type="submit"
           disabled={isSubmitting}
@@ -25,11 +25,17 @@
  */
 
 import { Navigate } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import type { Permission } from '@convex/lib/config'
 import { useSession } from '@/lib/auth-client'
 import { useAdmin } from '@/hooks/use-admin'
+import { usePermission } from '@/hooks/use-permission'
+import { useImpersonate } from '@/hooks/use-impersonate'
 import type { ReactElement, ReactNode } from 'react'
 
-type RedirectTarget = '/' | '/files' | '/dashboard' | '.' | '..'
+type RedirectTarget = '/' | '/files' | '/trash' | '/dashboard' | '.' | '..'
 
 /**
  * Require Authentication Guard
@@ -92,9 +98,42 @@ export function RequireAdmin({
   return <>{children}</>
 }
 
+/**
+ * Require Permission Guard
+ * Redirects to home if the user's role doesn't grant the permission
+ * (see PERMISSIONS in convex/lib/config.ts)
+ */
+export function RequirePermission({
+  children,
+  permission,
+  redirectTo = '/',
+  fallback,
+}: {
+  children: ReactNode
+  permission: Permission
+  redirectTo?: RedirectTarget
+  fallback?: ReactNode
+}) {
+  const { data: session, isPending } = useSession()
+  const { hasPermission, isLoading } = usePermission(permission)
+
+  if (isPending || isLoading) {
+    return (
+      fallback ?? <div className="flex items-center justify-center min-h-screen">Loading...</div>
+    )
+  }
+
+  if (!session?.user || !hasPermission) {
+    return <Navigate to={redirectTo} />
+  }
+
+  return <>{children}</>
+}
+
 /**
  * Require Specific Role Guard
- * Generic guard for any role
+ * Generic guard for any role, including custom roles from the admin console.
+ * Prefer RequirePermission so new roles don't need code changes.
  */
 export function RequireRole({
   children,
@@ -108,21 +147,23 @@ export function RequireRole({
   fallback?: ReactNode
 }) {
   const { data: session, isPending } = useSession()
-  const { isAdmin, isLoading: isAdminLoading } = useAdmin()
+  const { data: access, isLoading: isAccessLoading } = useQuery(convexQuery(api.users.access, {}))
+  const { isViewingAsUser } = useImpersonate()
 
-  if (isPending || isAdminLoading) {
+  if (isPending || isAccessLoading) {
     return (
       fallback ?? <div className="flex items-center justify-center min-h-screen">Loading...</div>
     )
   }
 
-  if (!session?.user) {
+  if (!session?.user || !access) {
     return <Navigate to={redirectTo} />
   }
 
+  // "View as User" mode sees the app with the default role
+  const currentRole = isViewingAsUser ? 'user' : access.role
   const allowedRoles = Array.isArray(role) ? role : [role]
-  const hasRole =
-    (allowedRoles.includes('admin') && isAdmin) || (allowedRoles.includes('user') && !!session.user)
+  const hasRole = allowedRoles.includes(currentRole)
 
   if (!hasRole) {
     return <Navigate to={redirectTo} />
@@ -246,6 +287,11 @@ export function ComposeGuards({
  *   <AdminPanel />
  * </RequireAdmin>
  *
+ * // Any role granting a permission
+ * <RequirePermission permission={PERMISSIONS.MESSAGES_DELETE_ANY}>
+ *   <ModerationQueue />
+ * </RequirePermission>
+ *
  * // Multiple guards
  * <ComposeGuards guards={[RequireAuth, RequireAdmin, RequireSubscription]}>
  *   <PremiumAdminFeature />
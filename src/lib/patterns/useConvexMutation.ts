@@ -161,7 +161,7 @@ export function useOptimisticMutation<Mutation extends FunctionReference<'mutati
  * Debounced mutation hook
  * Debounces mutation calls to avoid excessive requests
  */
-import { useCallback, useRef } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
 
 export function useDebouncedMutation<Mutation extends FunctionReference<'mutation'>>(
   mutation: Mutation,
@@ -199,6 +199,35 @@ export function useDebouncedMutation<Mutation extends FunctionReference<'mutatio
   }
 }
 
+/**
+ * Debounced query hook
+ * Waits until args stop changing before subscribing (e.g. search-as-you-type).
+ * Pass 'skip' to disable the query.
+ */
+export function useDebouncedQuery<Query extends FunctionReference<'query'>>(
+  query: Query,
+  args: FunctionArgs<Query> | 'skip',
+  delay: number = 300
+) {
+  const [debouncedArgs, setDebouncedArgs] = useState(args)
+  const argsKey = JSON.stringify(args)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedArgs(args), delay)
+    return () => clearTimeout(timeout)
+    // argsKey tracks args by value, so inline object literals don't reset the timer
+  }, [argsKey, delay])
+
+  const data = useConvexQuery(query, debouncedArgs)
+  const isDebouncing = argsKey !== JSON.stringify(debouncedArgs)
+
+  return {
+    data,
+    isLoading: debouncedArgs !== 'skip' && data === undefined,
+    isDebouncing,
+  }
+}
+
 /**
  * Batch mutation hook
  * Collects multiple mutations and executes them together
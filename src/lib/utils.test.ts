@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { highlightMatches, toCsv } from './utils'
+
+describe('highlightMatches', () => {
+  it('marks case-insensitive matches of each term', () => {
+    expect(highlightMatches('Hello Convex world', 'convex WORLD')).toEqual([
+      { text: 'Hello ', match: false },
+      { text: 'Convex', match: true },
+      { text: ' ', match: false },
+      { text: 'world', match: true },
+    ])
+  })
+
+  it('returns the whole text unmarked for an empty query', () => {
+    expect(highlightMatches('Hello', '  ')).toEqual([{ text: 'Hello', match: false }])
+  })
+
+  it('escapes regex characters in the query', () => {
+    expect(highlightMatches('a+b = c', 'a+b')).toEqual([
+      { text: 'a+b', match: true },
+      { text: ' = c', match: false },
+    ])
+  })
+})
+
+describe('toCsv', () => {
+  it('joins fields with commas and rows with CRLF', () => {
+    expect(
+      toCsv([
+        ['a', 'b'],
+        [1, true],
+      ])
+    ).toBe('a,b\r\n1,true')
+  })
+
+  it('quotes fields with commas, quotes or line breaks', () => {
+    expect(toCsv([['x,y', 'say "hi"', 'two\nlines']])).toBe('"x,y","say ""hi""","two\nlines"')
+  })
+
+  it('writes null and undefined as empty fields', () => {
+    expect(toCsv([[null, undefined, 'z']])).toBe(',,z')
+  })
+
+  it('prefixes text that starts like a formula so it is not run', () => {
+    expect(toCsv([['=SUM(A1)', '+1', '-2', '@cmd', '\tx', '\ry', 'a=b', -3]])).toBe(
+      `'=SUM(A1),'+1,'-2,'@cmd,'\tx,"'\ry",a=b,-3`
+    )
+  })
+})
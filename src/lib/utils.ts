@@ -24,3 +24,42 @@ export function formatRelativeTime(timestamp: number): string {
   if (minutes > 0) return `${minutes}m ago`
   return 'just now'
 }
+
+// Split text into segments, marking case-insensitive matches of the query's terms
+// Used to highlight search results
+export function highlightMatches(
+  text: string,
+  query: string
+): Array<{ text: string; match: boolean }> {
+  const terms = query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  if (terms.length === 0) return [{ text, match: false }]
+
+  const pattern = new RegExp(`(${terms.join('|')})`, 'gi')
+  return text
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({ text: part, match: terms.some((t) => new RegExp(`^${t}$`, 'i').test(part)) }))
+}
+
+// Build CSV text (RFC 4180) from a header row and data rows
+// Fields with commas, quotes or line breaks are quoted; null/undefined are empty.
+// Strings a spreadsheet would run as a formula get a leading ' so they stay text.
+export function toCsv(rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          let text = value === null || value === undefined ? '' : String(value)
+          if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+            text = `'${text}`
+          }
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+        })
+        .join(',')
+    )
+    .join('\r\n')
+}
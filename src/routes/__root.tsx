@@ -6,6 +6,7 @@ import { Toaster } from 'sonner'
 import { ErrorBoundary } from '@/components/ErrorBoundary'
 import { ImpersonateProvider } from '@/hooks/use-impersonate'
 import { AdminToolbar } from '@/components/AdminToolbar'
+import { ImpersonationBanner } from '@/components/ImpersonationBanner'
 import { ThemeToggle } from '@/components/ThemeToggle'
 import { authClient } from '@/lib/auth-client'
 import { getToken } from '@/lib/auth-server'
@@ -70,6 +71,7 @@ function RootComponent() {
         </head>
         <body className="min-h-screen bg-background antialiased">
           <ImpersonateProvider>
+            <ImpersonationBanner />
             <ErrorBoundary>
               <Outlet />
             </ErrorBoundary>
@@ -5,8 +5,7 @@ export const Route = createFileRoute('/_authenticated')({
     // Check authentication from root route context
     // The root route's beforeLoad already called getToken() and set isAuthenticated
     if (!context.isAuthenticated) {
-      // Redirect to home page (which shows the sign-in button)
-      throw redirect({ to: '/' })
+      throw redirect({ to: '/sign-in' })
     }
   },
   component: AuthenticatedLayout,
@@ -0,0 +1,265 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useConvex, usePaginatedQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import type { Doc } from '@convex/_generated/dataModel'
+import type { PaginationResult } from 'convex/server'
+import { AUDIT_ACTIONS, AUDIT_EXPORT_MAX_ROWS, PERMISSIONS } from '@convex/lib/config'
+import type { AuditFilters } from '@convex/audit'
+import { RequirePermission } from '@/lib/patterns/RouteGuards'
+import { AuditLogRow } from '@/components/AuditLogRow'
+import { toCsv } from '@/lib/utils'
+import { ArrowLeft, Download, Loader2, ScrollText } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+/** Number of audit entries per page */
+const AUDIT_PAGE_SIZE = 25
+
+/** Number of audit entries fetched per query when exporting */
+const AUDIT_EXPORT_BATCH_SIZE = 500
+
+export const Route = createFileRoute('/_authenticated/admin/audit')({
+  component: () => (
+    <RequirePermission permission={PERMISSIONS.AUDIT_READ}>
+      <AuditLogPage />
+    </RequirePermission>
+  ),
+})
+
+// Date input value (YYYY-MM-DD) to the start or end of that day, local time
+function parseDay(value: string, endOfDay: boolean) {
+  if (!value) return undefined
+  return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime()
+}
+
+function toCsvRows(entries: Doc<'auditLog'>[]) {
+  return [
+    [
+      'time',
+      'action',
+      'actor_id',
+      'actor_name',
+      'actor_email',
+      'target_table',
+      'target_id',
+      'impersonated_by',
+      'session_id',
+      'ip_address',
+      'user_agent',
+      'before',
+      'after',
+    ],
+    ...entries.map((entry) => [
+      new Date(entry._creationTime).toISOString(),
+      entry.action,
+      entry.actorId,
+      entry.actorName,
+      entry.actorEmail,
+      entry.targetTable,
+      entry.targetId,
+      entry.metadata.impersonatedBy,
+      entry.metadata.sessionId,
+      entry.metadata.ipAddress,
+      entry.metadata.userAgent,
+      JSON.stringify(entry.before),
+      JSON.stringify(entry.after),
+    ]),
+  ]
+}
+
+function AuditLogPage() {
+  const convex = useConvex()
+  const [action, setAction] = useState('')
+  const [actorEmailText, setActorEmailText] = useState('')
+  const [targetIdText, setTargetIdText] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [isExporting, setIsExporting] = useState(false)
+
+  // Wait until typing stops before filtering
+  const [actorEmail, setActorEmail] = useState('')
+  const [targetId, setTargetId] = useState('')
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setActorEmail(actorEmailText.trim())
+      setTargetId(targetIdText.trim())
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [actorEmailText, targetIdText])
+
+  const filters: AuditFilters = {
+    action: action || undefined,
+    actorEmail: actorEmail || undefined,
+    targetId: targetId || undefined,
+    from: parseDay(from, false),
+    to: parseDay(to, true),
+  }
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.audit.list,
+    { filters },
+    { initialNumItems: AUDIT_PAGE_SIZE }
+  )
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      // One page at a time, so no single query reads the whole log
+      const rows: Doc<'auditLog'>[] = []
+      let cursor: string | null = null
+      let truncated = false
+      while (true) {
+        const page: PaginationResult<Doc<'auditLog'>> = await convex.query(api.audit.list, {
+          filters,
+          paginationOpts: {
+            numItems: Math.min(AUDIT_EXPORT_BATCH_SIZE, AUDIT_EXPORT_MAX_ROWS - rows.length),
+            cursor,
+          },
+        })
+        rows.push(...page.page)
+        if (page.isDone) break
+        if (rows.length >= AUDIT_EXPORT_MAX_ROWS) {
+          truncated = true
+          break
+        }
+        cursor = page.continueCursor
+      }
+
+      const blob = new Blob([toCsv(toCsvRows(rows))], { type: 'text/csv;charset=utf-8' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+
+      if (truncated) {
+        toast.warning(
+          `Exported the newest ${AUDIT_EXPORT_MAX_ROWS} entries. Narrow the filters to export the rest.`
+        )
+      }
+    } catch (error) {
+      console.error('Failed to export audit log:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to export audit log.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const inputClass =
+    'px-3 py-2 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring'
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              to="/admin/users"
+              className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Users
+            </Link>
+            <h1 className="text-xl font-bold flex items-center gap-2">
+              <ScrollText className="w-5 h-5" />
+              Audit Log
+            </h1>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-md bg-secondary hover:bg-secondary/80 transition-colors disabled:opacity-50"
+          >
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4" />
+            )}
+            Export CSV
+          </button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value)}
+            className={inputClass}
+            aria-label="Action"
+          >
+            <option value="">All actions</option>
+            {AUDIT_ACTIONS.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="search"
+            value={actorEmailText}
+            onChange={(e) => setActorEmailText(e.target.value)}
+            placeholder="Actor email"
+            className={inputClass}
+          />
+          <input
+            type="search"
+            value={targetIdText}
+            onChange={(e) => setTargetIdText(e.target.value)}
+            placeholder="Target ID"
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className={inputClass}
+            aria-label="From"
+          />
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className={inputClass}
+            aria-label="To"
+          />
+        </div>
+
+        <div className="bg-card rounded-lg border border-border">
+          {status === 'LoadingFirstPage' ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : results.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <ScrollText className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>No audit entries match these filters.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {results.map((entry) => (
+                <AuditLogRow key={entry._id} entry={entry} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {(status === 'CanLoadMore' || status === 'LoadingMore') && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => loadMore(AUDIT_PAGE_SIZE)}
+              disabled={status === 'LoadingMore'}
+              className="flex items-center gap-2 px-4 py-2 text-sm rounded-md bg-secondary hover:bg-secondary/80 transition-colors disabled:opacity-50"
+            >
+              {status === 'LoadingMore' && <Loader2 className="w-4 h-4 animate-spin" />}
+              Load more
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery, useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { PERMISSIONS } from '@convex/lib/config'
+import { RequirePermission } from '@/lib/patterns/RouteGuards'
+import { RoleEditor } from '@/components/RoleEditor'
+import { ArrowLeft, KeyRound, Loader2, Plus } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+export const Route = createFileRoute('/_authenticated/admin/roles')({
+  component: () => (
+    <RequirePermission permission={PERMISSIONS.ROLES_MANAGE}>
+      <AdminRolesPage />
+    </RequirePermission>
+  ),
+})
+
+function AdminRolesPage() {
+  const { data: roles, isLoading } = useQuery(convexQuery(api.roles.list, {}))
+  const saveRole = useConvexMutation(api.roles.save)
+
+  const [newName, setNewName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+
+    setIsCreating(true)
+    try {
+      await saveRole({ name: newName, permissions: [] })
+      setNewName('')
+    } catch (error) {
+      console.error('Failed to create role:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create role.')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Link
+            to="/admin/users"
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Users
+          </Link>
+          <h1 className="text-xl font-bold flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            Roles
+          </h1>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New role name, e.g. moderator"
+            className="flex-1 px-3 py-2 rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+            disabled={isCreating}
+          />
+          <button
+            type="submit"
+            disabled={isCreating || !newName.trim()}
+            className="flex items-center gap-2 px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {isCreating ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4" />
+            )}
+            Create
+          </button>
+        </form>
+
+        <div className="bg-card rounded-lg border border-border">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {roles?.map((role) => (
+                // Remount when the saved role changes so the form resets
+                <RoleEditor
+                  key={[role.name, role.description, ...role.permissions].join(':')}
+                  role={role}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery } from '@convex-dev/react-query'
+import { usePaginatedQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import { PERMISSIONS } from '@convex/lib/config'
+import { useAdmin } from '@/hooks/use-admin'
+import { usePermission } from '@/hooks/use-permission'
+import { UserAdminRow } from '@/components/UserAdminRow'
+import { ArrowLeft, KeyRound, Loader2, ScrollText, Search, ShieldAlert, Users } from 'lucide-react'
+import { useEffect, useState } from 'react'
+
+/** Number of users per page */
+const USERS_PAGE_SIZE = 20
+
+export const Route = createFileRoute('/_authenticated/admin/users')({
+  component: AdminUsersPage,
+})
+
+function AdminUsersPage() {
+  const { hasPermission: canManageUsers, isLoading: isPermissionLoading } = usePermission(
+    PERMISSIONS.USERS_MANAGE
+  )
+  const { hasPermission: canManageRoles } = usePermission(PERMISSIONS.ROLES_MANAGE)
+  const { hasPermission: canReadAudit } = usePermission(PERMISSIONS.AUDIT_READ)
+  const { isAdmin } = useAdmin()
+  const { data: currentUser } = useQuery(convexQuery(api.users.current, {}))
+  const { data: roles } = useQuery({
+    ...convexQuery(api.roles.list, {}),
+    enabled: canManageUsers,
+  })
+
+  // Wait until typing stops before searching
+  const [searchText, setSearchText] = useState('')
+  const [search, setSearch] = useState('')
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchText.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [searchText])
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.admin.listUsers,
+    canManageUsers ? { search: search || undefined } : 'skip',
+    { initialNumItems: USERS_PAGE_SIZE }
+  )
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              to="/"
+              className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </Link>
+            <h1 className="text-xl font-bold flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Users
+            </h1>
+          </div>
+          <div className="flex items-center gap-4">
+            {canReadAudit && (
+              <Link
+                to="/admin/audit"
+                className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <ScrollText className="w-4 h-4" />
+                Audit log
+              </Link>
+            )}
+            {canManageRoles && (
+              <Link
+                to="/admin/roles"
+                className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <KeyRound className="w-4 h-4" />
+                Roles
+              </Link>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        {isPermissionLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !canManageUsers ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <ShieldAlert className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p>You don't have permission to manage users.</p>
+          </div>
+        ) : (
+          <>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <input
+                type="search"
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+                placeholder="Search by email..."
+                className="w-full pl-9 pr-3 py-2 rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+
+            <div className="bg-card rounded-lg border border-border">
+              {status === 'LoadingFirstPage' ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : results.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <Users className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                  <p>{search ? 'No users match your search.' : 'No users yet.'}</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-border">
+                  {results.map((user) => (
+                    <UserAdminRow
+                      key={user._id}
+                      user={user}
+                      roles={roles ?? []}
+                      isSelf={user._id === currentUser?._id}
+                      isAdmin={isAdmin}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {(status === 'CanLoadMore' || status === 'LoadingMore') && (
+              <div className="flex justify-center">
+                <button
+                  onClick={() => loadMore(USERS_PAGE_SIZE)}
+                  disabled={status === 'LoadingMore'}
+                  className="flex items-center gap-2 px-4 py-2 text-sm rounded-md bg-secondary hover:bg-secondary/80 transition-colors disabled:opacity-50"
+                >
+                  {status === 'LoadingMore' && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Load more
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -1,16 +1,29 @@
 import { createFileRoute } from '@tanstack/react-router'
+import { PERMISSIONS } from '@convex/lib/config'
+import { usePermission } from '@/hooks/use-permission'
+import { JobStatus } from '@/components/JobStatus'
 
 export const Route = createFileRoute('/_authenticated/dashboard')({
   component: Dashboard,
 })
 
 function Dashboard() {
+  const { hasPermission: canReadJobs } = usePermission(PERMISSIONS.JOBS_READ)
+
   return (
-    <div className="p-8">
-      <h1 className="text-2xl font-bold mb-4">Dashboard</h1>
-      <p className="text-muted-foreground">
-        This is a protected route. You can only see this if you're authenticated.
-      </p>
+    <div className="p-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold mb-4">Dashboard</h1>
+        <p className="text-muted-foreground">
+          This is a protected route. You can only see this if you're authenticated.
+        </p>
+      </div>
+
+      {canReadJobs && (
+        <div className="max-w-3xl">
+          <JobStatus />
+        </div>
+      )}
     </div>
   )
 }
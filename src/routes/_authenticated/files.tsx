@@ -2,99 +2,130 @@ import { createFileRoute, Link } from '@tanstack/react-router'
 import { useQuery } from '@tanstack/react-query'
 import { convexQuery, useConvexMutation } from '@convex-dev/react-query'
 import { api } from '@convex/_generated/api'
+import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE_BYTES } from '@convex/lib/config'
 import { useSession } from '@/lib/auth-client'
-import { formatFileSize, formatRelativeTime } from '@/lib/utils'
-import { Upload, File, Trash2, ArrowLeft, Loader2, Download } from 'lucide-react'
-import { useState, useRef } from 'react'
+import { cn } from '@/lib/cn'
+import { formatFileSize } from '@/lib/utils'
+import { StorageUsageBar } from '@/components/StorageUsageBar'
+import { FileRow } from '@/components/FileRow'
+import { FolderRow } from '@/components/FolderRow'
+import { FolderBreadcrumbs } from '@/components/FolderBreadcrumbs'
+import { UploadQueue } from '@/components/UploadQueue'
+import { useUploadQueue } from '@/hooks/use-upload-queue'
+import {
+  Upload,
+  File,
+  Trash2,
+  ArrowLeft,
+  Loader2,
+  FolderPlus,
+  X,
+  LayoutGrid,
+  List,
+} from 'lucide-react'
+import { useEffect, useState, useRef } from 'react'
 import type { Id } from '@convex/_generated/dataModel'
 import { toast } from 'sonner'
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+const VIEW_STORAGE_KEY = 'files-view'
+
+type FilesView = 'list' | 'grid'
+
+interface FilesSearch {
+  /** Current folder (omitted = root) */
+  folder?: string
+  /** Show files with this tag across all folders */
+  tag?: string
+}
 
 export const Route = createFileRoute('/_authenticated/files')({
+  validateSearch: (search: Record<string, unknown>): FilesSearch => ({
+    folder: typeof search.folder === 'string' ? search.folder : undefined,
+    tag: typeof search.tag === 'string' ? search.tag : undefined,
+  }),
   component: FilesPage,
 })
 
 function FilesPage() {
+  const { folder, tag } = Route.useSearch()
+  const folderId = folder as Id<'folders'> | undefined
+
   const { isPending: isSessionLoading } = useSession()
-  const { data: files, isLoading: isFilesLoading } = useQuery(
-    convexQuery(api.files.listMyFiles, {})
-  )
+  const { data: contents, isLoading: isFolderLoading } = useQuery({
+    ...convexQuery(api.files.listFolder, { folderId }),
+    enabled: !tag,
+  })
+  const { data: taggedFiles, isLoading: isTaggedLoading } = useQuery({
+    ...convexQuery(api.files.listByTag, { tag: tag ?? '' }),
+    enabled: !!tag,
+  })
+  const { data: allTags } = useQuery(convexQuery(api.files.listTags, {}))
 
-  const generateUploadUrl = useConvexMutation(api.files.generateUploadUrl)
-  const saveFile = useConvexMutation(api.files.saveFile)
-  const deleteFile = useConvexMutation(api.files.deleteFile)
+  const folders = tag ? [] : (contents?.folders ?? [])
+  const files = tag ? taggedFiles : contents?.files
+  const isFilesLoading = tag ? isTaggedLoading : isFolderLoading
 
-  const [isUploading, setIsUploading] = useState(false)
-  const [uploadProgress, setUploadProgress] = useState<string>('')
+  const uploads = useUploadQueue({
+    onBatchComplete: ({ uploaded, failed }) => {
+      if (failed === 0 && uploaded > 0) {
+        toast.success(
+          uploaded === 1 ? 'File uploaded successfully!' : `${uploaded} files uploaded.`
+        )
+      } else if (failed > 0) {
+        toast.error(`${uploaded} uploaded, ${failed} failed. Failed files can be retried.`)
+      }
+    },
+  })
+  const createFolder = useConvexMutation(api.folders.create)
+
+  const [view, setView] = useState<FilesView>('list')
+  const [isDragging, setIsDragging] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
-  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
-
-    // Client-side file size validation
-    if (file.size > MAX_FILE_SIZE) {
-      toast.error('File too large. Maximum size is 10MB.')
-      if (fileInputRef.current) fileInputRef.current.value = ''
-      return
+  // Remember the grid/list choice
+  useEffect(() => {
+    const stored = window.localStorage.getItem(VIEW_STORAGE_KEY)
+    if (stored === 'list' || stored === 'grid') {
+      setView(stored)
     }
+  }, [])
 
-    setIsUploading(true)
-    setUploadProgress('Getting upload URL...')
+  useEffect(() => {
+    window.localStorage.setItem(VIEW_STORAGE_KEY, view)
+  }, [view])
 
+  const enqueueFiles = async (selected: globalThis.File[]) => {
     try {
-      // Get upload URL from Convex
-      const uploadUrl = await generateUploadUrl()
-
-      setUploadProgress('Uploading file...')
-
-      // Upload file to Convex storage
-      const response = await fetch(uploadUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': file.type },
-        body: file,
-      })
-
-      if (!response.ok) {
-        throw new Error('Upload failed')
-      }
-
-      const { storageId } = await response.json()
-
-      setUploadProgress('Saving metadata...')
-
-      // Save file metadata
-      await saveFile({
-        storageId,
-        name: file.name,
-        type: file.type,
-        size: file.size,
-      })
-
-      setUploadProgress('')
-      toast.success('File uploaded successfully!')
+      await uploads.enqueue(selected, { folderId: tag ? undefined : folderId })
     } catch (error) {
       console.error('Upload failed:', error)
-      toast.error('Upload failed. Please try again.')
-      setUploadProgress('')
-    } finally {
-      setIsUploading(false)
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ''
-      }
+      toast.error(error instanceof Error ? error.message : 'Upload failed. Please try again.')
+    }
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? [])
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
     }
+    await enqueueFiles(selected)
+  }
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    await enqueueFiles(Array.from(e.dataTransfer.files))
   }
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this file?')) return
+  const handleCreateFolder = async () => {
+    const name = prompt('Folder name')
+    if (!name) return
 
     try {
-      await deleteFile({ id: id as Id<'files'> })
-      toast.success('File deleted.')
+      await createFolder({ name, parentId: folderId })
     } catch (error) {
-      console.error('Delete failed:', error)
-      toast.error('Failed to delete file.')
+      console.error('Create folder failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create folder.')
     }
   }
 
@@ -116,93 +147,173 @@ function FilesPage() {
               File Storage
             </h1>
           </div>
+          <Link
+            to="/trash"
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            Trash
+          </Link>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8 max-w-3xl">
         {/* Upload Section */}
-        <div className="bg-card rounded-lg border border-border p-6 mb-6">
-          <h2 className="font-semibold mb-4">Upload a File</h2>
-          <p className="text-sm text-muted-foreground mb-4">Maximum file size: 10MB</p>
+        <div
+          onDragOver={(e) => {
+            e.preventDefault()
+            setIsDragging(true)
+          }}
+          onDragLeave={(e) => {
+            // Ignore leaving into a child element
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false)
+          }}
+          onDrop={handleDrop}
+          className={cn(
+            'bg-card rounded-lg border border-border p-6 mb-6 transition-colors',
+            isDragging && 'border-primary bg-primary/5'
+          )}
+        >
+          <h2 className="font-semibold mb-4">Upload Files</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Maximum file size: {formatFileSize(MAX_FILE_SIZE_BYTES)}
+          </p>
+
+          <div className="mb-4">
+            <StorageUsageBar />
+          </div>
 
           <div className="flex items-center gap-4">
             <input
               ref={fileInputRef}
               type="file"
+              multiple
+              accept={ALLOWED_FILE_TYPES.join(',')}
               onChange={handleUpload}
-              disabled={isUploading}
               className="hidden"
               id="file-upload"
             />
             <label
               htmlFor="file-upload"
-              className={`flex items-center gap-2 px-4 py-2 rounded-md border-2 border-dashed border-border cursor-pointer hover:border-primary transition-colors ${
-                isUploading ? 'opacity-50 cursor-not-allowed' : ''
-              }`}
+              className="flex items-center gap-2 px-4 py-2 rounded-md border-2 border-dashed border-border cursor-pointer hover:border-primary transition-colors"
             >
-              {isUploading ? (
+              {uploads.isUploading ? (
                 <Loader2 className="w-5 h-5 animate-spin" />
               ) : (
                 <Upload className="w-5 h-5" />
               )}
-              <span>{isUploading ? uploadProgress : 'Choose a file'}</span>
+              <span>Choose files</span>
             </label>
+            <span className="text-sm text-muted-foreground">or drop them here</span>
           </div>
+
+          <UploadQueue
+            items={uploads.items}
+            onRetry={uploads.retry}
+            onCancel={uploads.cancel}
+            onClearFinished={uploads.clearFinished}
+          />
         </div>
 
+        {/* Tag Filter */}
+        {allTags && allTags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 mb-4">
+            <span className="text-sm text-muted-foreground mr-1">Tags:</span>
+            {allTags.map((t) => (
+              <Link
+                key={t}
+                to="/files"
+                search={t === tag ? {} : { tag: t }}
+                className={cn(
+                  'text-xs px-2 py-0.5 rounded-full transition-colors',
+                  t === tag
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-primary/10 text-primary hover:bg-primary/20'
+                )}
+              >
+                {t}
+              </Link>
+            ))}
+          </div>
+        )}
+
         {/* Files List */}
         <div className="bg-card rounded-lg border border-border">
-          <div className="p-4 border-b border-border">
-            <h2 className="font-semibold">Your Files</h2>
+          <div className="p-4 border-b border-border flex items-center justify-between gap-4">
+            {tag ? (
+              <div className="flex items-center gap-2 text-sm">
+                <span>
+                  Tagged <span className="font-medium">{tag}</span>
+                </span>
+                <Link
+                  to="/files"
+                  search={{}}
+                  className="p-1 rounded hover:bg-muted text-muted-foreground"
+                  title="Clear tag filter"
+                >
+                  <X className="w-3 h-3" />
+                </Link>
+              </div>
+            ) : (
+              <FolderBreadcrumbs folderId={folderId} />
+            )}
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {!tag && (
+                <button
+                  onClick={handleCreateFolder}
+                  className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <FolderPlus className="w-4 h-4" />
+                  New folder
+                </button>
+              )}
+              <button
+                onClick={() => setView(view === 'list' ? 'grid' : 'list')}
+                className="p-1 rounded hover:bg-muted text-muted-foreground transition-colors"
+                title={view === 'list' ? 'Grid view' : 'List view'}
+              >
+                {view === 'list' ? (
+                  <LayoutGrid className="w-4 h-4" />
+                ) : (
+                  <List className="w-4 h-4" />
+                )}
+              </button>
+            </div>
           </div>
 
           {isFilesLoading || isSessionLoading ? (
             <div className="flex items-center justify-center py-12">
               <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
             </div>
-          ) : files?.length === 0 ? (
+          ) : folders.length === 0 && files?.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
               <File className="w-12 h-12 mx-auto mb-2 opacity-50" />
-              <p>No files uploaded yet.</p>
+              <p>{tag ? 'No files with this tag.' : 'This folder is empty.'}</p>
             </div>
           ) : (
-            <div className="divide-y divide-border">
-              {files?.map((file) => (
-                <div
-                  key={file._id}
-                  className="flex items-center gap-4 p-4 hover:bg-muted/50 transition-colors"
-                >
-                  <File className="w-8 h-8 text-primary flex-shrink-0" />
-                  <div className="flex-1 min-w-0">
-                    <p className="font-medium truncate">{file.name}</p>
-                    <p className="text-sm text-muted-foreground">
-                      {formatFileSize(file.size)} • {formatRelativeTime(file._creationTime)}
-                    </p>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    {file.url && (
-                      <a
-                        href={file.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="p-2 rounded-md hover:bg-muted transition-colors"
-                        title="Download"
-                      >
-                        <Download className="w-4 h-4" />
-                      </a>
-                    )}
-                    <button
-                      onClick={() => handleDelete(file._id)}
-                      className="p-2 rounded-md hover:bg-destructive/10 text-destructive transition-colors"
-                      title="Delete"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  </div>
+            <>
+              {folders.length > 0 && (
+                <div className="divide-y divide-border border-b border-border">
+                  {folders.map((f) => (
+                    <FolderRow key={f._id} folder={f} />
+                  ))}
                 </div>
-              ))}
-            </div>
+              )}
+              {view === 'grid' ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 p-4">
+                  {files?.map((file) => (
+                    <FileRow key={file._id} file={file} layout="grid" />
+                  ))}
+                </div>
+              ) : (
+                <div className="divide-y divide-border">
+                  {files?.map((file) => (
+                    <FileRow key={file._id} file={file} />
+                  ))}
+                </div>
+              )}
+            </>
           )}
         </div>
       </main>
@@ -0,0 +1,200 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery, useConvexMutation } from '@convex-dev/react-query'
+import { usePaginatedQuery } from 'convex/react'
+import { api } from '@convex/_generated/api'
+import { PERMISSIONS } from '@convex/lib/config'
+import type { ModerationLogEntry } from '@convex/moderation'
+import { RequirePermission } from '@/lib/patterns/RouteGuards'
+import { ReportedMessageRow } from '@/components/ReportedMessageRow'
+import { formatRelativeTime } from '@/lib/utils'
+import { ArrowLeft, Flag, Gavel, Loader2, ScrollText, VolumeX } from 'lucide-react'
+import { toast } from 'sonner'
+
+/** Number of reported messages / log entries per page */
+const MODERATION_PAGE_SIZE = 20
+
+export const Route = createFileRoute('/_authenticated/moderation')({
+  component: () => (
+    <RequirePermission permission={PERMISSIONS.MESSAGES_MODERATE}>
+      <ModerationPage />
+    </RequirePermission>
+  ),
+})
+
+function ModerationPage() {
+  const queue = usePaginatedQuery(
+    api.moderation.queue,
+    {},
+    { initialNumItems: MODERATION_PAGE_SIZE }
+  )
+  const log = usePaginatedQuery(api.moderation.log, {}, { initialNumItems: MODERATION_PAGE_SIZE })
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Link
+            to="/"
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Link>
+          <h1 className="text-xl font-bold flex items-center gap-2">
+            <Gavel className="w-5 h-5" />
+            Moderation
+          </h1>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <section className="space-y-3">
+          <h2 className="font-semibold flex items-center gap-2">
+            <Flag className="w-4 h-4" />
+            Reported messages
+          </h2>
+          <div className="bg-card rounded-lg border border-border">
+            {queue.status === 'LoadingFirstPage' ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : queue.results.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <Flag className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                <p>No open reports.</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-border">
+                {queue.results.map((item) => (
+                  <ReportedMessageRow key={item.message._id} item={item} />
+                ))}
+              </div>
+            )}
+          </div>
+          <LoadMoreButton
+            status={queue.status}
+            onClick={() => queue.loadMore(MODERATION_PAGE_SIZE)}
+          />
+        </section>
+
+        <MutedUsers />
+
+        <section className="space-y-3">
+          <h2 className="font-semibold flex items-center gap-2">
+            <ScrollText className="w-4 h-4" />
+            Decision log
+          </h2>
+          <div className="bg-card rounded-lg border border-border">
+            {log.status === 'LoadingFirstPage' ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : log.results.length === 0 ? (
+              <p className="text-center py-8 text-sm text-muted-foreground">No decisions yet.</p>
+            ) : (
+              <ul className="divide-y divide-border text-sm">
+                {log.results.map((entry) => (
+                  <li key={entry._id} className="px-4 py-2 flex gap-3">
+                    <span className="text-muted-foreground flex-shrink-0 w-28">
+                      {formatRelativeTime(entry._creationTime)}
+                    </span>
+                    <span className="min-w-0">
+                      {describeLogEntry(entry)}
+                      {entry.note && <span className="text-muted-foreground"> — {entry.note}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <LoadMoreButton status={log.status} onClick={() => log.loadMore(MODERATION_PAGE_SIZE)} />
+        </section>
+      </main>
+    </div>
+  )
+}
+
+// "Sam hid a message by Alex (2 reports)"
+function describeLogEntry(entry: ModerationLogEntry) {
+  const target = entry.userName ?? 'Anonymous'
+  const reports =
+    entry.reportCount !== undefined
+      ? ` (${entry.reportCount} ${entry.reportCount === 1 ? 'report' : 'reports'})`
+      : ''
+  switch (entry.action) {
+    case 'approve':
+      return `${entry.moderatorName} approved a message by ${target}${reports}`
+    case 'hide':
+      return `${entry.moderatorName} hid a message by ${target}${reports}`
+    case 'delete':
+      return `${entry.moderatorName} deleted a message by ${target}${reports}`
+    case 'mute':
+      return `${entry.moderatorName} muted ${target} until ${new Date(entry.expiresAt ?? 0).toLocaleString()}`
+    case 'unmute':
+      return `${entry.moderatorName} unmuted ${target}`
+  }
+}
+
+function MutedUsers() {
+  const { data: mutes } = useQuery(convexQuery(api.moderation.listMutes, {}))
+  const unmute = useConvexMutation(api.moderation.unmute)
+
+  const handleUnmute = async (userId: string, name: string) => {
+    try {
+      await unmute({ userId })
+      toast.success(`${name} can post again.`)
+    } catch (error) {
+      console.error('Failed to unmute user:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to unmute user.')
+    }
+  }
+
+  if (!mutes?.length) return null
+
+  return (
+    <section className="space-y-3">
+      <h2 className="font-semibold flex items-center gap-2">
+        <VolumeX className="w-4 h-4" />
+        Muted users
+      </h2>
+      <ul className="bg-card rounded-lg border border-border divide-y divide-border text-sm">
+        {mutes.map((mute) => (
+          <li key={mute._id} className="px-4 py-2 flex items-center gap-3">
+            <span className="flex-1 min-w-0 truncate">
+              <strong>{mute.userName}</strong> until {new Date(mute.expiresAt).toLocaleString()}{' '}
+              <span className="text-muted-foreground">
+                by {mute.mutedByName}
+                {mute.reason && ` — ${mute.reason}`}
+              </span>
+            </span>
+            <button
+              onClick={() => handleUnmute(mute.userId, mute.userName)}
+              className="px-2 py-1 rounded-md hover:bg-muted transition-colors"
+            >
+              Unmute
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+function LoadMoreButton({ status, onClick }: { status: string; onClick: () => void }) {
+  if (status !== 'CanLoadMore' && status !== 'LoadingMore') return null
+  return (
+    <div className="flex justify-center">
+      <button
+        onClick={onClick}
+        disabled={status === 'LoadingMore'}
+        className="flex items-center gap-2 px-4 py-2 text-sm rounded-md bg-secondary hover:bg-secondary/80 transition-colors disabled:opacity-50"
+      >
+        {status === 'LoadingMore' && <Loader2 className="w-4 h-4 animate-spin" />}
+        Load more
+      </button>
+    </div>
+  )
+}
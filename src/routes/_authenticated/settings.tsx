@@ -0,0 +1,105 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { ConnectedAccounts } from '@/components/ConnectedAccounts'
+import { PasskeySettings } from '@/components/PasskeySettings'
+import { TwoFactorSettings } from '@/components/TwoFactorSettings'
+import { ArrowLeft, Fingerprint, Link2, Settings, ShieldCheck } from 'lucide-react'
+
+interface SettingsSearch {
+  /** Set by Better Auth when connecting a provider fails */
+  error?: string
+}
+
+export const Route = createFileRoute('/_authenticated/settings')({
+  validateSearch: (search: Record<string, unknown>): SettingsSearch => ({
+    error: typeof search.error === 'string' ? search.error : undefined,
+  }),
+  component: SettingsPage,
+})
+
+// Better Auth account linking error codes worth explaining
+const LINK_ERRORS: Record<string, string> = {
+  "email_doesn't_match":
+    'That account uses a different email address. You can only connect accounts with the same email.',
+  account_already_linked_to_different_user: 'That account is already connected to another user.',
+}
+
+function SettingsPage() {
+  const { error } = Route.useSearch()
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Link
+            to="/"
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Link>
+          <h1 className="text-xl font-bold flex items-center gap-2">
+            <Settings className="w-5 h-5" />
+            Settings
+          </h1>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 max-w-2xl space-y-8">
+        <section className="space-y-3">
+          <div>
+            <h2 className="font-semibold flex items-center gap-2">
+              <Link2 className="w-4 h-4" />
+              Connected accounts
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Sign in with any of these. You can connect providers that use the same email address
+              as this account.
+            </p>
+          </div>
+          {error && (
+            <p className="text-sm text-destructive">
+              {LINK_ERRORS[error] ??
+                `Couldn't connect that account (${error.replace(/_/g, ' ')}). Please try again.`}
+            </p>
+          )}
+          <div className="bg-card rounded-lg border border-border">
+            <ConnectedAccounts />
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <div>
+            <h2 className="font-semibold flex items-center gap-2">
+              <Fingerprint className="w-4 h-4" />
+              Passkeys
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Sign in with your fingerprint, face or device PIN instead of a password. Add one for
+              each device you use.
+            </p>
+          </div>
+          <div className="bg-card rounded-lg border border-border">
+            <PasskeySettings />
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <div>
+            <h2 className="font-semibold flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4" />
+              Two-factor authentication
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Ask for a code from an authenticator app after your password when you sign in.
+            </p>
+          </div>
+          <div className="bg-card rounded-lg border border-border">
+            <TwoFactorSettings />
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { convexQuery, useConvexMutation } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { TRASH_RETENTION_DAYS } from '@convex/lib/config'
+import { formatFileSize, formatRelativeTime } from '@/lib/utils'
+import { ArrowLeft, File, Loader2, MessageSquare, RotateCcw, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import type { Id } from '@convex/_generated/dataModel'
+import { toast } from 'sonner'
+
+export const Route = createFileRoute('/_authenticated/trash')({
+  component: TrashPage,
+})
+
+function TrashPage() {
+  const { data: messages, isLoading: isMessagesLoading } = useQuery(
+    convexQuery(api.messages.listTrash, {})
+  )
+  const { data: files, isLoading: isFilesLoading } = useQuery(convexQuery(api.files.listTrash, {}))
+
+  const restoreMessage = useConvexMutation(api.messages.restore)
+  const restoreFile = useConvexMutation(api.files.restore)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const handleRestoreMessage = async (id: Id<'messages'>) => {
+    setRestoringId(id)
+    try {
+      await restoreMessage({ id })
+      toast.success('Message restored.')
+    } catch (error) {
+      console.error('Restore failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to restore message.')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const handleRestoreFile = async (id: Id<'files'>) => {
+    setRestoringId(id)
+    try {
+      await restoreFile({ id })
+      toast.success('File restored.')
+    } catch (error) {
+      console.error('Restore failed:', error)
+      toast.error('Failed to restore file.')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              to="/"
+              className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </Link>
+            <h1 className="text-xl font-bold flex items-center gap-2">
+              <Trash2 className="w-5 h-5" />
+              Trash
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Deleted items are permanently removed after {TRASH_RETENTION_DAYS} days.
+        </p>
+
+        {/* Trashed Messages */}
+        <div className="bg-card rounded-lg border border-border">
+          <div className="p-4 border-b border-border">
+            <h2 className="font-semibold">Messages</h2>
+          </div>
+
+          {isMessagesLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : messages?.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <MessageSquare className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>No deleted messages.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {messages?.map((message) => (
+                <div key={message._id} className="flex items-center gap-4 p-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{message.content}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {message.authorName ?? 'Anonymous'}
+                      {message.parentId && ' • reply'} • deleted{' '}
+                      {formatRelativeTime(message.deletedAt ?? 0)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRestoreMessage(message._id)}
+                    disabled={restoringId === message._id}
+                    className="p-2 rounded-md hover:bg-muted transition-colors disabled:opacity-50"
+                    title="Restore"
+                  >
+                    {restoringId === message._id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4" />
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Trashed Files */}
+        <div className="bg-card rounded-lg border border-border">
+          <div className="p-4 border-b border-border">
+            <h2 className="font-semibold">Files</h2>
+          </div>
+
+          {isFilesLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : files?.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <File className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>No deleted files.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {files?.map((file) => (
+                <div key={file._id} className="flex items-center gap-4 p-4">
+                  <File className="w-8 h-8 text-muted-foreground flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{file.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatFileSize(file.size)} • deleted{' '}
+                      {formatRelativeTime(file.deletedAt ?? 0)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRestoreFile(file._id)}
+                    disabled={restoringId === file._id}
+                    className="p-2 rounded-md hover:bg-muted transition-colors disabled:opacity-50"
+                    title="Restore"
+                  >
+                    {restoringId === file._id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4" />
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,17 +1,32 @@
 import { createFileRoute, Link } from '@tanstack/react-router'
-import { useSuspenseQuery } from '@tanstack/react-query'
+import { useQuery } from '@tanstack/react-query'
 import { convexQuery, useConvexMutation } from '@convex-dev/react-query'
 import { api } from '@convex/_generated/api'
-import { useSession, signIn, signOut } from '@/lib/auth-client'
+import { PERMISSIONS } from '@convex/lib/config'
+import { useSession, signOut } from '@/lib/auth-client'
 import { useAdmin } from '@/hooks/use-admin'
-import { formatRelativeTime } from '@/lib/utils'
-import { MessageSquare, Send, LogIn, LogOut, User, Loader2, Trash2, Shield } from 'lucide-react'
+import { usePermission } from '@/hooks/use-permission'
+import { usePaginatedMessages, messagesFirstPageQuery } from '@/hooks/use-paginated-messages'
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll'
+import { MessageItem } from '@/components/MessageItem'
+import { MessageThread } from '@/components/MessageThread'
+import { MessageSearch } from '@/components/MessageSearch'
+import {
+  MessageSquare,
+  MessageCircle,
+  Send,
+  LogIn,
+  LogOut,
+  User,
+  Loader2,
+  Shield,
+} from 'lucide-react'
 import { useState, Suspense } from 'react'
-import type { Id } from '@convex/_generated/dataModel'
 
 export const Route = createFileRoute('/')({
   loader: async ({ context }) => {
-    await context.queryClient.ensureQueryData(convexQuery(api.messages.list, {}))
+    // Preload the first page so it renders on the server
+    await context.queryClient.ensureQueryData(messagesFirstPageQuery())
   },
   component: HomePage,
 })
@@ -26,32 +41,28 @@ function HomePage() {
 
 function HomePageContent() {
   const { data: session, isPending: isSessionLoading } = useSession()
-  const { data: messages } = useSuspenseQuery(convexQuery(api.messages.list, {}))
+  const { messages, canLoadMore, isLoadingMore, loadMore } = usePaginatedMessages()
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(loadMore, { enabled: canLoadMore })
 
   const [newMessage, setNewMessage] = useState('')
   const sendMessage = useConvexMutation(api.messages.send)
-  const deleteMessage = useConvexMutation(api.messages.remove)
-  const deleteAnyMessage = useConvexMutation(api.messages.deleteAny)
   const [isSending, setIsSending] = useState(false)
-  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [expandedThreadId, setExpandedThreadId] = useState<string | null>(null)
+
+  // The user Convex acts as (the impersonated user while impersonating),
+  // which may differ from the Better Auth session user
+  const { data: viewer } = useQuery(convexQuery(api.users.current, {}))
 
   // Admin status
   const { isAdmin } = useAdmin()
+  const { hasPermission: canManageUsers } = usePermission(PERMISSIONS.USERS_MANAGE)
+  const { hasPermission: canModerate } = usePermission(PERMISSIONS.MESSAGES_MODERATE)
 
-  const handleDelete = async (messageId: Id<'messages'>, isOwner: boolean) => {
-    setDeletingId(messageId)
-    try {
-      if (isOwner) {
-        await deleteMessage({ id: messageId })
-      } else if (isAdmin) {
-        await deleteAnyMessage({ id: messageId })
-      }
-    } catch (error) {
-      console.error('Failed to delete message:', error)
-    } finally {
-      setDeletingId(null)
-    }
-  }
+  // Admins who must set up 2FA before admin access works (ADMIN_TWO_FACTOR_REQUIRED)
+  const { data: access } = useQuery(convexQuery(api.users.access, {}))
+
+  // Muted users see why they can't post
+  const { data: mute } = useQuery(convexQuery(api.moderation.myMute, {}))
 
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -68,10 +79,6 @@ function HomePageContent() {
     }
   }
 
-  const handleSignIn = () => {
-    signIn.social({ provider: 'google' })
-  }
-
   const handleSignOut = () => {
     signOut()
   }
@@ -94,12 +101,44 @@ function HomePageContent() {
             >
               Files
             </Link>
+            {session?.user && (
+              <Link
+                to="/trash"
+                className="text-muted-foreground hover:text-foreground transition-colors"
+                preload="intent"
+              >
+                Trash
+              </Link>
+            )}
+            {canModerate && (
+              <Link
+                to="/moderation"
+                className="text-muted-foreground hover:text-foreground transition-colors"
+                preload="intent"
+              >
+                Moderation
+              </Link>
+            )}
+            {canManageUsers && (
+              <Link
+                to="/admin/users"
+                className="text-muted-foreground hover:text-foreground transition-colors"
+                preload="intent"
+              >
+                Users
+              </Link>
+            )}
 
             {isSessionLoading ? (
               <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
             ) : session?.user ? (
               <div className="flex items-center gap-3">
-                <div className="flex items-center gap-2">
+                <Link
+                  to="/settings"
+                  title="Settings"
+                  className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                  preload="intent"
+                >
                   {session.user.image ? (
                     <img
                       src={session.user.image}
@@ -116,7 +155,7 @@ function HomePageContent() {
                       Admin
                     </span>
                   )}
-                </div>
+                </Link>
                 <button
                   onClick={handleSignOut}
                   className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-md bg-secondary hover:bg-secondary/80 transition-colors"
@@ -126,13 +165,13 @@ function HomePageContent() {
                 </button>
               </div>
             ) : (
-              <button
-                onClick={handleSignIn}
+              <Link
+                to="/sign-in"
                 className="flex items-center gap-2 px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
               >
                 <LogIn className="w-4 h-4" />
-                Sign in with Google
-              </button>
+                Sign in
+              </Link>
             )}
           </nav>
         </div>
@@ -140,63 +179,71 @@ function HomePageContent() {
 
       {/* Main Content */}
       <main className="flex-1 container mx-auto px-4 py-8 max-w-2xl">
+        {access?.twoFactorRequired && (
+          <p className="mb-4 rounded-md border border-destructive/50 bg-destructive/10 px-4 py-3 text-sm">
+            Admin access is paused until you{' '}
+            <Link to="/settings" className="font-medium text-primary hover:underline">
+              set up two-factor authentication
+            </Link>
+            .
+          </p>
+        )}
+
+        {/* Search */}
+        <MessageSearch />
+
         <div className="bg-card rounded-lg border border-border shadow-sm">
           {/* Messages List */}
           <div className="p-4 space-y-4 max-h-[500px] overflow-y-auto">
-            {messages?.length === 0 ? (
+            {messages.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 <MessageSquare className="w-12 h-12 mx-auto mb-2 opacity-50" />
                 <p>No messages yet. Be the first to say hello!</p>
               </div>
             ) : (
-              messages?.map((message) => {
-                const isOwner = session?.user && message.authorId === session.user.id
-                const canDelete = isOwner || isAdmin
+              messages.map((message) => (
+                <MessageItem key={message._id} message={message} currentUserId={viewer?._id}>
+                  <button
+                    onClick={() =>
+                      setExpandedThreadId(expandedThreadId === message._id ? null : message._id)
+                    }
+                    className="mt-1 inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    <MessageCircle className="w-3 h-3" />
+                    {message.replyCount > 0
+                      ? `${message.replyCount} ${message.replyCount === 1 ? 'reply' : 'replies'}`
+                      : 'Reply'}
+                  </button>
+                  {expandedThreadId === message._id && (
+                    <MessageThread parentId={message._id} currentUserId={viewer?._id} />
+                  )}
+                </MessageItem>
+              ))
+            )}
 
-                return (
-                  <div key={message._id} className="flex gap-3 p-3 rounded-lg bg-muted/50 group">
-                    <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
-                      <User className="w-4 h-4 text-primary" />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2">
-                        <span className="font-medium text-sm">
-                          {message.authorName ?? 'Anonymous'}
-                        </span>
-                        <span className="text-xs text-muted-foreground">
-                          {formatRelativeTime(message._creationTime)}
-                        </span>
-                      </div>
-                      <p className="text-foreground mt-1">{message.content}</p>
-                    </div>
-                    {canDelete && (
-                      <button
-                        onClick={() => handleDelete(message._id, !!isOwner)}
-                        disabled={deletingId === message._id}
-                        className="opacity-0 group-hover:opacity-100 transition-opacity p-1 rounded hover:bg-destructive/20 text-muted-foreground hover:text-destructive disabled:opacity-50"
-                        title={isOwner ? 'Delete your message' : 'Delete (Admin)'}
-                      >
-                        {deletingId === message._id ? (
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                        ) : (
-                          <Trash2 className="w-4 h-4" />
-                        )}
-                      </button>
-                    )}
-                  </div>
-                )
-              })
+            {/* Infinite scroll sentinel - loads older messages when visible */}
+            {canLoadMore && <div ref={sentinelRef} className="h-1" aria-hidden />}
+            {isLoadingMore && (
+              <div className="flex justify-center py-2">
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+              </div>
             )}
           </div>
 
           {/* Message Input */}
+          {mute && (
+            <p className="border-t border-border px-4 pt-3 text-sm text-destructive">
+              You are muted until {new Date(mute.expiresAt).toLocaleString()}
+              {mute.reason && `: ${mute.reason}`}
+            </p>
+          )}
           <form onSubmit={handleSend} className="border-t border-border p-4 flex gap-2">
             <input
               type="text"
               value={newMessage}
               onChange={(e) => setNewMessage(e.target.value)}
               placeholder="Type a message..."
-              disabled={isSending}
+              disabled={isSending || !!mute}
               className="flex-1 px-4 py-2 rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
             />
             <button
@@ -0,0 +1,129 @@
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { z } from 'zod'
+import { PASSWORD_MIN_LENGTH } from '@convex/lib/config'
+import { authClient, throwAuthError } from '@/lib/auth-client'
+import { createForm } from '@/lib/patterns/FormFactory'
+import { AuthCard } from '@/components/AuthCard'
+import { MailCheck } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+
+interface ResetPasswordSearch {
+  /** Reset token from the emailed link (omitted = ask for the email address) */
+  token?: string
+  /** Set by Better Auth when the link is invalid or expired */
+  error?: string
+}
+
+export const Route = createFileRoute('/reset-password')({
+  validateSearch: (search: Record<string, unknown>): ResetPasswordSearch => ({
+    token: typeof search.token === 'string' ? search.token : undefined,
+    error: typeof search.error === 'string' ? search.error : undefined,
+  }),
+  component: ResetPasswordPage,
+})
+
+const requestSchema = z.object({
+  email: z.string().email('Please enter a valid email'),
+})
+
+const newPasswordSchema = z
+  .object({
+    password: z
+      .string()
+      .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  })
+
+function ResetPasswordPage() {
+  const { token, error } = Route.useSearch()
+
+  return token && !error ? <NewPassword token={token} /> : <RequestReset linkInvalid={!!error} />
+}
+
+function RequestReset({ linkInvalid }: { linkInvalid: boolean }) {
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  const RequestForm = useMemo(
+    () =>
+      createForm({
+        schema: requestSchema,
+        onSubmit: async ({ email }) => {
+          throwAuthError(await authClient.requestPasswordReset({ email }))
+          setSentTo(email)
+        },
+        fields: {
+          email: { label: 'Email', type: 'email', placeholder: 'you@example.com' },
+        },
+        submitLabel: 'Send Reset Link',
+      }),
+    []
+  )
+
+  return (
+    <AuthCard
+      title="Reset your password"
+      description="Enter your email and we'll send you a link to choose a new password."
+      footer={
+        <Link to="/sign-in" className="text-primary hover:underline">
+          Back to sign in
+        </Link>
+      }
+    >
+      {sentTo ? (
+        <div className="text-center space-y-2">
+          <MailCheck className="w-10 h-10 mx-auto text-muted-foreground" />
+          <p className="text-sm">
+            If an account exists for <strong>{sentTo}</strong>, you'll get an email with a reset
+            link shortly.
+          </p>
+        </div>
+      ) : (
+        <>
+          {linkInvalid && (
+            <p className="text-sm text-destructive">
+              That reset link is invalid or has expired. Request a new one below.
+            </p>
+          )}
+          <RequestForm />
+        </>
+      )}
+    </AuthCard>
+  )
+}
+
+function NewPassword({ token }: { token: string }) {
+  const navigate = useNavigate()
+
+  const NewPasswordForm = useMemo(
+    () =>
+      createForm({
+        schema: newPasswordSchema,
+        onSubmit: async ({ password }) => {
+          throwAuthError(await authClient.resetPassword({ newPassword: password, token }))
+          toast.success('Password changed. Sign in with your new password.')
+          await navigate({ to: '/sign-in' })
+        },
+        fields: {
+          password: {
+            label: 'New password',
+            type: 'password',
+            description: `At least ${PASSWORD_MIN_LENGTH} characters`,
+          },
+          confirmPassword: { label: 'Confirm new password', type: 'password' },
+        },
+        submitLabel: 'Change Password',
+      }),
+    [token, navigate]
+  )
+
+  return (
+    <AuthCard title="Choose a new password">
+      <NewPasswordForm />
+    </AuthCard>
+  )
+}
@@ -0,0 +1,182 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { z } from 'zod'
+import { signIn, signInWithPasskey, throwAuthError } from '@/lib/auth-client'
+import { createForm } from '@/lib/patterns/FormFactory'
+import { AuthCard } from '@/components/AuthCard'
+import { SocialSignInButtons } from '@/components/SocialSignInButtons'
+import { Fingerprint, KeyRound, Loader2, Mail } from 'lucide-react'
+import { useMemo, useState } from 'react'
+
+interface SignInSearch {
+  /** Set by Better Auth when OAuth sign-in fails */
+  error?: string
+}
+
+export const Route = createFileRoute('/sign-in')({
+  validateSearch: (search: Record<string, unknown>): SignInSearch => ({
+    error: typeof search.error === 'string' ? search.error : undefined,
+  }),
+  component: SignInPage,
+})
+
+// Better Auth OAuth error codes worth explaining
+const OAUTH_ERRORS: Record<string, string> = {
+  account_not_linked:
+    'An account with this email already exists. Sign in another way, then connect this provider from Settings.',
+  email_not_found: "That provider didn't share an email address with us.",
+}
+
+const passwordSchema = z.object({
+  email: z.string().email('Please enter a valid email'),
+  password: z.string().min(1, 'Please enter your password'),
+})
+
+const magicLinkSchema = z.object({
+  email: z.string().email('Please enter a valid email'),
+})
+
+const PasswordSignInForm = createForm({
+  schema: passwordSchema,
+  onSubmit: async (data) => {
+    const result = await signIn.email({ ...data, callbackURL: '/' })
+    throwAuthError(result, {
+      403: 'Please verify your email address first. We sent you a new link.',
+    })
+    // The two-factor client plugin takes over and redirects to /two-factor
+    if (result.data && 'twoFactorRedirect' in result.data) return
+    // Reload so Convex picks up the new session
+    location.assign('/')
+  },
+  fields: {
+    email: { label: 'Email', type: 'email', placeholder: 'you@example.com' },
+    password: { label: 'Password', type: 'password', placeholder: '••••••••' },
+  },
+  submitLabel: 'Sign In',
+})
+
+/** Passkeys come first: one tap, no email address needed */
+function PasskeySignInButton() {
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleClick = async () => {
+    setIsSigningIn(true)
+    setError(null)
+    try {
+      // Stays pending while the page reloads
+      if (!(await signInWithPasskey())) setIsSigningIn(false)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Passkey sign-in failed.')
+      setIsSigningIn(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={handleClick}
+        disabled={isSigningIn}
+        className="w-full px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        {isSigningIn ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <Fingerprint className="w-4 h-4" />
+        )}
+        Sign in with a passkey
+      </button>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <div className="flex-1 border-t border-border" />
+        or
+        <div className="flex-1 border-t border-border" />
+      </div>
+    </div>
+  )
+}
+
+function SignInPage() {
+  const { error } = Route.useSearch()
+  const [mode, setMode] = useState<'password' | 'magic-link'>('password')
+  const [magicLinkEmail, setMagicLinkEmail] = useState<string | null>(null)
+
+  const MagicLinkForm = useMemo(
+    () =>
+      createForm({
+        schema: magicLinkSchema,
+        onSubmit: async (data) => {
+          throwAuthError(await signIn.magicLink({ email: data.email, callbackURL: '/' }))
+          setMagicLinkEmail(data.email)
+        },
+        fields: {
+          email: { label: 'Email', type: 'email', placeholder: 'you@example.com' },
+        },
+        submitLabel: 'Email Me a Sign-In Link',
+      }),
+    []
+  )
+
+  return (
+    <AuthCard
+      title="Sign in"
+      description="Welcome back! Sign in to post messages and manage your files."
+      footer={
+        <>
+          Don't have an account?{' '}
+          <Link to="/sign-up" className="text-primary hover:underline">
+            Sign up
+          </Link>
+        </>
+      }
+    >
+      {error && (
+        <p className="text-sm text-destructive">
+          {OAUTH_ERRORS[error] ?? `Sign-in failed (${error.replace(/_/g, ' ')}). Please try again.`}
+        </p>
+      )}
+
+      {!magicLinkEmail && <PasskeySignInButton />}
+
+      {magicLinkEmail ? (
+        <div className="text-center space-y-2">
+          <Mail className="w-10 h-10 mx-auto text-muted-foreground" />
+          <p className="text-sm">
+            We sent a sign-in link to <strong>{magicLinkEmail}</strong>. It expires soon, so check
+            your inbox.
+          </p>
+          <button
+            onClick={() => setMagicLinkEmail(null)}
+            className="text-sm text-primary hover:underline"
+          >
+            Use a different email
+          </button>
+        </div>
+      ) : mode === 'password' ? (
+        <div className="space-y-3">
+          <PasswordSignInForm />
+          <div className="flex justify-between text-sm">
+            <Link to="/reset-password" className="text-primary hover:underline">
+              Forgot password?
+            </Link>
+            <button onClick={() => setMode('magic-link')} className="text-primary hover:underline">
+              Sign in without a password
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <MagicLinkForm />
+          <button
+            onClick={() => setMode('password')}
+            className="flex items-center gap-1 text-sm text-primary hover:underline"
+          >
+            <KeyRound className="w-4 h-4" />
+            Sign in with a password
+          </button>
+        </div>
+      )}
+
+      <SocialSignInButtons />
+    </AuthCard>
+  )
+}
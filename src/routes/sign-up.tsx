@@ -0,0 +1,81 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { z } from 'zod'
+import { PASSWORD_MIN_LENGTH } from '@convex/lib/config'
+import { authClient, throwAuthError } from '@/lib/auth-client'
+import { createForm } from '@/lib/patterns/FormFactory'
+import { AuthCard } from '@/components/AuthCard'
+import { MailCheck } from 'lucide-react'
+import { useMemo, useState } from 'react'
+
+export const Route = createFileRoute('/sign-up')({
+  component: SignUpPage,
+})
+
+const signUpSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Please enter your name'),
+    email: z.string().email('Please enter a valid email'),
+    password: z
+      .string()
+      .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  })
+
+function SignUpPage() {
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  const SignUpForm = useMemo(
+    () =>
+      createForm({
+        schema: signUpSchema,
+        onSubmit: async ({ name, email, password }) => {
+          // The verification link signs the user in and returns them home
+          throwAuthError(await authClient.signUp.email({ name, email, password, callbackURL: '/' }))
+          setSentTo(email)
+        },
+        fields: {
+          name: { label: 'Name', placeholder: 'Your name' },
+          email: { label: 'Email', type: 'email', placeholder: 'you@example.com' },
+          password: {
+            label: 'Password',
+            type: 'password',
+            description: `At least ${PASSWORD_MIN_LENGTH} characters`,
+          },
+          confirmPassword: { label: 'Confirm password', type: 'password' },
+        },
+        submitLabel: 'Create Account',
+      }),
+    []
+  )
+
+  return (
+    <AuthCard
+      title="Create an account"
+      description="Sign up with your email address."
+      footer={
+        <>
+          Already have an account?{' '}
+          <Link to="/sign-in" className="text-primary hover:underline">
+            Sign in
+          </Link>
+        </>
+      }
+    >
+      {sentTo ? (
+        <div className="text-center space-y-2">
+          <MailCheck className="w-10 h-10 mx-auto text-muted-foreground" />
+          <p className="text-sm">
+            We sent a verification link to <strong>{sentTo}</strong>. Open it to finish creating
+            your account.
+          </p>
+        </div>
+      ) : (
+        <SignUpForm />
+      )}
+    </AuthCard>
+  )
+}
@@ -0,0 +1,86 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { z } from 'zod'
+import { authClient, throwAuthError } from '@/lib/auth-client'
+import { createForm } from '@/lib/patterns/FormFactory'
+import { AuthCard } from '@/components/AuthCard'
+import { useState } from 'react'
+
+export const Route = createFileRoute('/two-factor')({
+  component: TwoFactorPage,
+})
+
+const totpSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your app'),
+  trustDevice: z.boolean().optional(),
+})
+
+const backupCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Please enter a backup code'),
+})
+
+// Reload so Convex picks up the new session
+const finishSignIn = () => location.assign('/')
+
+const TotpForm = createForm({
+  schema: totpSchema,
+  onSubmit: async ({ code, trustDevice }) => {
+    throwAuthError(await authClient.twoFactor.verifyTotp({ code, trustDevice }))
+    finishSignIn()
+  },
+  fields: {
+    code: { label: 'Authentication code', placeholder: '123456' },
+    trustDevice: { label: "Don't ask again on this device for 30 days", type: 'checkbox' },
+  },
+  submitLabel: 'Verify',
+})
+
+const BackupCodeForm = createForm({
+  schema: backupCodeSchema,
+  onSubmit: async ({ code }) => {
+    throwAuthError(await authClient.twoFactor.verifyBackupCode({ code }))
+    finishSignIn()
+  },
+  fields: {
+    code: {
+      label: 'Backup code',
+      placeholder: 'xxxxx-xxxxx',
+      description: 'Each backup code works once.',
+    },
+  },
+  submitLabel: 'Verify',
+})
+
+/**
+ * Second sign-in step for users with two-factor authentication. Better Auth
+ * keeps the pending sign-in in a short-lived cookie after the password step,
+ * a magic link or an OAuth provider (see convex/lib/twoFactor.ts).
+ */
+function TwoFactorPage() {
+  const [useBackupCode, setUseBackupCode] = useState(false)
+
+  return (
+    <AuthCard
+      title="Two-factor authentication"
+      description={
+        useBackupCode
+          ? 'Enter one of the backup codes you saved when you set up two-factor authentication.'
+          : 'Enter the code from your authenticator app.'
+      }
+      footer={
+        <Link to="/sign-in" className="text-primary hover:underline">
+          Back to sign in
+        </Link>
+      }
+    >
+      <div className="space-y-3">
+        {useBackupCode ? <BackupCodeForm /> : <TotpForm />}
+        <button
+          onClick={() => setUseBackupCode(!useBackupCode)}
+          className="text-sm text-primary hover:underline"
+        >
+          {useBackupCode ? 'Use your authenticator app' : 'Use a backup code instead'}
+        </button>
+      </div>
+    </AuthCard>
+  )
+}